@@ -0,0 +1,166 @@
+/**
+ * Context budget - fit session-start context into contextBudget.maxTokens
+ *
+ * Every candidate (header, git activity, local context, each fact, summary,
+ * dialectic) is scored by source, relevance to the current work and recency.
+ * The budget is filled greedily from the highest score down; an item that
+ * doesn't fit is truncated if it allows it, otherwise dropped. Kept items
+ * stay in their original order (templates.ts renders them), and drops are logged.
+ */
+
+import { estimateTokens, getContextBudgetConfig } from "./config.js";
+import { logFlow } from "./log.js";
+
+export type ContextSource =
+  | "header"
+  | "feature"
+  | "git"
+  | "local"
+  | "profile"
+  | "user"
+  | "user-deduced"
+  | "clawd"
+  | "summary"
+  | "dialectic";
+
+export interface ContextItem {
+  text: string;
+  source: ContextSource;
+  group?: string; // Sub-heading within the section (e.g. "### Explicit Facts")
+  timestamp?: string; // When the fact was created, for recency
+  required?: boolean; // Always included (e.g. the header)
+  truncatable?: boolean; // Long prose that can be cut to fit
+}
+
+export interface ContextSection {
+  id: string; // Stable name templates refer to (e.g. "user-profile")
+  heading?: string; // Set from the template
+  items: ContextItem[];
+}
+
+export interface BudgetResult {
+  sections: ContextSection[]; // Only kept items, possibly truncated; empty sections removed
+  usedTokens: number;
+  maxTokens: number;
+  dropped: number;
+  truncated: number;
+}
+
+// How much each source is worth before relevance and recency
+const SOURCE_WEIGHTS: Record<ContextSource, number> = {
+  header: 1,
+  feature: 0.9,
+  profile: 0.9,
+  git: 0.85,
+  user: 0.8,
+  local: 0.7,
+  summary: 0.7,
+  clawd: 0.65,
+  "user-deduced": 0.6,
+  dialectic: 0.5,
+};
+// Facts lose half their recency weight every two weeks
+const RECENCY_HALF_LIFE_MS = 14 * 24 * 60 * 60 * 1000;
+// Don't bother keeping a truncated stub smaller than this
+const MIN_TRUNCATED_TOKENS = 40;
+
+const WORD_PATTERN = /[a-z0-9][a-z0-9_-]{2,}/g;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD_PATTERN) || [];
+}
+
+/**
+ * 0..1 share of keywords mentioned in the text, 0.5 when there are no keywords
+ */
+export function scoreRelevance(text: string, keywords: string[]): number {
+  if (keywords.length === 0) return 0.5;
+  const words = new Set(tokenize(text));
+  const wanted = new Set(keywords.flatMap(tokenize));
+  let hits = 0;
+  for (const keyword of wanted) {
+    if (words.has(keyword)) hits++;
+  }
+  return Math.min(1, hits / Math.min(wanted.size, 3));
+}
+
+function scoreRecency(timestamp?: string): number {
+  if (!timestamp) return 0.7;
+  const age = Date.now() - new Date(timestamp).getTime();
+  if (Number.isNaN(age)) return 0.7;
+  return 0.4 + 0.6 * Math.pow(0.5, Math.max(0, age) / RECENCY_HALF_LIFE_MS);
+}
+
+export function scoreItem(item: ContextItem, keywords: string[]): number {
+  const relevance = scoreRelevance(item.text, keywords);
+  return SOURCE_WEIGHTS[item.source] * (0.5 + 0.5 * relevance) * scoreRecency(item.timestamp);
+}
+
+function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = tokens * 4 - 3;
+  const cut = text.slice(0, maxChars);
+  // Prefer ending on a line or sentence boundary
+  const boundary = Math.max(cut.lastIndexOf("\n"), cut.lastIndexOf(". "));
+  return (boundary > maxChars * 0.6 ? cut.slice(0, boundary + 1) : cut).trimEnd() + "...";
+}
+
+/**
+ * Fill the token budget with the highest-value items.
+ * `keywords` describe the current work (branch, feature, areas) for relevance.
+ */
+export function assembleContext(sections: ContextSection[], keywords: string[] = [], maxTokens?: number): BudgetResult {
+  const budget = maxTokens ?? getContextBudgetConfig().maxTokens ?? 4000;
+
+  const candidates = sections.flatMap((section) =>
+    section.items.map((item) => ({ section, item, tokens: estimateTokens(item.text), score: scoreItem(item, keywords) }))
+  );
+  candidates.sort((a, b) => Number(!!b.item.required) - Number(!!a.item.required) || b.score - a.score);
+
+  const kept = new Map<ContextItem, string>();
+  const sectionsStarted = new Set<ContextSection>();
+  const groupsStarted = new Set<string>();
+  const dropped: Array<{ section: string; text: string; tokens: number; score: number }> = [];
+  let truncated = 0;
+  let used = 0;
+
+  for (const { section, item, tokens, score } of candidates) {
+    // Headings cost tokens once, when their first item goes in
+    let overhead = 0;
+    if (section.heading && !sectionsStarted.has(section)) overhead += estimateTokens(section.heading);
+    const groupKey = `${section.id}\0${item.group}`;
+    if (item.group && !groupsStarted.has(groupKey)) overhead += estimateTokens(item.group);
+
+    const remaining = budget - used - overhead;
+    let text: string | null = null;
+    if (item.required || tokens <= remaining) {
+      text = item.text;
+    } else if (item.truncatable && remaining >= MIN_TRUNCATED_TOKENS) {
+      text = truncateToTokens(item.text, remaining);
+      truncated++;
+    }
+
+    if (text === null) {
+      dropped.push({ section: section.id, text: item.text.slice(0, 60), tokens, score: Math.round(score * 100) / 100 });
+      continue;
+    }
+    kept.set(item, text);
+    sectionsStarted.add(section);
+    if (item.group) groupsStarted.add(groupKey);
+    used += overhead + estimateTokens(text);
+  }
+
+  const result = sections
+    .map((section) => ({
+      ...section,
+      items: section.items.filter((item) => kept.has(item)).map((item) => ({ ...item, text: kept.get(item)! })),
+    }))
+    .filter((section) => section.items.length > 0);
+
+  logFlow(
+    "budget",
+    `Context: ${used}/${budget} tokens, ${kept.size} items kept, ${dropped.length} dropped, ${truncated} truncated`,
+    dropped.length > 0 ? { dropped: dropped.slice(0, 20) } : undefined
+  );
+
+  return { sections: result, usedTokens: used, maxTokens: budget, dropped: dropped.length, truncated };
+}
@@ -1,12 +1,54 @@
-import { homedir } from "os";
 import { join } from "path";
-import { existsSync, readFileSync, writeFileSync, appendFileSync, mkdirSync } from "fs";
-import { getContextRefreshConfig, getLocalContextConfig } from "./config.js";
-
-const CACHE_DIR = join(homedir(), ".honcho-clawd");
+import { existsSync, mkdirSync, readFileSync, appendFileSync } from "fs";
+import { createHash, randomUUID } from "crypto";
+import { getActiveProfile, getConfigDir, getContextRefreshConfig, getLocalContextConfig } from "./config.js";
+import { getActiveDetectors, redact, redactMetadata, type Detector, type Redaction } from "./redact.js";
+import { logFlow } from "./log.js";
+import {
+  readJsonFile,
+  writeJsonFileAtomic,
+  updateJsonFile,
+  writeFileAtomic,
+  withFileLock,
+  readJsonLines,
+  appendJsonLine,
+  updateJsonLines,
+  writeJsonLinesAtomic,
+} from "./storage.js";
+import {
+  isSqliteBackend,
+  dbTransaction,
+  dbGetIdMapping,
+  dbSetIdMapping,
+  dbListIdMappings,
+  dbPruneIdMappings,
+  dbDeleteIdMapping,
+  dbGetWorkspaceMapping,
+  dbClearIdMappings,
+  dbGetContextSnapshot,
+  dbListContextSnapshots,
+  dbUpdateContextSnapshot,
+  dbEvictContextSnapshots,
+  dbClearContextSnapshots,
+  dbGetGitSnapshot,
+  dbSetGitSnapshot,
+  dbListGitSnapshots,
+  dbClearGitSnapshots,
+  dbQueueMessage,
+  dbGetQueuedMessage,
+  dbGetQueuedMessages,
+  dbUpdateQueuedMessage,
+  dbDeleteQueuedMessage,
+  dbPruneUploadedMessages,
+  dbDeleteQueuedMessages,
+  type IdMappingKind,
+} from "./db.js";
+
+const CACHE_DIR = getConfigDir();
 const ID_CACHE_FILE = join(CACHE_DIR, "cache.json");
 const CONTEXT_CACHE_FILE = join(CACHE_DIR, "context-cache.json");
 const MESSAGE_QUEUE_FILE = join(CACHE_DIR, "message-queue.jsonl");
+const DEAD_LETTER_FILE = join(CACHE_DIR, "dead-letter.jsonl");
 const CLAWD_CONTEXT_FILE = join(CACHE_DIR, "clawd-context.md");
 
 // Ensure cache directory exists
@@ -24,88 +66,220 @@ interface IdCache {
   workspace?: { name: string; id: string };
   peers?: Record<string, string>; // peerName -> peerId
   sessions?: Record<string, { name: string; id: string; updatedAt: string }>; // cwd -> session info
-  claudeInstanceId?: string; // Current Claude Code session_id for instance tagging
+  instances?: {
+    byCwd?: Record<string, InstanceRecord>; // cwd -> most recent Claude instance there
+    byTranscript?: Record<string, InstanceRecord>; // transcript_path -> Claude instance
+  };
+}
+
+interface InstanceRecord {
+  id: string; // Claude Code session_id
+  cwd: string;
+  updatedAt: string;
+}
+
+// Max remembered instances per map (oldest dropped first)
+const MAX_TRACKED_INSTANCES = 50;
+// What the ID cache holds in id_mappings; cursors, heat and todos share the table
+const ID_CACHE_KINDS: IdMappingKind[] = ["workspace", "peer", "session", "instance_cwd", "instance_transcript"];
+
+/**
+ * Prefix a cache key with the active profile, so IDs and context from
+ * different identities never mix. Without a profile keys are unchanged.
+ */
+function scopeKey(key: string, cwd?: string): string {
+  const profile = getActiveProfile(cwd);
+  return profile ? `${profile}::${key}` : key;
 }
 
 export function loadIdCache(): IdCache {
-  ensureCacheDir();
-  if (!existsSync(ID_CACHE_FILE)) {
-    return {};
-  }
-  try {
-    return JSON.parse(readFileSync(ID_CACHE_FILE, "utf-8"));
-  } catch {
-    return {};
+  if (isSqliteBackend()) {
+    return {
+      workspace: dbGetWorkspaceMapping() ?? undefined,
+      peers: dbListIdMappings<string>("peer"),
+      sessions: dbListIdMappings("session"),
+      instances: {
+        byCwd: dbListIdMappings<InstanceRecord>("instance_cwd"),
+        byTranscript: dbListIdMappings<InstanceRecord>("instance_transcript"),
+      },
+    };
   }
+  ensureCacheDir();
+  return readJsonFile<IdCache>(ID_CACHE_FILE, {});
 }
 
 export function saveIdCache(cache: IdCache): void {
+  if (isSqliteBackend()) {
+    dbTransaction(() => {
+      dbClearIdMappings(ID_CACHE_KINDS);
+      if (cache.workspace) dbSetIdMapping("workspace", cache.workspace.name, cache.workspace);
+      for (const [name, id] of Object.entries(cache.peers || {})) dbSetIdMapping("peer", name, id);
+      for (const [cwd, session] of Object.entries(cache.sessions || {})) dbSetIdMapping("session", cwd, session);
+      for (const [cwd, record] of Object.entries(cache.instances?.byCwd || {})) dbSetIdMapping("instance_cwd", cwd, record);
+      for (const [path, record] of Object.entries(cache.instances?.byTranscript || {})) {
+        dbSetIdMapping("instance_transcript", path, record);
+      }
+    });
+    return;
+  }
+  ensureCacheDir();
+  withFileLock(ID_CACHE_FILE, () => writeJsonFileAtomic(ID_CACHE_FILE, cache));
+}
+
+function updateIdCache(mutate: (cache: IdCache) => void): IdCache {
   ensureCacheDir();
-  writeFileSync(ID_CACHE_FILE, JSON.stringify(cache, null, 2));
+  return updateJsonFile<IdCache>(ID_CACHE_FILE, {}, mutate);
 }
 
-export function getCachedWorkspaceId(workspaceName: string): string | null {
+export function getCachedWorkspaceId(workspaceName: string, cwd?: string): string | null {
+  const key = scopeKey(workspaceName, cwd);
+  if (isSqliteBackend()) {
+    return dbGetIdMapping<{ name: string; id: string }>("workspace", key)?.id || null;
+  }
   const cache = loadIdCache();
-  if (cache.workspace?.name === workspaceName) {
+  if (cache.workspace?.name === key) {
     return cache.workspace.id;
   }
   return null;
 }
 
-export function setCachedWorkspaceId(name: string, id: string): void {
-  const cache = loadIdCache();
-  cache.workspace = { name, id };
-  saveIdCache(cache);
+export function setCachedWorkspaceId(name: string, id: string, cwd?: string): void {
+  const key = scopeKey(name, cwd);
+  if (isSqliteBackend()) {
+    dbSetIdMapping("workspace", key, { name: key, id });
+    return;
+  }
+  updateIdCache((cache) => {
+    cache.workspace = { name: key, id };
+  });
 }
 
-export function getCachedPeerId(peerName: string): string | null {
+export function getCachedPeerId(peerName: string, cwd?: string): string | null {
+  const key = scopeKey(peerName, cwd);
+  if (isSqliteBackend()) {
+    return dbGetIdMapping<string>("peer", key);
+  }
   const cache = loadIdCache();
-  return cache.peers?.[peerName] || null;
+  return cache.peers?.[key] || null;
 }
 
-export function setCachedPeerId(peerName: string, peerId: string): void {
-  const cache = loadIdCache();
-  if (!cache.peers) cache.peers = {};
-  cache.peers[peerName] = peerId;
-  saveIdCache(cache);
+export function setCachedPeerId(peerName: string, peerId: string, cwd?: string): void {
+  const key = scopeKey(peerName, cwd);
+  if (isSqliteBackend()) {
+    dbSetIdMapping("peer", key, peerId);
+    return;
+  }
+  updateIdCache((cache) => {
+    if (!cache.peers) cache.peers = {};
+    cache.peers[key] = peerId;
+  });
 }
 
-export function getCachedSessionId(cwd: string): string | null {
-  const cache = loadIdCache();
-  return cache.sessions?.[cwd]?.id || null;
+/**
+ * The cwd's cached session ID. With sessionName, only if it was cached for that
+ * session, so a renamed session (or a `sessions` rule change) isn't sent to the old one.
+ */
+export function getCachedSessionId(cwd: string, sessionName?: string): string | null {
+  const key = scopeKey(cwd, cwd);
+  const entry = isSqliteBackend()
+    ? dbGetIdMapping<{ name: string; id: string }>("session", key)
+    : loadIdCache().sessions?.[key];
+  if (!entry || (sessionName !== undefined && entry.name !== sessionName)) return null;
+  return entry.id || null;
 }
 
 export function setCachedSessionId(cwd: string, name: string, id: string): void {
-  const cache = loadIdCache();
-  if (!cache.sessions) cache.sessions = {};
-  cache.sessions[cwd] = { name, id, updatedAt: new Date().toISOString() };
-  saveIdCache(cache);
+  const key = scopeKey(cwd, cwd);
+  if (isSqliteBackend()) {
+    dbSetIdMapping("session", key, { name, id, updatedAt: new Date().toISOString() });
+    return;
+  }
+  updateIdCache((cache) => {
+    if (!cache.sessions) cache.sessions = {};
+    cache.sessions[key] = { name, id, updatedAt: new Date().toISOString() };
+  });
 }
 
 // Claude instance tracking for parallel session support
-export function getClaudeInstanceId(): string | null {
+// Tracked per transcript and per cwd so parallel windows never overwrite each other
+export function getClaudeInstanceId(cwd?: string, transcriptPath?: string): string | null {
+  if (isSqliteBackend()) {
+    const record =
+      (transcriptPath && dbGetIdMapping<InstanceRecord>("instance_transcript", transcriptPath)) ||
+      (cwd && dbGetIdMapping<InstanceRecord>("instance_cwd", cwd));
+    return record ? record.id : null;
+  }
   const cache = loadIdCache();
-  return cache.claudeInstanceId || null;
+  if (transcriptPath && cache.instances?.byTranscript?.[transcriptPath]) {
+    return cache.instances.byTranscript[transcriptPath].id;
+  }
+  if (cwd && cache.instances?.byCwd?.[cwd]) {
+    return cache.instances.byCwd[cwd].id;
+  }
+  return null;
 }
 
-export function setClaudeInstanceId(instanceId: string): void {
-  const cache = loadIdCache();
-  cache.claudeInstanceId = instanceId;
-  saveIdCache(cache);
+export function setClaudeInstanceId(instanceId: string, cwd: string, transcriptPath?: string): void {
+  const record: InstanceRecord = { id: instanceId, cwd, updatedAt: new Date().toISOString() };
+  if (isSqliteBackend()) {
+    dbTransaction(() => {
+      dbSetIdMapping("instance_cwd", cwd, record);
+      dbPruneIdMappings("instance_cwd", MAX_TRACKED_INSTANCES);
+      if (transcriptPath) {
+        dbSetIdMapping("instance_transcript", transcriptPath, record);
+        dbPruneIdMappings("instance_transcript", MAX_TRACKED_INSTANCES);
+      }
+    });
+    return;
+  }
+  updateIdCache((cache) => {
+    if (!cache.instances) cache.instances = {};
+    cache.instances.byCwd = pruneInstances({ ...cache.instances.byCwd, [cwd]: record });
+    if (transcriptPath) {
+      cache.instances.byTranscript = pruneInstances({ ...cache.instances.byTranscript, [transcriptPath]: record });
+    }
+  });
+}
+
+/**
+ * Resolve the instance ID for a hook invocation.
+ * The hook's own session_id always wins; cached mappings are the fallback.
+ */
+export function resolveClaudeInstanceId(sessionId: string | undefined, cwd: string, transcriptPath?: string): string | null {
+  return sessionId || getClaudeInstanceId(cwd, transcriptPath);
+}
+
+function pruneInstances(records: Record<string, InstanceRecord>): Record<string, InstanceRecord> {
+  const entries = Object.entries(records);
+  if (entries.length <= MAX_TRACKED_INSTANCES) return records;
+  entries.sort(([, a], [, b]) => b.updatedAt.localeCompare(a.updatedAt));
+  return Object.fromEntries(entries.slice(0, MAX_TRACKED_INSTANCES));
 }
 
 // ============================================
 // Context Cache - user + clawd context with TTL
+// Keyed per session (cwd, optionally + Claude instance) so parallel
+// sessions in different repos never serve each other's context
 // ============================================
 
-interface ContextCache {
+interface SessionContextEntry {
   userContext?: { data: any; fetchedAt: number };
   clawdContext?: { data: any; fetchedAt: number };
   summaries?: { data: any; fetchedAt: number };
   messageCount?: number; // Track messages since last refresh
   lastRefreshMessageCount?: number; // Message count at last knowledge graph refresh
+  lastAccessedAt?: number; // Used for eviction of abandoned sessions
 }
 
+interface ContextCache {
+  sessions?: Record<string, SessionContextEntry>; // session key -> context entry
+}
+
+// Entries untouched for this long are evicted on the next write
+const CONTEXT_ENTRY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// Hard cap on cached sessions, oldest evicted first
+const CONTEXT_MAX_ENTRIES = 50;
+
 // These are now configurable via config.json, with defaults in getContextRefreshConfig()
 function getContextTTL(): number {
   const config = getContextRefreshConfig();
@@ -117,161 +291,557 @@ function getMessageRefreshThreshold(): number {
   return config.messageThreshold ?? 50;
 }
 
-export function loadContextCache(): ContextCache {
-  ensureCacheDir();
-  if (!existsSync(CONTEXT_CACHE_FILE)) {
-    return {};
+/**
+ * Build the context cache key for a session.
+ * Keyed by cwd (and profile); also keyed by Claude instance when contextRefresh.perInstance is set.
+ */
+export function getContextCacheKey(cwd: string, instanceId?: string | null): string {
+  const { perInstance } = getContextRefreshConfig();
+  if (perInstance && instanceId) {
+    return scopeKey(`${cwd}#${instanceId}`, cwd);
   }
-  try {
-    return JSON.parse(readFileSync(CONTEXT_CACHE_FILE, "utf-8"));
-  } catch {
+  return scopeKey(cwd, cwd);
+}
+
+function normalizeContextCache(parsed: any): ContextCache {
+  // Legacy single-entry format (pre per-session keys) is discarded
+  if (!parsed || typeof parsed !== "object" || !parsed.sessions) {
     return {};
   }
+  return parsed;
+}
+
+export function loadContextCache(): ContextCache {
+  if (isSqliteBackend()) {
+    return { sessions: dbListContextSnapshots<SessionContextEntry>() };
+  }
+  ensureCacheDir();
+  return normalizeContextCache(readJsonFile<ContextCache>(CONTEXT_CACHE_FILE, {}));
 }
 
 export function saveContextCache(cache: ContextCache): void {
+  evictStaleContextEntries(cache);
+  if (isSqliteBackend()) {
+    dbTransaction(() => {
+      dbClearContextSnapshots();
+      for (const [key, entry] of Object.entries(cache.sessions || {})) {
+        dbUpdateContextSnapshot<SessionContextEntry>(key, (e) => Object.assign(e, entry));
+      }
+    });
+    return;
+  }
+  ensureCacheDir();
+  withFileLock(CONTEXT_CACHE_FILE, () => writeJsonFileAtomic(CONTEXT_CACHE_FILE, cache));
+}
+
+/**
+ * Drop entries for sessions that haven't been touched recently,
+ * and cap the total number of cached sessions.
+ */
+export function evictStaleContextEntries(cache: ContextCache): number {
+  if (!cache.sessions) return 0;
+  const now = Date.now();
+  let evicted = 0;
+
+  for (const [key, entry] of Object.entries(cache.sessions)) {
+    if (now - (entry.lastAccessedAt || 0) > CONTEXT_ENTRY_MAX_AGE_MS) {
+      delete cache.sessions[key];
+      evicted++;
+    }
+  }
+
+  const keys = Object.keys(cache.sessions);
+  if (keys.length > CONTEXT_MAX_ENTRIES) {
+    const oldest = keys
+      .sort((a, b) => (cache.sessions![a].lastAccessedAt || 0) - (cache.sessions![b].lastAccessedAt || 0))
+      .slice(0, keys.length - CONTEXT_MAX_ENTRIES);
+    for (const key of oldest) {
+      delete cache.sessions[key];
+      evicted++;
+    }
+  }
+
+  return evicted;
+}
+
+function getSessionEntry(cache: ContextCache, sessionKey: string): SessionContextEntry {
+  if (!cache.sessions) cache.sessions = {};
+  if (!cache.sessions[sessionKey]) cache.sessions[sessionKey] = {};
+  const entry = cache.sessions[sessionKey];
+  entry.lastAccessedAt = Date.now();
+  return entry;
+}
+
+function loadSessionEntry(sessionKey: string): SessionContextEntry | undefined {
+  if (isSqliteBackend()) {
+    return dbGetContextSnapshot<SessionContextEntry>(sessionKey) ?? undefined;
+  }
+  return loadContextCache().sessions?.[sessionKey];
+}
+
+function updateSessionEntry(sessionKey: string, update: (entry: SessionContextEntry) => void): SessionContextEntry {
+  if (isSqliteBackend()) {
+    return dbTransaction(() => {
+      const entry = dbUpdateContextSnapshot<SessionContextEntry>(sessionKey, (e) => {
+        e.lastAccessedAt = Date.now();
+        update(e);
+      });
+      dbEvictContextSnapshots(CONTEXT_ENTRY_MAX_AGE_MS, CONTEXT_MAX_ENTRIES);
+      return entry;
+    });
+  }
   ensureCacheDir();
-  writeFileSync(CONTEXT_CACHE_FILE, JSON.stringify(cache, null, 2));
+  let entry: SessionContextEntry = {};
+  updateJsonFile<ContextCache>(CONTEXT_CACHE_FILE, {}, (raw) => {
+    const cache = normalizeContextCache(raw);
+    entry = getSessionEntry(cache, sessionKey);
+    update(entry);
+    evictStaleContextEntries(cache);
+    return cache;
+  });
+  return entry;
 }
 
-export function getCachedUserContext(): any | null {
-  const cache = loadContextCache();
-  if (cache.userContext && Date.now() - cache.userContext.fetchedAt < getContextTTL()) {
-    return cache.userContext.data;
+export function getCachedUserContext(sessionKey: string): any | null {
+  const entry = loadSessionEntry(sessionKey);
+  if (entry?.userContext && Date.now() - entry.userContext.fetchedAt < getContextTTL()) {
+    return entry.userContext.data;
   }
   return null;
 }
 
-export function setCachedUserContext(data: any): void {
-  const cache = loadContextCache();
-  cache.userContext = { data, fetchedAt: Date.now() };
-  saveContextCache(cache);
+export function setCachedUserContext(sessionKey: string, data: any): void {
+  updateSessionEntry(sessionKey, (entry) => {
+    entry.userContext = { data, fetchedAt: Date.now() };
+  });
 }
 
-export function getCachedClawdContext(): any | null {
-  const cache = loadContextCache();
-  if (cache.clawdContext && Date.now() - cache.clawdContext.fetchedAt < getContextTTL()) {
-    return cache.clawdContext.data;
+export function getCachedClawdContext(sessionKey: string): any | null {
+  const entry = loadSessionEntry(sessionKey);
+  if (entry?.clawdContext && Date.now() - entry.clawdContext.fetchedAt < getContextTTL()) {
+    return entry.clawdContext.data;
   }
   return null;
 }
 
-export function setCachedClawdContext(data: any): void {
-  const cache = loadContextCache();
-  cache.clawdContext = { data, fetchedAt: Date.now() };
-  saveContextCache(cache);
+export function setCachedClawdContext(sessionKey: string, data: any): void {
+  updateSessionEntry(sessionKey, (entry) => {
+    entry.clawdContext = { data, fetchedAt: Date.now() };
+  });
+}
+
+export interface CachedContextSnapshot {
+  data: any;
+  fetchedAt: number;
+}
+
+/**
+ * Last fetched user/clawd context for offline mode, ignoring TTL.
+ * Falls back to other instances' entries for the same cwd (perInstance keys).
+ */
+export function getLastKnownContext(sessionKey: string, cwd: string): {
+  userContext?: CachedContextSnapshot;
+  clawdContext?: CachedContextSnapshot;
+} {
+  const entry = loadSessionEntry(sessionKey);
+  if (entry?.userContext || entry?.clawdContext) {
+    return { userContext: entry.userContext, clawdContext: entry.clawdContext };
+  }
+
+  const newest = (a?: CachedContextSnapshot, b?: CachedContextSnapshot) =>
+    !a || (b && b.fetchedAt > a.fetchedAt) ? b : a;
+  let userContext: CachedContextSnapshot | undefined;
+  let clawdContext: CachedContextSnapshot | undefined;
+  // Keys carry the active profile (getContextCacheKey), so only this identity's entries match
+  const cwdKey = scopeKey(cwd, cwd);
+  for (const [key, e] of Object.entries(loadContextCache().sessions || {})) {
+    if (key !== cwdKey && !key.startsWith(`${cwdKey}#`)) continue;
+    userContext = newest(userContext, e.userContext);
+    clawdContext = newest(clawdContext, e.clawdContext);
+  }
+  return { userContext, clawdContext };
 }
 
-export function isContextCacheStale(): boolean {
-  const cache = loadContextCache();
-  if (!cache.userContext) return true;
-  return Date.now() - cache.userContext.fetchedAt >= getContextTTL();
+export function isContextCacheStale(sessionKey: string): boolean {
+  const entry = loadSessionEntry(sessionKey);
+  if (!entry?.userContext) return true;
+  return Date.now() - entry.userContext.fetchedAt >= getContextTTL();
 }
 
 // Track message count for threshold-based refresh
-export function incrementMessageCount(): number {
-  const cache = loadContextCache();
-  cache.messageCount = (cache.messageCount || 0) + 1;
-  saveContextCache(cache);
-  return cache.messageCount;
+export function incrementMessageCount(sessionKey: string): number {
+  const entry = updateSessionEntry(sessionKey, (e) => {
+    e.messageCount = (e.messageCount || 0) + 1;
+  });
+  return entry.messageCount || 0;
 }
 
-export function shouldRefreshKnowledgeGraph(): boolean {
-  const cache = loadContextCache();
-  const currentCount = cache.messageCount || 0;
-  const lastRefresh = cache.lastRefreshMessageCount || 0;
+export function shouldRefreshKnowledgeGraph(sessionKey: string): boolean {
+  const entry = loadSessionEntry(sessionKey);
+  const currentCount = entry?.messageCount || 0;
+  const lastRefresh = entry?.lastRefreshMessageCount || 0;
 
   // Refresh if we've sent threshold messages since last refresh
   return (currentCount - lastRefresh) >= getMessageRefreshThreshold();
 }
 
-export function markKnowledgeGraphRefreshed(): void {
-  const cache = loadContextCache();
-  cache.lastRefreshMessageCount = cache.messageCount || 0;
-  saveContextCache(cache);
+export function markKnowledgeGraphRefreshed(sessionKey: string): void {
+  updateSessionEntry(sessionKey, (entry) => {
+    entry.lastRefreshMessageCount = entry.messageCount || 0;
+  });
 }
 
-export function resetMessageCount(): void {
-  const cache = loadContextCache();
-  cache.messageCount = 0;
-  cache.lastRefreshMessageCount = 0;
-  saveContextCache(cache);
+export function resetMessageCount(sessionKey: string): void {
+  updateSessionEntry(sessionKey, (entry) => {
+    entry.messageCount = 0;
+    entry.lastRefreshMessageCount = 0;
+  });
 }
 
 // ============================================
-// Message Queue - local file for reliability
+// Message Queue (outbox) - every Honcho write goes through here
+// Entries carry an idempotency key and their own upload state;
+// outbox.ts does the uploading, retries and dead-lettering
 // ============================================
 
-interface QueuedMessage {
+export type QueuedMessageState = "pending" | "uploading" | "uploaded";
+
+export interface QueuedMessage {
+  id: string; // Idempotency key - queueing the same key twice is a no-op
   content: string;
   peerId: string;
   cwd: string;
+  sessionName?: string; // Honcho session to upload to
   timestamp: string;
-  uploaded?: boolean;
+  metadata?: Record<string, any>;
   instanceId?: string; // Claude Code instance for parallel session support
+  state: QueuedMessageState;
+  attempts: number; // Failed upload attempts so far
+  nextAttemptAt?: number; // Backoff: not retried before this (ms epoch)
+  claimedAt?: number; // Set while an upload is in flight
+  uploadedAt?: number;
+  lastError?: string;
+  uploaded?: boolean; // Legacy flag from before per-message state
+}
+
+export interface DeadLetter extends QueuedMessage {
+  deadAt: string;
+}
+
+export interface QueueMessageOptions {
+  key?: string; // Idempotency key (default: random)
+  sessionName?: string;
+  metadata?: Record<string, any>;
+  timestamp?: string; // When it was said (default: now); uploaded as created_at
+}
+
+export interface MessageToQueue {
+  content: string;
+  peerId: string;
+  cwd: string;
+  instanceId?: string;
+  options?: QueueMessageOptions;
+}
+
+export interface ClaimOptions {
+  cwd?: string;
+  ids?: string[];
+  force?: boolean; // Ignore backoff
+  limit?: number;
+}
+
+// An in-flight upload older than this is assumed to have died with its process
+const MESSAGE_CLAIM_LEASE_MS = 60 * 1000;
+// Uploaded messages are kept this long so repeated keys are still deduplicated
+const UPLOADED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+function normalizeQueuedMessage(msg: QueuedMessage): QueuedMessage {
+  if (msg.id && msg.state) return msg;
+  // Queued before idempotency keys: derive a stable key from the message itself
+  const id = msg.id || createHash("sha256").update(`${msg.timestamp}\0${msg.cwd}\0${msg.content}`).digest("hex").slice(0, 32);
+  return { ...msg, id, state: msg.uploaded ? "uploaded" : "pending", attempts: msg.attempts || 0 };
+}
+
+function enqueueMessage(message: QueuedMessage, dedupe: boolean): QueuedMessage {
+  if (isSqliteBackend()) {
+    return dbTransaction(() => {
+      const existing = dedupe ? dbGetQueuedMessage<QueuedMessage>(message.id) : null;
+      if (existing) return normalizeQueuedMessage(existing);
+      dbQueueMessage(message);
+      return message;
+    });
+  }
+  ensureCacheDir();
+  if (!dedupe) {
+    appendJsonLine(MESSAGE_QUEUE_FILE, message);
+    return message;
+  }
+  return withFileLock(MESSAGE_QUEUE_FILE, () => {
+    const existing = readJsonLines<QueuedMessage>(MESSAGE_QUEUE_FILE).find((msg) => msg.id === message.id);
+    if (existing) return normalizeQueuedMessage(existing);
+    appendFileSync(MESSAGE_QUEUE_FILE, JSON.stringify(message) + "\n");
+    return message;
+  });
 }
 
-export function queueMessage(content: string, peerId: string, cwd: string, instanceId?: string): void {
+/**
+ * Apply update to each queued message in ids.
+ * update returns the new message, or null to remove it from the queue.
+ */
+function updateQueuedMessages(ids: string[], update: (msg: QueuedMessage) => QueuedMessage | null): number {
+  const wanted = new Set(ids);
+  let matched = 0;
+  if (isSqliteBackend()) {
+    dbTransaction(() => {
+      for (const id of wanted) {
+        const msg = dbGetQueuedMessage<QueuedMessage>(id);
+        if (!msg) continue;
+        matched++;
+        const next = update(normalizeQueuedMessage(msg));
+        if (next) dbUpdateQueuedMessage(next);
+        else dbDeleteQueuedMessage(id);
+      }
+    });
+    return matched;
+  }
   ensureCacheDir();
-  const message: QueuedMessage = {
-    content,
+  if (!existsSync(MESSAGE_QUEUE_FILE)) return 0;
+  updateJsonLines<QueuedMessage>(MESSAGE_QUEUE_FILE, (messages) =>
+    messages.map(normalizeQueuedMessage).flatMap((msg) => {
+      if (!wanted.has(msg.id)) return [msg];
+      matched++;
+      const next = update(msg);
+      return next ? [next] : [];
+    })
+  );
+  return matched;
+}
+
+function createQueuedMessage(
+  content: string,
+  peerId: string,
+  cwd: string,
+  instanceId: string | undefined,
+  options: QueueMessageOptions,
+  detectors: Detector[]
+): QueuedMessage {
+  // Secrets are stripped here, so they never reach the outbox file or Honcho.
+  // Callers key messages by the raw content, so keys stay stable across hooks.
+  const { text, redactions } = redact(content, detectors);
+  const metadataRedactions: Redaction[] = [];
+  const metadata = options.metadata ? redactMetadata(options.metadata, metadataRedactions, detectors) : undefined;
+  const found = [...redactions, ...metadataRedactions].map((r) => r.detector);
+  if (found.length > 0) {
+    logFlow("redact", `Redacted ${found.length} secret(s) before upload: ${[...new Set(found)].join(", ")}`);
+  }
+
+  return {
+    id: options.key || randomUUID(),
+    content: text,
     peerId,
     cwd,
-    timestamp: new Date().toISOString(),
-    uploaded: false,
-    instanceId: instanceId || getClaudeInstanceId() || undefined,
+    sessionName: options.sessionName,
+    timestamp: options.timestamp || new Date().toISOString(),
+    metadata,
+    instanceId: instanceId || getClaudeInstanceId(cwd) || undefined,
+    state: "pending",
+    attempts: 0,
   };
-  appendFileSync(MESSAGE_QUEUE_FILE, JSON.stringify(message) + "\n");
 }
 
-export function getQueuedMessages(forCwd?: string): QueuedMessage[] {
-  ensureCacheDir();
-  if (!existsSync(MESSAGE_QUEUE_FILE)) {
-    return [];
+/**
+ * Add a message to the outbox (instant, local). Returns the queued entry,
+ * or the existing one if options.key was already queued.
+ */
+export function queueMessage(
+  content: string,
+  peerId: string,
+  cwd: string,
+  instanceId?: string,
+  options: QueueMessageOptions = {}
+): QueuedMessage {
+  const message = createQueuedMessage(content, peerId, cwd, instanceId, options, getActiveDetectors());
+  // Random keys can't collide, so skip the duplicate check and just append
+  return enqueueMessage(message, !!options.key);
+}
+
+/**
+ * Queue many messages in one locked write (transcript imports).
+ * Returns each one's queued entry, the existing one for keys already queued.
+ */
+export function queueMessages(messages: MessageToQueue[]): QueuedMessage[] {
+  // Redaction settings are read once for the whole batch
+  const detectors = getActiveDetectors();
+  const created = messages.map((msg) =>
+    createQueuedMessage(msg.content, msg.peerId, msg.cwd, msg.instanceId, msg.options ?? {}, detectors)
+  );
+  if (isSqliteBackend()) {
+    return dbTransaction(() => created.map((message) => enqueueMessage(message, true)));
   }
-  try {
-    const content = readFileSync(MESSAGE_QUEUE_FILE, "utf-8");
-    const lines = content.split("\n").filter((line) => line.trim());
-    const messages = lines.map((line) => JSON.parse(line)).filter((msg) => !msg.uploaded);
-    // Filter by cwd if specified
-    if (forCwd) {
-      return messages.filter((msg) => msg.cwd === forCwd);
+  ensureCacheDir();
+  return withFileLock(MESSAGE_QUEUE_FILE, () => {
+    const queued = new Map(readJsonLines<QueuedMessage>(MESSAGE_QUEUE_FILE).map((msg) => [msg.id, msg]));
+    const added: QueuedMessage[] = [];
+    const result = created.map((message) => {
+      const existing = queued.get(message.id);
+      if (existing) return normalizeQueuedMessage(existing);
+      queued.set(message.id, message);
+      added.push(message);
+      return message;
+    });
+    if (added.length > 0) {
+      appendFileSync(MESSAGE_QUEUE_FILE, added.map((msg) => JSON.stringify(msg) + "\n").join(""));
     }
-    return messages;
-  } catch {
-    return [];
+    return result;
+  });
+}
+
+/**
+ * Messages not yet uploaded (pending, backing off, or in flight)
+ */
+export function getQueuedMessages(forCwd?: string): QueuedMessage[] {
+  if (isSqliteBackend()) {
+    return dbGetQueuedMessages<QueuedMessage>(forCwd).map(normalizeQueuedMessage);
+  }
+  ensureCacheDir();
+  const messages = readJsonLines<QueuedMessage>(MESSAGE_QUEUE_FILE)
+    .map(normalizeQueuedMessage)
+    .filter((msg) => msg.state !== "uploaded");
+  // Filter by cwd if specified
+  if (forCwd) {
+    return messages.filter((msg) => msg.cwd === forCwd);
   }
+  return messages;
 }
 
-export function clearMessageQueue(): void {
+function isClaimable(msg: QueuedMessage, now: number, options: ClaimOptions): boolean {
+  if (options.cwd && msg.cwd !== options.cwd) return false;
+  if (options.ids && !options.ids.includes(msg.id)) return false;
+  if (msg.state === "uploading") return now - (msg.claimedAt || 0) > MESSAGE_CLAIM_LEASE_MS;
+  if (msg.state !== "pending") return false;
+  return !!options.force || !msg.nextAttemptAt || msg.nextAttemptAt <= now;
+}
+
+/**
+ * Atomically mark due messages as uploading and return them.
+ * Concurrent hooks never claim the same message.
+ */
+export function claimQueuedMessages(options: ClaimOptions = {}): QueuedMessage[] {
+  const now = Date.now();
+  const claimed: QueuedMessage[] = [];
+  const claim = (msg: QueuedMessage): QueuedMessage => {
+    if (!isClaimable(msg, now, options)) return msg;
+    if (options.limit && claimed.length >= options.limit) return msg;
+    const next: QueuedMessage = { ...msg, state: "uploading", claimedAt: now };
+    claimed.push(next);
+    return next;
+  };
+
+  if (isSqliteBackend()) {
+    dbTransaction(() => {
+      dbPruneUploadedMessages(now - UPLOADED_RETENTION_MS);
+      for (const msg of dbGetQueuedMessages<QueuedMessage>(options.cwd).map(normalizeQueuedMessage)) {
+        const next = claim(msg);
+        if (next !== msg) dbUpdateQueuedMessage(next);
+      }
+    });
+    return claimed;
+  }
+
   ensureCacheDir();
-  writeFileSync(MESSAGE_QUEUE_FILE, "");
+  if (!existsSync(MESSAGE_QUEUE_FILE)) return [];
+  updateJsonLines<QueuedMessage>(MESSAGE_QUEUE_FILE, (messages) =>
+    messages
+      .map(normalizeQueuedMessage)
+      .filter((msg) => !(msg.state === "uploaded" && now - (msg.uploadedAt || 0) > UPLOADED_RETENTION_MS))
+      .map(claim)
+  );
+  return claimed;
 }
 
-export function markMessagesUploaded(forCwd?: string): void {
-  if (!forCwd) {
-    // Clear all
-    clearMessageQueue();
+export function markMessagesUploaded(ids: string[]): void {
+  const uploadedAt = Date.now();
+  updateQueuedMessages(ids, (msg) => ({
+    ...msg,
+    state: "uploaded",
+    uploadedAt,
+    claimedAt: undefined,
+    lastError: undefined,
+  }));
+}
+
+/**
+ * Record a failed upload. getRetryAt maps the new attempt count to the next
+ * retry time, or null to give up and move the message to the dead-letter file.
+ * Returns the number of messages dead-lettered.
+ */
+export function markMessagesFailed(ids: string[], error: string, getRetryAt: (attempts: number) => number | null): number {
+  let deadLettered = 0;
+  updateQueuedMessages(ids, (msg) => {
+    const attempts = msg.attempts + 1;
+    const retryAt = getRetryAt(attempts);
+    if (retryAt === null) {
+      const letter: DeadLetter = { ...msg, state: "pending", attempts, lastError: error, claimedAt: undefined, deadAt: new Date().toISOString() };
+      appendJsonLine(DEAD_LETTER_FILE, letter);
+      deadLettered++;
+      return null;
+    }
+    return { ...msg, state: "pending", attempts, lastError: error, nextAttemptAt: retryAt, claimedAt: undefined };
+  });
+  return deadLettered;
+}
+
+/**
+ * Remove messages from the queue without uploading them (all if no ids)
+ */
+export function dropQueuedMessages(ids?: string[]): number {
+  const targets = ids ?? getQueuedMessages().map((msg) => msg.id);
+  return updateQueuedMessages(targets, () => null);
+}
+
+export function clearMessageQueue(): void {
+  if (isSqliteBackend()) {
+    dbDeleteQueuedMessages();
     return;
   }
-  // Only remove messages for the specified cwd, keep others
   ensureCacheDir();
-  if (!existsSync(MESSAGE_QUEUE_FILE)) return;
-  try {
-    const content = readFileSync(MESSAGE_QUEUE_FILE, "utf-8");
-    const lines = content.split("\n").filter((line) => line.trim());
-    const remaining = lines.filter((line) => {
-      try {
-        const msg = JSON.parse(line);
-        return msg.cwd !== forCwd;
-      } catch {
-        return false;
-      }
-    });
-    writeFileSync(MESSAGE_QUEUE_FILE, remaining.join("\n") + (remaining.length ? "\n" : ""));
-  } catch {
-    // ignore
+  withFileLock(MESSAGE_QUEUE_FILE, () => writeJsonLinesAtomic(MESSAGE_QUEUE_FILE, []));
+}
+
+// ============================================
+// Dead Letters - messages that ran out of retries
+// Kept as a plain file with either storage backend
+// ============================================
+
+export function getDeadLetters(): DeadLetter[] {
+  return readJsonLines<DeadLetter>(DEAD_LETTER_FILE);
+}
+
+/**
+ * Move dead letters (all if no ids) back into the queue with a fresh retry budget
+ */
+export function retryDeadLetters(ids?: string[]): number {
+  const letters = getDeadLetters().filter((letter) => !ids || ids.includes(letter.id));
+  // Requeue before removing: a crash in between leaves a duplicate key, never a lost message
+  for (const { deadAt: _deadAt, ...msg } of letters) {
+    enqueueMessage({ ...msg, state: "pending", attempts: 0, nextAttemptAt: undefined }, true);
   }
+  dropDeadLetters(letters.map((letter) => letter.id));
+  return letters.length;
+}
+
+/**
+ * Permanently discard dead letters (all if no ids)
+ */
+export function dropDeadLetters(ids?: string[]): number {
+  if (!existsSync(DEAD_LETTER_FILE)) return 0;
+  let dropped = 0;
+  updateJsonLines<DeadLetter>(DEAD_LETTER_FILE, (letters) => {
+    const kept = ids ? letters.filter((letter) => !ids.includes(letter.id)) : [];
+    dropped = letters.length - kept.length;
+    return kept;
+  });
+  return dropped;
 }
 
 // ============================================
@@ -296,11 +866,15 @@ export function loadClawdLocalContext(): string {
 
 export function saveClawdLocalContext(content: string): void {
   ensureCacheDir();
-  writeFileSync(CLAWD_CONTEXT_FILE, content);
+  withFileLock(CLAWD_CONTEXT_FILE, () => writeFileAtomic(CLAWD_CONTEXT_FILE, content));
 }
 
 export function appendClawdWork(workDescription: string): void {
   ensureCacheDir();
+  withFileLock(CLAWD_CONTEXT_FILE, () => appendClawdWorkLocked(workDescription));
+}
+
+function appendClawdWorkLocked(workDescription: string): void {
   const timestamp = new Date().toISOString();
   const entry = `\n- [${timestamp}] ${workDescription}`;
 
@@ -320,7 +894,7 @@ export function appendClawdWork(workDescription: string): void {
     existing = [...header, ...recentActivities].join("\n");
   }
 
-  saveClawdLocalContext(existing + entry);
+  writeFileAtomic(CLAWD_CONTEXT_FILE, existing + entry);
 }
 
 export function generateClawdSummary(
@@ -387,31 +961,42 @@ interface GitStateCache {
 }
 
 export function loadGitStateCache(): GitStateCache {
-  ensureCacheDir();
-  if (!existsSync(GIT_STATE_FILE)) {
-    return {};
-  }
-  try {
-    return JSON.parse(readFileSync(GIT_STATE_FILE, "utf-8"));
-  } catch {
-    return {};
+  if (isSqliteBackend()) {
+    return dbListGitSnapshots<GitState>();
   }
+  ensureCacheDir();
+  return readJsonFile<GitStateCache>(GIT_STATE_FILE, {});
 }
 
 export function saveGitStateCache(cache: GitStateCache): void {
+  if (isSqliteBackend()) {
+    dbTransaction(() => {
+      dbClearGitSnapshots();
+      for (const [cwd, state] of Object.entries(cache)) dbSetGitSnapshot(cwd, state);
+    });
+    return;
+  }
   ensureCacheDir();
-  writeFileSync(GIT_STATE_FILE, JSON.stringify(cache, null, 2));
+  withFileLock(GIT_STATE_FILE, () => writeJsonFileAtomic(GIT_STATE_FILE, cache));
 }
 
 export function getCachedGitState(cwd: string): GitState | null {
+  if (isSqliteBackend()) {
+    return dbGetGitSnapshot<GitState>(cwd);
+  }
   const cache = loadGitStateCache();
   return cache[cwd] || null;
 }
 
 export function setCachedGitState(cwd: string, state: GitState): void {
-  const cache = loadGitStateCache();
-  cache[cwd] = state;
-  saveGitStateCache(cache);
+  if (isSqliteBackend()) {
+    dbSetGitSnapshot(cwd, state);
+    return;
+  }
+  ensureCacheDir();
+  updateJsonFile<GitStateCache>(GIT_STATE_FILE, {}, (cache) => {
+    cache[cwd] = state;
+  });
 }
 
 export interface GitFeatureContext {
@@ -471,15 +1056,245 @@ export function detectGitChanges(previous: GitState | null, current: GitState):
   return changes;
 }
 
+// ============================================
+// Exploration & File Heat - what Claude read, searched and edited
+// A turn's tallies are kept per Claude instance until the stop hook takes
+// them; file heat accumulates per directory (exploration.ts does the math)
+// ============================================
+
+const EXPLORATION_FILE = join(CACHE_DIR, "exploration.json");
+const FILE_HEAT_FILE = join(CACHE_DIR, "file-heat.json");
+// A turn the stop hook never saw (killed session) is dropped after a day
+const EXPLORATION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MAX_HEAT_PROJECTS = 50;
+
+export interface TurnExploration {
+  cwd: string;
+  reads: Record<string, number>; // File -> times read
+  searches: Record<string, number>; // "Grep: pattern" / "Glob: pattern" -> times run
+  edits: Record<string, number>; // File -> times written (for heat; edits upload as [Tool] messages)
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface FileHeat {
+  score: number; // Decayed weight as of updatedAt
+  reads: number;
+  edits: number;
+  updatedAt: string;
+}
+
+interface ProjectHeat {
+  files: Record<string, FileHeat>; // Path relative to the project (absolute outside it)
+  updatedAt: string;
+}
+
+/**
+ * Change the current turn's tallies for a Claude instance (or cwd).
+ * update gets null when nothing has been recorded yet.
+ */
+export function updateTurnExploration(key: string, update: (turn: TurnExploration | null) => TurnExploration): void {
+  if (isSqliteBackend()) {
+    dbTransaction(() => {
+      dbSetIdMapping("exploration", key, update(dbGetIdMapping<TurnExploration>("exploration", key)));
+      dbPruneIdMappings("exploration", MAX_TRACKED_INSTANCES);
+    });
+    return;
+  }
+  ensureCacheDir();
+  updateJsonFile<Record<string, TurnExploration>>(EXPLORATION_FILE, {}, (turns) => {
+    turns[key] = update(turns[key] ?? null);
+    const cutoff = new Date(Date.now() - EXPLORATION_MAX_AGE_MS).toISOString();
+    for (const [other, turn] of Object.entries(turns)) {
+      if (turn.updatedAt < cutoff) delete turns[other];
+    }
+  });
+}
+
+/**
+ * Remove and return the turn's tallies (stop hook), or null if there are none
+ */
+export function takeTurnExploration(key: string): TurnExploration | null {
+  if (isSqliteBackend()) {
+    return dbTransaction(() => {
+      const turn = dbGetIdMapping<TurnExploration>("exploration", key);
+      if (turn) dbDeleteIdMapping("exploration", key);
+      return turn;
+    });
+  }
+  ensureCacheDir();
+  if (!readJsonFile<Record<string, TurnExploration>>(EXPLORATION_FILE, {})[key]) return null;
+  let taken: TurnExploration | null = null;
+  updateJsonFile<Record<string, TurnExploration>>(EXPLORATION_FILE, {}, (turns) => {
+    taken = turns[key] ?? null;
+    delete turns[key];
+  });
+  return taken;
+}
+
+export function getFileHeat(cwd: string): Record<string, FileHeat> {
+  if (isSqliteBackend()) {
+    return dbGetIdMapping<ProjectHeat>("file_heat", cwd)?.files ?? {};
+  }
+  ensureCacheDir();
+  return readJsonFile<Record<string, ProjectHeat>>(FILE_HEAT_FILE, {})[cwd]?.files ?? {};
+}
+
+/**
+ * Replace a directory's file heat with update(current). Only the most
+ * recently active MAX_HEAT_PROJECTS directories are kept.
+ */
+export function updateFileHeat(cwd: string, update: (files: Record<string, FileHeat>) => Record<string, FileHeat>): void {
+  const updatedAt = new Date().toISOString();
+  if (isSqliteBackend()) {
+    dbTransaction(() => {
+      const files = update(dbGetIdMapping<ProjectHeat>("file_heat", cwd)?.files ?? {});
+      dbSetIdMapping("file_heat", cwd, { files, updatedAt });
+      dbPruneIdMappings("file_heat", MAX_HEAT_PROJECTS);
+    });
+    return;
+  }
+  ensureCacheDir();
+  updateJsonFile<Record<string, ProjectHeat>>(FILE_HEAT_FILE, {}, (projects) => {
+    projects[cwd] = { files: update(projects[cwd]?.files ?? {}), updatedAt };
+    const entries = Object.entries(projects);
+    if (entries.length <= MAX_HEAT_PROJECTS) return;
+    entries.sort(([, a], [, b]) => b.updatedAt.localeCompare(a.updatedAt));
+    return Object.fromEntries(entries.slice(0, MAX_HEAT_PROJECTS));
+  });
+}
+
+// ============================================
+// Todo Lists - Claude's latest TodoWrite plan per Claude instance
+// Kept after the session ends so the next one can pick up unfinished items
+// ============================================
+
+const TODOS_FILE = join(CACHE_DIR, "todos.json");
+// An older plan is too stale to resume from
+const TODOS_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type TodoStatus = "pending" | "in_progress" | "completed";
+
+export interface TodoItem {
+  content: string;
+  status: TodoStatus;
+  activeForm?: string; // "Running tests" for "Run tests"
+}
+
+export interface SessionTodos {
+  cwd: string;
+  sessionName: string;
+  instanceId?: string;
+  todos: TodoItem[];
+  updatedAt: string;
+}
+
+/**
+ * Store a Claude instance's (or cwd's) todo list and return the one it replaces
+ */
+export function swapSessionTodos(key: string, list: SessionTodos): SessionTodos | null {
+  if (isSqliteBackend()) {
+    return dbTransaction(() => {
+      const previous = dbGetIdMapping<SessionTodos>("todos", key);
+      dbSetIdMapping("todos", key, list);
+      dbPruneIdMappings("todos", MAX_TRACKED_INSTANCES);
+      return previous;
+    });
+  }
+  ensureCacheDir();
+  let previous: SessionTodos | null = null;
+  updateJsonFile<Record<string, SessionTodos>>(TODOS_FILE, {}, (lists) => {
+    previous = lists[key] ?? null;
+    lists[key] = list;
+    const entries = Object.entries(lists);
+    if (entries.length <= MAX_TRACKED_INSTANCES) return;
+    entries.sort(([, a], [, b]) => b.updatedAt.localeCompare(a.updatedAt));
+    return Object.fromEntries(entries.slice(0, MAX_TRACKED_INSTANCES));
+  });
+  return previous;
+}
+
+/**
+ * The most recently written todo list for a directory, from any Claude instance,
+ * or null if there's none from the past week
+ */
+export function getLatestTodos(cwd: string): SessionTodos | null {
+  let lists: Record<string, SessionTodos>;
+  if (isSqliteBackend()) {
+    lists = dbListIdMappings<SessionTodos>("todos");
+  } else {
+    ensureCacheDir();
+    lists = readJsonFile<Record<string, SessionTodos>>(TODOS_FILE, {});
+  }
+  const cutoff = new Date(Date.now() - TODOS_MAX_AGE_MS).toISOString();
+  const forCwd = Object.values(lists).filter((list) => list.cwd === cwd && list.updatedAt >= cutoff);
+  return forCwd.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] ?? null;
+}
+
+// ============================================
+// Transcript Cursors - how far each transcript has been ingested
+// ============================================
+
+const TRANSCRIPT_CURSOR_FILE = join(CACHE_DIR, "transcript-cursors.json");
+// A cursor is kept while its transcript exists (dropping it would re-upload the
+// transcript). Past this many, those for transcripts Claude Code has deleted go.
+const MAX_TRANSCRIPT_CURSORS = 200;
+
+export interface TranscriptCursor {
+  offset: number; // Bytes read so far, always at a line boundary
+  uuid?: string; // Last entry read, to find the place again if the file is rewritten
+  imported?: boolean; // Set by `honcho-clawd import transcripts`, never by the hooks
+  updatedAt: string;
+}
+
+export function getTranscriptCursor(transcriptPath: string): TranscriptCursor | null {
+  if (isSqliteBackend()) {
+    return dbGetIdMapping<TranscriptCursor>("transcript_cursor", transcriptPath);
+  }
+  ensureCacheDir();
+  return readJsonFile<Record<string, TranscriptCursor>>(TRANSCRIPT_CURSOR_FILE, {})[transcriptPath] ?? null;
+}
+
+export function setTranscriptCursor(transcriptPath: string, cursor: TranscriptCursor): void {
+  if (isSqliteBackend()) {
+    dbTransaction(() => {
+      dbSetIdMapping("transcript_cursor", transcriptPath, cursor);
+      const paths = Object.keys(dbListIdMappings<TranscriptCursor>("transcript_cursor"));
+      if (paths.length <= MAX_TRANSCRIPT_CURSORS) return;
+      for (const path of paths.filter((p) => !existsSync(p))) dbDeleteIdMapping("transcript_cursor", path);
+    });
+    return;
+  }
+  ensureCacheDir();
+  updateJsonFile<Record<string, TranscriptCursor>>(TRANSCRIPT_CURSOR_FILE, {}, (cursors) => {
+    cursors[transcriptPath] = cursor;
+    if (Object.keys(cursors).length <= MAX_TRANSCRIPT_CURSORS) return;
+    return Object.fromEntries(Object.entries(cursors).filter(([path]) => existsSync(path)));
+  });
+}
+
 // ============================================
 // Utility: Clear all caches (for debugging)
 // ============================================
 
 export function clearAllCaches(): void {
+  if (isSqliteBackend()) {
+    dbTransaction(() => {
+      dbClearIdMappings(ID_CACHE_KINDS);
+      dbClearContextSnapshots();
+      dbClearGitSnapshots();
+      dbDeleteQueuedMessages();
+    });
+    return;
+  }
   ensureCacheDir();
-  if (existsSync(ID_CACHE_FILE)) writeFileSync(ID_CACHE_FILE, "{}");
-  if (existsSync(CONTEXT_CACHE_FILE)) writeFileSync(CONTEXT_CACHE_FILE, "{}");
-  if (existsSync(MESSAGE_QUEUE_FILE)) writeFileSync(MESSAGE_QUEUE_FILE, "");
-  if (existsSync(GIT_STATE_FILE)) writeFileSync(GIT_STATE_FILE, "{}");
-  // Don't clear clawd-context.md - that's valuable history
+  for (const file of [ID_CACHE_FILE, CONTEXT_CACHE_FILE, GIT_STATE_FILE]) {
+    if (existsSync(file)) withFileLock(file, () => writeJsonFileAtomic(file, {}));
+  }
+  if (existsSync(MESSAGE_QUEUE_FILE)) clearMessageQueue();
+  // Don't clear clawd-context.md (valuable history) or transcript cursors (would re-upload transcripts)
+}
+
+export function getCacheDir(): string {
+  return CACHE_DIR;
 }
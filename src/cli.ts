@@ -7,14 +7,32 @@ import {
   loadConfig,
   saveConfig,
   getSessionForPath,
+  getSessionName,
   setSessionForPath,
   getAllSessions,
   removeSessionForPath,
   getEndpointInfo,
   setEndpoint,
   getHonchoClientOptions,
+  getStorageConfig,
+  getRedactionConfig,
+  updateConfig,
+  describeConfig,
+  findProjectConfig,
+  getConfigProblem,
+  checkUserConfig,
+  checkProjectConfig,
+  checkEnvConfig,
+  setConfigValue,
+  unsetConfigValue,
+  getActiveProfile,
+  migrateSecrets,
+  type ConfigCheck,
+  type ConfigValue,
+  PROJECT_CONFIG_FILE,
   type HonchoCLAWDConfig,
-  type HonchoEnvironment,
+  type HonchoEndpointConfig,
+  type ProfileConfig,
 } from "./config.js";
 import Honcho from "@honcho-ai/core";
 import { installHooks, uninstallHooks, checkHooksInstalled, verifyCommandAvailable, checkLegacyBinaries } from "./install.js";
@@ -25,10 +43,54 @@ import { handleUserPrompt } from "./hooks/user-prompt.js";
 import { handlePreCompact } from "./hooks/pre-compact.js";
 import { handleStop } from "./hooks/stop.js";
 import * as s from "./styles.js";
+import { CONFIG_VERSION, coerceValue, formatIssue, isSecretSetting, resolveSetting, validateConfig } from "./schema.js";
 import { previewAll as previewPixel } from "./pixel.js";
 import { handleHandoff } from "./skills/handoff.js";
 import { getRecentLogs, watchLogs, formatLogEntry, clearLogs, getLogPath, printLegend, LogFilter } from "./log.js";
-import { loadIdCache, clearAllCaches, getClaudeInstanceId, loadContextCache } from "./cache.js";
+import {
+  loadIdCache,
+  clearAllCaches,
+  getClaudeInstanceId,
+  loadContextCache,
+  getCacheDir,
+  getQueuedMessages,
+  dropQueuedMessages,
+  getDeadLetters,
+  retryDeadLetters,
+  dropDeadLetters,
+  type QueuedMessage,
+} from "./cache.js";
+import { flushOutbox } from "./outbox.js";
+import { getQuarantinedFiles } from "./storage.js";
+import { getDbPath, dbGetStats, migrateJsonFiles } from "./db.js";
+import { isCircuitOpen, getHealthState } from "./health.js";
+import { runDaemon, sendDaemonRequest, getDaemonPid, getDaemonSocketPath } from "./daemon.js";
+import {
+  TEMPLATE_NAMES,
+  TEMPLATE_VARIABLES,
+  getTemplatesDir,
+  hasTemplateOverride,
+  loadTemplate,
+  writeDefaultTemplates,
+  type TemplateName,
+} from "./templates.js";
+import { BUILTIN_DETECTORS, getDetectors, redact, maskMatch } from "./redact.js";
+import { getIgnoreRules } from "./ignore.js";
+import { getPendingImports, getTranscriptsDir, planImport, queueTranscript, uploadImports, type TranscriptImport } from "./import.js";
+import {
+  checkSecrets,
+  extractSecrets,
+  getSecretPaths,
+  getSecretRefs,
+  getSecretsPath,
+  isSecretRef,
+  loadSecretsFile,
+  rotateSecrets,
+  storeSecrets,
+  PASSPHRASE_ENV,
+  SECRET_REF_PREFIX,
+  type KeySource,
+} from "./secrets.js";
 // import { handleCerebras } from "./skills/cerebras.js";  // Disabled for now
 
 const VERSION = "0.1.0";
@@ -48,7 +110,103 @@ function prompt(question: string): Promise<string> {
   });
 }
 
-async function init(): Promise<void> {
+interface InitOptions {
+  peerName?: string;
+  workspace?: string;
+  claudePeer?: string;
+  apiKey?: string; // Read from the variable named by --api-key-env
+  endpoint?: HonchoEndpointConfig;
+  saveMessages?: boolean;
+  install?: boolean;
+  yes: boolean; // Never prompt: use flags, the --from template and defaults
+  template: Partial<HonchoCLAWDConfig>; // Team template from --from
+}
+
+// Settings a team template can't carry: machine-specific or managed by honcho-clawd
+const INIT_TEMPLATE_SKIP = ["sessions", "configVersion"];
+
+function flagValue(args: string[], name: string): string | undefined {
+  const inline = args.find((arg) => arg.startsWith(`${name}=`));
+  if (inline) return inline.slice(name.length + 1);
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith("--")) throw new Error(`${name} needs a value`);
+  return value;
+}
+
+/**
+ * A key safe to print: only its last 4 characters, and none of a short one
+ */
+function maskSecret(value: string): string {
+  if (value.startsWith("****")) return value; // Already masked
+  return value.length > 12 ? `****${value.slice(-4)}` : "****";
+}
+
+function parseEndpoint(value: string): HonchoEndpointConfig {
+  if (value === "local") return { environment: "local" };
+  if (value === "production" || value === "saas") return { environment: "production" };
+  if (/^https?:\/\//.test(value)) return { baseUrl: value };
+  throw new Error(`--endpoint must be local, saas or a URL, got "${value}"`);
+}
+
+/**
+ * Read and check a team template (a config.json without the personal bits)
+ */
+async function loadInitTemplate(path: string): Promise<Partial<HonchoCLAWDConfig>> {
+  if (/^[a-z]+:\/\//i.test(path)) throw new Error("--from takes a file path, not a URL");
+  const file = Bun.file(path);
+  if (!(await file.exists())) throw new Error(`Template not found: ${path}`);
+  let template: Record<string, any>;
+  try {
+    template = JSON.parse(await file.text());
+  } catch (error) {
+    throw new Error(`Template ${path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  // peerName/apiKey/workspace may come from flags or prompts, so only other errors count
+  const problems = validateConfig(template).filter((issue) => issue.severity === "error" && issue.message !== "is required");
+  if (problems.length > 0) {
+    throw new Error(`Template ${path} is invalid: ${problems.map(formatIssue).join("; ")}`);
+  }
+  for (const key of INIT_TEMPLATE_SKIP) delete template[key];
+  return template as Partial<HonchoCLAWDConfig>;
+}
+
+async function parseInitArgs(args: string[]): Promise<InitOptions> {
+  const options: InitOptions = {
+    peerName: flagValue(args, "--peer"),
+    workspace: flagValue(args, "--workspace"),
+    claudePeer: flagValue(args, "--claude-peer"),
+    yes: args.includes("--yes") || args.includes("-y"),
+    template: {},
+  };
+
+  const apiKeyEnv = flagValue(args, "--api-key-env");
+  if (apiKeyEnv) {
+    // Taken from the environment so the key never shows up in shell history or ps
+    options.apiKey = process.env[apiKeyEnv];
+    if (!options.apiKey) throw new Error(`--api-key-env: $${apiKeyEnv} is not set`);
+  }
+  const endpoint = flagValue(args, "--endpoint");
+  if (endpoint) options.endpoint = parseEndpoint(endpoint);
+  if (args.includes("--no-save-messages")) options.saveMessages = false;
+  if (args.includes("--no-install")) options.install = false;
+
+  const from = flagValue(args, "--from");
+  if (from) options.template = await loadInitTemplate(from);
+  return options;
+}
+
+async function init(args: string[]): Promise<void> {
+  let options: InitOptions;
+  try {
+    options = await parseInitArgs(args);
+  } catch (error) {
+    console.error(s.error(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+  const { template, yes } = options;
+
   console.log("");
   console.log(s.header("honcho-clawd setup"));
   console.log("");
@@ -56,7 +214,7 @@ async function init(): Promise<void> {
   console.log("");
 
   // Check for existing config
-  if (configExists()) {
+  if (configExists() && !yes) {
     const existing = loadConfig();
     console.log(`Existing configuration found for: ${existing?.peerName}`);
     const overwrite = await prompt("Overwrite? (y/N): ");
@@ -66,84 +224,98 @@ async function init(): Promise<void> {
     }
   }
 
-  // Step 1: API Key (needed to connect and discover existing resources)
-  console.log(s.section("Step 1: Honcho API Key"));
-  console.log(s.dim("Get your API key from https://app.honcho.dev"));
-  console.log(s.dim(`Type ${s.highlight("local")} to use a local Honcho instance (http://localhost:8000)`));
-  const apiKeyInput = await prompt("Enter your Honcho API key: ");
-  if (!apiKeyInput) {
-    console.error("Error: API key is required.");
-    process.exit(1);
+  // Everything --yes can't default must be known before connecting
+  if (yes) {
+    const missing: string[] = [];
+    if (!(options.apiKey ?? template.apiKey ?? process.env.HONCHO_CLAWD_API_KEY)) missing.push("--api-key-env <VAR>");
+    if (!(options.peerName ?? template.peerName)) missing.push("--peer <name>");
+    if (missing.length > 0) {
+      console.error(s.error(`--yes needs ${missing.join(" and ")}`));
+      process.exit(1);
+    }
   }
 
-  // Check if user wants local mode
-  const isLocal = apiKeyInput.toLowerCase() === "local";
-  let apiKey: string;
-  let endpointEnv: HonchoEnvironment = "production";
+  // Step 1: API Key (needed to connect and discover existing resources)
+  console.log(s.section("Step 1: Honcho API Key"));
+  let apiKey = options.apiKey ?? template.apiKey ?? process.env.HONCHO_CLAWD_API_KEY;
+  let endpoint: HonchoEndpointConfig = options.endpoint ?? template.endpoint ?? { environment: "production" };
 
-  if (isLocal) {
-    console.log(s.success("Local mode enabled"));
-    apiKey = await prompt("Enter local API key (or press enter for 'local'): ") || "local";
-    endpointEnv = "local";
+  if (apiKey) {
+    console.log(s.dim(`Using API key ${maskSecret(apiKey)}`));
   } else {
-    apiKey = apiKeyInput;
+    console.log(s.dim("Get your API key from https://app.honcho.dev"));
+    console.log(s.dim(`Type ${s.highlight("local")} to use a local Honcho instance (http://localhost:8000)`));
+    const apiKeyInput = await prompt("Enter your Honcho API key: ");
+    if (!apiKeyInput) {
+      console.error("Error: API key is required.");
+      process.exit(1);
+    }
+
+    // Check if user wants local mode
+    if (apiKeyInput.toLowerCase() === "local") {
+      console.log(s.success("Local mode enabled"));
+      apiKey = await prompt("Enter local API key (or press enter for 'local'): ") || "local";
+      endpoint = { environment: "local" };
+    } else {
+      apiKey = apiKeyInput;
+    }
   }
 
-  // Validate API key by connecting
-  const client = new Honcho({
-    apiKey,
-    environment: endpointEnv,
-  });
+  // Validate API key by connecting, with the key being saved (not HONCHO_CLAWD_API_KEY)
+  const client = new Honcho({ ...getHonchoClientOptions({ apiKey, endpoint } as HonchoCLAWDConfig), apiKey });
+  const endpointInfo = getEndpointInfo({ endpoint } as HonchoCLAWDConfig);
 
-  console.log(`Connecting to Honcho ${isLocal ? "(local)" : "(SaaS)"}...`);
+  console.log(`Connecting to Honcho (${endpointInfo.type === "production" ? "SaaS" : endpointInfo.url})...`);
 
   // Step 2: Workspace - Try to discover existing honcho-clawd workspaces first
   console.log("");
   console.log(s.section("Step 2: Workspace"));
   console.log(s.dim("Workspaces group your sessions and peers together."));
 
+  let workspace = options.workspace ?? template.workspace ?? (yes ? "claude_code" : "");
   let existingWorkspaces: Array<{ id: string; name: string; sessions: number }> = [];
-  try {
-    // Try to list workspaces (may not be available in all API versions)
-    const workspaces = await (client as any).workspaces.list();
-    if (workspaces && Array.isArray(workspaces)) {
-      // Filter to only show honcho-clawd tagged workspaces
-      for (const ws of workspaces) {
-        const metadata = (ws as any).metadata || {};
-        if (metadata.app === WORKSPACE_APP_TAG) {
-          let sessionCount = 0;
-          try {
-            const sessions = await client.workspaces.sessions.list(ws.id);
-            sessionCount = Array.isArray(sessions) ? sessions.length : 0;
-          } catch { /* ignore */ }
-          existingWorkspaces.push({ id: ws.id, name: ws.id, sessions: sessionCount });
+  if (!workspace) {
+    try {
+      // Try to list workspaces (may not be available in all API versions)
+      const workspaces = await (client as any).workspaces.list();
+      if (workspaces && Array.isArray(workspaces)) {
+        // Filter to only show honcho-clawd tagged workspaces
+        for (const ws of workspaces) {
+          const metadata = (ws as any).metadata || {};
+          if (metadata.app === WORKSPACE_APP_TAG) {
+            let sessionCount = 0;
+            try {
+              const sessions = await client.workspaces.sessions.list(ws.id);
+              sessionCount = Array.isArray(sessions) ? sessions.length : 0;
+            } catch { /* ignore */ }
+            existingWorkspaces.push({ id: ws.id, name: ws.id, sessions: sessionCount });
+          }
         }
       }
+    } catch {
+      // workspaces.list may not be available, continue to manual entry
     }
-  } catch {
-    // workspaces.list may not be available, continue to manual entry
-  }
 
-  let workspace: string;
-  if (existingWorkspaces.length > 0) {
-    console.log(`\nExisting honcho-clawd workspaces found:`);
-    existingWorkspaces.forEach((ws, i) => console.log(`  ${i + 1}. ${ws.name} (${ws.sessions} session${ws.sessions === 1 ? '' : 's'})`));
-    console.log(`  ${existingWorkspaces.length + 1}. Create new workspace`);
+    if (existingWorkspaces.length > 0) {
+      console.log(`\nExisting honcho-clawd workspaces found:`);
+      existingWorkspaces.forEach((ws, i) => console.log(`  ${i + 1}. ${ws.name} (${ws.sessions} session${ws.sessions === 1 ? '' : 's'})`));
+      console.log(`  ${existingWorkspaces.length + 1}. Create new workspace`);
 
-    const wsChoice = await prompt(`\nSelect workspace (1-${existingWorkspaces.length + 1}) or enter name: `);
-    const choiceNum = parseInt(wsChoice);
+      const wsChoice = await prompt(`\nSelect workspace (1-${existingWorkspaces.length + 1}) or enter name: `);
+      const choiceNum = parseInt(wsChoice);
 
-    if (choiceNum > 0 && choiceNum <= existingWorkspaces.length) {
-      workspace = existingWorkspaces[choiceNum - 1].name;
-      console.log(s.success(`Using existing workspace: ${s.highlight(workspace)}`));
-    } else if (choiceNum === existingWorkspaces.length + 1 || !wsChoice) {
-      workspace = await prompt("Enter new workspace name (default: claude_code): ") || "claude_code";
+      if (choiceNum > 0 && choiceNum <= existingWorkspaces.length) {
+        workspace = existingWorkspaces[choiceNum - 1].name;
+        console.log(s.success(`Using existing workspace: ${s.highlight(workspace)}`));
+      } else if (choiceNum === existingWorkspaces.length + 1 || !wsChoice) {
+        workspace = await prompt("Enter new workspace name (default: claude_code): ") || "claude_code";
+      } else {
+        // They typed a name directly
+        workspace = wsChoice;
+      }
     } else {
-      // They typed a name directly
-      workspace = wsChoice;
+      workspace = await prompt("Enter workspace name (default: claude_code): ") || "claude_code";
     }
-  } else {
-    workspace = await prompt("Enter workspace name (default: claude_code): ") || "claude_code";
   }
 
   let workspaceId: string;
@@ -181,7 +353,7 @@ async function init(): Promise<void> {
       console.log(s.success(`Connected to workspace ${s.highlight(workspace)}`));
     }
   } catch (error) {
-    console.error(`Error: Could not connect to Honcho. Check your API key.`);
+    console.error(`Error: Could not connect to Honcho. Check your API key and endpoint.`);
     console.error(`Details: ${error}`);
     process.exit(1);
   }
@@ -192,9 +364,9 @@ async function init(): Promise<void> {
   console.log(s.dim("Your peer name is how Honcho identifies you across sessions."));
 
   let existingPeers: string[] = [];
-  let peerName: string = "";
+  let peerName: string = options.peerName ?? template.peerName ?? "";
 
-  if (isExistingWorkspace) {
+  if (!peerName && isExistingWorkspace) {
     try {
       // Try to list peers from the workspace
       const peers = await (client.workspaces as any).peers.list(workspaceId);
@@ -248,7 +420,8 @@ async function init(): Promise<void> {
   // Step 4: Claude's peer name
   console.log("");
   console.log(s.section("Step 4: Claude Configuration"));
-  const claudePeer = await prompt("Enter Claude's peer name (default: clawd): ") || "clawd";
+  const claudePeer =
+    options.claudePeer ?? template.claudePeer ?? ((yes ? "" : await prompt("Enter Claude's peer name (default: clawd): ")) || "clawd");
 
   // Create Claude's peer
   try {
@@ -261,29 +434,31 @@ async function init(): Promise<void> {
   console.log("");
   console.log(s.section("Step 5: Message Saving"));
   console.log(s.dim("Save conversation messages to Honcho for memory/context building."));
-  const saveMessagesInput = await prompt("Enable message saving? (Y/n): ");
-  const saveMessages = saveMessagesInput.toLowerCase() !== "n";
+  const saveMessages =
+    options.saveMessages ?? template.saveMessages ?? (yes || (await prompt("Enable message saving? (Y/n): ")).toLowerCase() !== "n");
 
-  // Save config
+  // Save config (team template settings first, then what was chosen here)
   const config: HonchoCLAWDConfig = {
+    ...template,
     peerName,
     apiKey,
     workspace,
     claudePeer,
     saveMessages,
-    endpoint: {
-      environment: endpointEnv,
-    },
+    endpoint,
   };
 
   saveConfig(config);
   console.log(`\nConfiguration saved to: ${getConfigPath()}`);
+  if (isSecretRef(checkUserConfig().config?.apiKey)) {
+    console.log(s.dim(`API key stored encrypted in: ${getSecretsPath()}`));
+  }
 
   // Offer to install hooks
   console.log("");
   console.log(s.section("Install Hooks"));
-  const installNow = await prompt("Install Claude Code hooks now? (Y/n): ");
-  if (installNow.toLowerCase() !== "n") {
+  const installNow = options.install ?? (yes || (await prompt("Install Claude Code hooks now? (Y/n): ")).toLowerCase() !== "n");
+  if (installNow) {
     const result = installHooks();
     if (result.success) {
       console.log(s.success(result.message));
@@ -302,6 +477,12 @@ async function init(): Promise<void> {
   console.log("");
 }
 
+function formatConfigValue(key: string, value: unknown): string {
+  if (isSecretSetting(key) && typeof value === "string" && !isSecretRef(value)) return s.dim(maskSecret(value));
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? text.slice(0, 57) + "..." : text;
+}
+
 function status(): void {
   console.log("");
   console.log(s.header("honcho-clawd status"));
@@ -309,19 +490,47 @@ function status(): void {
 
   const config = loadConfig();
   if (!config) {
+    if (configExists()) {
+      console.log(s.error(getConfigProblem()));
+      return;
+    }
     console.log(s.warn("Not configured"));
     console.log(s.dim("Run: honcho-clawd init"));
     return;
   }
 
   console.log(s.section("Configuration"));
-  console.log(s.dim(getConfigPath()));
+  console.log(s.dim(configExists() ? getConfigPath() : "No config.json - configured from HONCHO_CLAWD_* variables"));
   console.log("");
   console.log(`  ${s.label("Peer name")}:     ${config.peerName}`);
   console.log(`  ${s.label("Claude peer")}:   ${config.claudePeer}`);
   console.log(`  ${s.label("Workspace")}:     ${config.workspace}`);
+  const activeProfile = getActiveProfile(process.cwd());
+  if (activeProfile) {
+    console.log(`  ${s.label("Profile")}:       ${s.highlight(activeProfile)}`);
+  }
   console.log(`  ${s.label("Save messages")}: ${config.saveMessages !== false ? "enabled" : "disabled"}`);
-  console.log(`  ${s.label("API key")}:       ${s.dim(config.apiKey.slice(0, 20) + "...")}`);
+  const apiKey = isSecretRef(config.apiKey) ? "encrypted (honcho-clawd secrets)" : maskSecret(config.apiKey);
+  console.log(`  ${s.label("API key")}:       ${s.dim(apiKey)}`);
+
+  const { issues } = checkUserConfig();
+  if (issues.length > 0) {
+    console.log(`  ${s.label("Config issues")}: ${s.warn(String(issues.length))} ${s.dim("(run: honcho-clawd config validate)")}`);
+  }
+
+  const ignoreRules = getIgnoreRules(process.cwd());
+  if (ignoreRules.source) {
+    const mode = ignoreRules.mode === "upload" ? s.success("upload") : s.warn(ignoreRules.mode);
+    console.log(`  ${s.label("This project")}:  ${mode} ${s.dim(`(${ignoreRules.source}, ${ignoreRules.patterns.length} file patterns)`)}`);
+  }
+
+  // Where each effective value comes from (env > project > user > default)
+  const projectConfigPath = findProjectConfig(process.cwd());
+  console.log("");
+  console.log(s.section("Effective Config"));
+  console.log(s.dim(projectConfigPath ? `Project: ${projectConfigPath}` : `No ${PROJECT_CONFIG_FILE} for this directory`));
+  console.log("");
+  printConfigEntries(describeConfig(process.cwd()));
 
   const hooksInstalled = checkHooksInstalled();
   console.log("");
@@ -363,7 +572,7 @@ function status(): void {
 function install(): void {
   const config = loadConfig();
   if (!config) {
-    console.log(s.error("Not configured. Run: honcho-clawd init"));
+    console.log(s.error(getConfigProblem()));
     process.exit(1);
   }
 
@@ -467,7 +676,7 @@ async function handleHook(hookName: string): Promise<void> {
 async function sessionNew(name?: string): Promise<void> {
   const config = loadConfig();
   if (!config) {
-    console.error("Not configured. Run: honcho-clawd init");
+    console.error(getConfigProblem());
     process.exit(1);
   }
 
@@ -549,7 +758,7 @@ async function sessionNew(name?: string): Promise<void> {
 async function sessionList(): Promise<void> {
   const config = loadConfig();
   if (!config) {
-    console.error("Not configured. Run: honcho-clawd init");
+    console.error(getConfigProblem());
     process.exit(1);
   }
 
@@ -602,7 +811,7 @@ async function sessionList(): Promise<void> {
 function sessionCurrent(): void {
   const config = loadConfig();
   if (!config) {
-    console.error("Not configured. Run: honcho-clawd init");
+    console.error(getConfigProblem());
     process.exit(1);
   }
 
@@ -616,8 +825,7 @@ function sessionCurrent(): void {
     console.log(`Session: ${currentSession}`);
   } else {
     // Show what the default would be
-    const dirName = require("path").basename(cwd).toLowerCase().replace(/[^a-z0-9-_]/g, "-");
-    const defaultSession = dirName;
+    const defaultSession = getSessionName(cwd);
     console.log(`Session: ${defaultSession} (default)`);
     console.log("\nTip: Use 'honcho-clawd session new <name>' to set a custom session name.");
   }
@@ -631,7 +839,7 @@ function sessionCurrent(): void {
 function sessionSwitch(name: string): void {
   const config = loadConfig();
   if (!config) {
-    console.error("Not configured. Run: honcho-clawd init");
+    console.error(getConfigProblem());
     process.exit(1);
   }
 
@@ -674,7 +882,7 @@ function sessionClear(): void {
 async function workspaceList(): Promise<void> {
   const config = loadConfig();
   if (!config) {
-    console.error("Not configured. Run: honcho-clawd init");
+    console.error(getConfigProblem());
     process.exit(1);
   }
 
@@ -717,10 +925,28 @@ async function workspaceList(): Promise<void> {
   console.log("");
 }
 
+/**
+ * Store a new workspace in the active profile when there is one (that's
+ * where it's read from), else at the top level. Project and env layers
+ * aren't persisted. Returns where it went, for the message.
+ */
+function saveWorkspace(name: string): string {
+  const profile = getActiveProfile();
+  updateConfig((userConfig) => {
+    const entry = profile ? userConfig.profiles?.[profile] : undefined;
+    if (entry) {
+      entry.workspace = name;
+    } else {
+      userConfig.workspace = name;
+    }
+  });
+  return profile ? `profile "${profile}"` : "config.json";
+}
+
 async function workspaceSwitch(name: string): Promise<void> {
   const config = loadConfig();
   if (!config) {
-    console.error("Not configured. Run: honcho-clawd init");
+    console.error(getConfigProblem());
     process.exit(1);
   }
 
@@ -740,13 +966,11 @@ async function workspaceSwitch(name: string): Promise<void> {
       metadata: { app: WORKSPACE_APP_TAG },
     });
 
-    // Update config
-    config.workspace = name;
-    saveConfig(config);
+    const savedTo = saveWorkspace(name);
 
     console.log(s.success("Switched workspace"));
     console.log(`  ${s.label("From")}: ${oldWorkspace}`);
-    console.log(`  ${s.label("To")}:   ${s.highlight(name)}`);
+    console.log(`  ${s.label("To")}:   ${s.highlight(name)} ${s.dim(`(${savedTo})`)}`);
     console.log("");
     console.log(s.dim("New Claude Code sessions will use this workspace."));
   } catch (error) {
@@ -758,7 +982,7 @@ async function workspaceSwitch(name: string): Promise<void> {
 async function workspaceRename(newName: string): Promise<void> {
   const config = loadConfig();
   if (!config) {
-    console.error("Not configured. Run: honcho-clawd init");
+    console.error(getConfigProblem());
     process.exit(1);
   }
 
@@ -786,13 +1010,11 @@ async function workspaceRename(newName: string): Promise<void> {
       metadata: { app: WORKSPACE_APP_TAG },
     });
 
-    // Update config
-    config.workspace = newName;
-    saveConfig(config);
+    const savedTo = saveWorkspace(newName);
 
     console.log(s.success("Workspace renamed"));
     console.log(`  ${s.label("From")}: ${oldWorkspace}`);
-    console.log(`  ${s.label("To")}:   ${s.highlight(newName)}`);
+    console.log(`  ${s.label("To")}:   ${s.highlight(newName)} ${s.dim(`(${savedTo})`)}`);
     console.log("");
     console.log(s.dim("Note: This creates a new workspace. Your old workspace data"));
     console.log(s.dim(`remains accessible at "${oldWorkspace}".`));
@@ -827,7 +1049,7 @@ Workspace Management Commands:
 async function peerList(): Promise<void> {
   const config = loadConfig();
   if (!config) {
-    console.error("Not configured. Run: honcho-clawd init");
+    console.error(getConfigProblem());
     process.exit(1);
   }
 
@@ -935,7 +1157,7 @@ function handleCache(subcommand: string): void {
     case "": {
       const idCache = loadIdCache();
       const contextCache = loadContextCache();
-      const instanceId = getClaudeInstanceId();
+      const instanceId = getClaudeInstanceId(process.cwd());
 
       console.log("");
       console.log(s.header("Honcho-Clawd Cache"));
@@ -966,18 +1188,40 @@ function handleCache(subcommand: string): void {
 
       console.log("");
       console.log(s.section("Instance Tracking"));
-      console.log(`  Claude Instance ID: ${instanceId ? instanceId.slice(0, 12) + "..." : s.dim("(not set)")}`);
+      console.log(`  Claude Instance ID (this dir): ${instanceId ? instanceId.slice(0, 12) + "..." : s.dim("(not set)")}`);
+      const trackedInstances = Object.entries(idCache.instances?.byCwd || {});
+      if (trackedInstances.length > 0) {
+        console.log(`  Tracked: ${trackedInstances.length} directories, ${Object.keys(idCache.instances?.byTranscript || {}).length} transcripts`);
+        for (const [cwd, record] of trackedInstances.slice(0, 5)) {
+          const shortCwd = cwd.split("/").slice(-2).join("/");
+          console.log(`    ${s.dim(shortCwd)}: ${record.id.slice(0, 12)}... (${s.dim(record.updatedAt.slice(0, 16))})`);
+        }
+      }
 
       console.log("");
       console.log(s.section("Context Cache"));
-      if (contextCache.userContext) {
-        const age = Math.round((Date.now() - contextCache.userContext.fetchedAt) / 1000);
-        console.log(`  User Context: ${age}s old`);
-      } else {
+      const contextEntries = Object.entries(contextCache.sessions || {});
+      if (contextEntries.length === 0) {
         console.log(`  User Context: ${s.dim("(not cached)")}`);
       }
-      if (contextCache.messageCount) {
-        console.log(`  Message Count: ${contextCache.messageCount}`);
+      for (const [key, entry] of contextEntries.slice(0, 5)) {
+        const shortKey = key.split("/").slice(-2).join("/");
+        const age = entry.userContext
+          ? `${Math.round((Date.now() - entry.userContext.fetchedAt) / 1000)}s old`
+          : s.dim("(not cached)");
+        console.log(`  ${s.dim(shortKey)}: ${age}, ${entry.messageCount || 0} messages`);
+      }
+      if (contextEntries.length > 5) {
+        console.log(`    ${s.dim(`...and ${contextEntries.length - 5} more`)}`);
+      }
+
+      const quarantined = getQuarantinedFiles(getCacheDir());
+      if (quarantined.length > 0) {
+        console.log("");
+        console.log(s.warn(`Quarantined ${quarantined.length} unreadable file${quarantined.length === 1 ? "" : "s"}:`));
+        for (const file of quarantined.slice(0, 5)) {
+          console.log(`  ${s.dim(s.symbols.bullet)} ${s.path(file)}`);
+        }
       }
 
       console.log("");
@@ -999,6 +1243,1083 @@ Cache Commands:
   }
 }
 
+// ============================================
+// Queue Command - Outbox of pending uploads
+// ============================================
+
+function formatQueuedMessage(msg: QueuedMessage): string {
+  const shortCwd = msg.cwd.split("/").slice(-2).join("/");
+  const preview = msg.content.replace(/\s+/g, " ").slice(0, 50);
+  let status = s.dim(msg.state);
+  if (msg.nextAttemptAt && msg.state === "pending") {
+    const seconds = Math.max(0, Math.round((msg.nextAttemptAt - Date.now()) / 1000));
+    status = s.warn(`retry ${msg.attempts} in ${seconds}s`);
+  }
+  return `  ${s.dim(msg.id.slice(0, 8))} ${status} ${s.dim(shortCwd)} ${preview}`;
+}
+
+/**
+ * Resolve id prefixes (as shown by `queue status`) to full ids
+ */
+function matchIds(prefixes: string[], messages: QueuedMessage[]): string[] {
+  return messages.filter((msg) => prefixes.some((p) => msg.id.startsWith(p))).map((msg) => msg.id);
+}
+
+async function handleQueue(args: string[]): Promise<void> {
+  const subcommand = args[0];
+  const flags = args.filter((a) => a.startsWith("-"));
+  const ids = args.slice(1).filter((a) => !a.startsWith("-"));
+  const all = flags.includes("--all") || flags.includes("-a");
+
+  switch (subcommand) {
+    case "status":
+    case undefined:
+    case "": {
+      const queued = getQueuedMessages();
+      const dead = getDeadLetters();
+      const retrying = queued.filter((msg) => msg.attempts > 0);
+
+      console.log("");
+      console.log(s.header("Honcho-Clawd Outbox"));
+      console.log(`  ${s.label("Pending")}:     ${queued.length - retrying.length}`);
+      console.log(`  ${s.label("Retrying")}:    ${retrying.length}`);
+      console.log(`  ${s.label("Dead letter")}: ${dead.length}`);
+      if (isCircuitOpen()) {
+        const health = getHealthState();
+        console.log(`  ${s.label("Honcho")}:      ${s.warn("offline")} ${s.dim(`(${health.lastError?.slice(0, 80) ?? "recent failures"})`)}`);
+        console.log(s.dim("  Uploads are paused; 'honcho-clawd queue flush' tries anyway"));
+      }
+
+      if (queued.length > 0) {
+        console.log("");
+        console.log(s.section("Queued"));
+        for (const msg of queued.slice(0, 10)) {
+          console.log(formatQueuedMessage(msg));
+        }
+        if (queued.length > 10) {
+          console.log(`    ${s.dim(`...and ${queued.length - 10} more`)}`);
+        }
+      }
+
+      if (dead.length > 0) {
+        console.log("");
+        console.log(s.section("Dead Letters"));
+        for (const msg of dead.slice(0, 10)) {
+          console.log(formatQueuedMessage(msg));
+          console.log(`    ${s.error(msg.lastError?.slice(0, 100) || "unknown error")}`);
+        }
+        if (dead.length > 10) {
+          console.log(`    ${s.dim(`...and ${dead.length - 10} more`)}`);
+        }
+      }
+      console.log("");
+      break;
+    }
+
+    case "flush": {
+      const config = loadConfig();
+      if (!config) {
+        console.error(s.error(getConfigProblem()));
+        process.exit(1);
+      }
+      const result = await flushOutbox(config, { cwd: all ? undefined : process.cwd(), force: true, probe: true });
+      if (result.uploaded === 0 && result.retrying === 0 && result.deadLettered === 0) {
+        console.log(s.dim(all ? "Nothing queued" : "Nothing queued for this directory (use --all for every directory)"));
+        break;
+      }
+      console.log(s.success(`Uploaded ${result.uploaded} messages`));
+      if (result.retrying > 0) console.log(s.warn(`${result.retrying} failed, will retry`));
+      if (result.deadLettered > 0) console.log(s.error(`${result.deadLettered} moved to dead letter`));
+      break;
+    }
+
+    case "retry": {
+      if (ids.length === 0 && !all) {
+        console.error(s.error("Usage: honcho-clawd queue retry <id...> | --all"));
+        process.exit(1);
+      }
+      const retried = retryDeadLetters(all ? undefined : matchIds(ids, getDeadLetters()));
+      console.log(s.success(`Requeued ${retried} dead letter${retried === 1 ? "" : "s"}`));
+      console.log(s.dim("Run 'honcho-clawd queue flush' to upload now"));
+      break;
+    }
+
+    case "drop": {
+      if (ids.length === 0 && !all && !flags.includes("--dead")) {
+        console.error(s.error("Usage: honcho-clawd queue drop <id...> | --dead | --all"));
+        process.exit(1);
+      }
+      let dropped = 0;
+      if (all) {
+        dropped = dropQueuedMessages() + dropDeadLetters();
+      } else if (flags.includes("--dead")) {
+        dropped = dropDeadLetters();
+      } else {
+        dropped = dropQueuedMessages(matchIds(ids, getQueuedMessages())) + dropDeadLetters(matchIds(ids, getDeadLetters()));
+      }
+      console.log(s.success(`Dropped ${dropped} message${dropped === 1 ? "" : "s"}`));
+      break;
+    }
+
+    default:
+      console.log(`
+Queue Commands:
+  honcho-clawd queue [status]          Show pending, retrying and dead-lettered uploads
+  honcho-clawd queue flush [--all]     Upload now, ignoring backoff (this directory, or all)
+  honcho-clawd queue retry <id>|--all  Requeue dead letters
+  honcho-clawd queue drop <id>         Discard a queued or dead-lettered message
+  honcho-clawd queue drop --dead|--all Discard all dead letters (or everything)
+`);
+  }
+}
+
+// ============================================
+// Storage Command - JSON files vs SQLite
+// ============================================
+
+function handleStorage(subcommand: string): void {
+  switch (subcommand) {
+    case "status":
+    case undefined:
+    case "": {
+      const { backend } = getStorageConfig();
+      console.log("");
+      console.log(s.header("Honcho-Clawd Storage"));
+      console.log(`  ${s.label("Backend")}:  ${backend}`);
+      if (backend === "sqlite") {
+        console.log(`  ${s.label("Database")}: ${s.path(getDbPath())}`);
+        console.log("");
+        console.log(s.section("Rows"));
+        for (const [table, count] of Object.entries(dbGetStats())) {
+          console.log(`  ${table.padEnd(18)} ${count}`);
+        }
+      } else {
+        console.log(`  ${s.label("Directory")}: ${s.path(getCacheDir())}`);
+        console.log("");
+        console.log(s.dim("Run 'honcho-clawd storage migrate' to switch to SQLite"));
+      }
+      console.log("");
+      break;
+    }
+    case "migrate": {
+      if (!updateConfig((config) => {
+        config.storage = { ...config.storage, backend: "sqlite" };
+      })) {
+        console.error(s.error(getConfigProblem()));
+        process.exit(1);
+      }
+      const result = migrateJsonFiles();
+      console.log(s.success(`Switched to SQLite: ${getDbPath()}`));
+      console.log(`  ID mappings:       ${result.idMappings}`);
+      console.log(`  Context snapshots: ${result.contextSnapshots}`);
+      console.log(`  Git snapshots:     ${result.gitSnapshots}`);
+      console.log(`  Queued messages:   ${result.queuedMessages}`);
+      console.log(`  Log entries:       ${result.logEntries}`);
+      console.log(s.dim("Imported files were renamed to *.imported"));
+      break;
+    }
+    default:
+      console.log(`
+Storage Commands:
+  honcho-clawd storage [status]   Show backend and row counts
+  honcho-clawd storage migrate    Import JSON cache files into SQLite and switch backend
+`);
+  }
+}
+
+// ============================================
+// Daemon Command - background sync process
+// ============================================
+
+async function handleDaemon(subcommand: string): Promise<void> {
+  switch (subcommand) {
+    case "status":
+    case undefined:
+    case "": {
+      const response = await sendDaemonRequest({ type: "ping" });
+      console.log("");
+      console.log(s.header("Honcho-Clawd Daemon"));
+      if (!response?.status) {
+        console.log(`  ${s.label("Status")}:   ${s.dim("not running")} (hooks upload directly)`);
+        console.log("");
+        console.log(s.dim("Run 'honcho-clawd daemon start' to sync in the background"));
+        console.log("");
+        break;
+      }
+      const status = response.status;
+      const uptimeMinutes = Math.round((Date.now() - new Date(status.startedAt).getTime()) / 60000);
+      console.log(`  ${s.label("Status")}:   ${s.success("running")} (pid ${status.pid}, up ${uptimeMinutes}m)`);
+      console.log(`  ${s.label("Socket")}:   ${s.path(getDaemonSocketPath())}`);
+      console.log(`  ${s.label("Uploaded")}: ${status.uploaded} messages`);
+      console.log(`  ${s.label("Pending")}:  ${getQueuedMessages().length} messages`);
+      if (status.lastFlushAt) {
+        console.log(`  ${s.label("Last flush")}:    ${status.lastFlushAt}`);
+      }
+      if (status.lastPrefetchAt) {
+        console.log(`  ${s.label("Last prefetch")}: ${status.lastPrefetchAt}`);
+      }
+      if (status.watched.length > 0) {
+        console.log("");
+        console.log(s.section("Watching"));
+        for (const name of status.watched) {
+          console.log(`  ${s.symbols.bullet} ${name}`);
+        }
+      }
+      console.log("");
+      break;
+    }
+    case "start": {
+      if (await sendDaemonRequest({ type: "ping" })) {
+        console.log(s.dim(`Daemon already running (pid ${getDaemonPid() ?? "?"})`));
+        break;
+      }
+      const child = Bun.spawn([process.execPath, process.argv[1], "daemon", "run"], {
+        detached: true,
+        stdio: ["ignore", "ignore", "ignore"],
+      });
+      child.unref();
+      // Wait for the socket to come up
+      for (let i = 0; i < 30; i++) {
+        await Bun.sleep(100);
+        const response = await sendDaemonRequest({ type: "ping" });
+        if (response?.status) {
+          console.log(s.success(`Daemon started (pid ${response.status.pid})`));
+          return;
+        }
+      }
+      console.error(s.error("Daemon did not start. Try 'honcho-clawd daemon run' to see errors"));
+      process.exit(1);
+    }
+    case "stop": {
+      if (await sendDaemonRequest({ type: "stop" })) {
+        console.log(s.success("Daemon stopped"));
+        break;
+      }
+      // Not answering - signal the pid it recorded, if that process is still alive
+      const pid = getDaemonPid();
+      if (pid) {
+        try {
+          process.kill(pid, "SIGTERM");
+          console.log(s.success(`Sent SIGTERM to daemon (pid ${pid})`));
+          break;
+        } catch {
+          // Already gone
+        }
+      }
+      console.log(s.dim("Daemon not running"));
+      break;
+    }
+    case "run":
+      try {
+        await runDaemon();
+      } catch (error) {
+        console.error(s.error(String(error instanceof Error ? error.message : error)));
+        process.exit(1);
+      }
+      break;
+    default:
+      console.log(`
+Daemon Commands:
+  honcho-clawd daemon [status]   Show whether the daemon is running
+  honcho-clawd daemon start      Start syncing in the background
+  honcho-clawd daemon stop       Stop the background daemon
+  honcho-clawd daemon run        Run the daemon in the foreground
+`);
+  }
+}
+
+// ============================================
+// Templates Command - context layout overrides
+// ============================================
+
+function handleTemplates(args: string[]): void {
+  const subcommand = args[0];
+  const force = args.includes("--force") || args.includes("-f");
+  const names = args.slice(1).filter((a) => !a.startsWith("-"));
+
+  const invalid = names.filter((name) => !TEMPLATE_NAMES.includes(name as TemplateName));
+  if (invalid.length > 0) {
+    console.error(s.error(`Unknown template: ${invalid.join(", ")} (expected ${TEMPLATE_NAMES.join(", ")})`));
+    process.exit(1);
+  }
+
+  switch (subcommand) {
+    case "list":
+    case undefined:
+    case "": {
+      console.log("");
+      console.log(s.header("Honcho-Clawd Templates"));
+      console.log(`  ${s.label("Directory")}: ${s.path(getTemplatesDir())}`);
+      console.log("");
+      for (const name of TEMPLATE_NAMES) {
+        const custom = hasTemplateOverride(name);
+        const template = loadTemplate(name);
+        console.log(`  ${s.symbols.bullet} ${s.highlight(name)} ${custom ? s.success("custom") : s.dim("default")} ${s.dim(`(${template.format ?? "markdown"})`)}`);
+        console.log(`    ${s.label("Sections")}:  ${template.sections.map((section) => section.id).join(", ")}`);
+        const vars = ["peerName", "claudePeer", "workspace", "session", "cwd", ...TEMPLATE_VARIABLES[name]];
+        console.log(`    ${s.label("Variables")}: ${s.dim(vars.map((v) => `{{${v}}}`).join(" "))}`);
+      }
+      console.log("");
+      console.log(s.dim("Run 'honcho-clawd templates init' to copy the defaults for editing"));
+      console.log("");
+      break;
+    }
+    case "init": {
+      const written = writeDefaultTemplates(names.length > 0 ? (names as TemplateName[]) : TEMPLATE_NAMES, force);
+      for (const path of written) {
+        console.log(s.success(`Wrote ${path}`));
+      }
+      if (written.length === 0) {
+        console.log(s.dim("Templates already exist (use --force to overwrite with the defaults)"));
+      }
+      break;
+    }
+    default:
+      console.log(`
+Templates Commands:
+  honcho-clawd templates [list]                 Show templates and whether they're customized
+  honcho-clawd templates init [name] [--force]  Write default templates to edit
+`);
+  }
+}
+
+// ============================================
+// Config Command - schema validation
+// ============================================
+
+function printConfigCheck(title: string, check: ConfigCheck): number {
+  console.log(s.section(title));
+  console.log(s.dim(check.path));
+  for (const migration of check.migrated) {
+    console.log(`  ${s.success(`Migrated to v${migration.version}`)} ${s.dim(migration.description)}`);
+  }
+  if (check.backupPath) {
+    console.log(`  ${s.label("Backup")}: ${s.path(check.backupPath)}`);
+  }
+  if (check.parseError) {
+    console.log(`  ${s.error(`Invalid JSON: ${check.parseError}`)}`);
+    return 1;
+  }
+  if (check.issues.length === 0) {
+    console.log(`  ${s.success("OK")}`);
+    return 0;
+  }
+  for (const issue of check.issues) {
+    console.log(`  ${issue.severity === "error" ? s.error(formatIssue(issue)) : s.warn(formatIssue(issue))}`);
+  }
+  return check.issues.filter((issue) => issue.severity === "error").length;
+}
+
+/**
+ * Print problems in config.json and the project's .honcho-clawd.json. Returns the error count.
+ */
+function reportConfigFiles(): number {
+  let errors = 0;
+  const userCheck = checkUserConfig();
+  if (userCheck.exists) {
+    errors += printConfigCheck(`config.json (v${userCheck.config?.configVersion ?? "?"}, current v${CONFIG_VERSION})`, userCheck);
+    if (!userCheck.usable && !userCheck.parseError) {
+      console.log(`  ${s.error("Hooks can't run until the errors above are fixed")}`);
+    } else if (errors > 0) {
+      console.log(s.dim("  Invalid values are ignored and their defaults used"));
+    }
+    // A stored key that can't be decrypted stops the hooks as surely as a missing one
+    const secretsProblem = userCheck.config && getSecretRefs(userCheck.config).length > 0 ? checkSecrets() : null;
+    if (secretsProblem) {
+      console.log(`  ${s.error(secretsProblem)}`);
+      errors++;
+    }
+  }
+
+  const others: Array<[string, ConfigCheck | null]> = [
+    [PROJECT_CONFIG_FILE, checkProjectConfig(process.cwd())],
+    ["Environment", checkEnvConfig()],
+  ];
+  let printed = userCheck.exists;
+  for (const [title, check] of others) {
+    if (!check) continue;
+    if (printed) console.log("");
+    errors += printConfigCheck(title, check);
+    printed = true;
+  }
+  return errors;
+}
+
+function maskConfigValue(key: string, value: unknown): unknown {
+  return isSecretSetting(key) && typeof value === "string" && !isSecretRef(value) ? maskSecret(value) : value;
+}
+
+/**
+ * Effective settings at or under `key` (everything when omitted)
+ */
+function getConfigEntries(key?: string): ConfigValue[] {
+  return describeConfig(process.cwd())
+    .filter((entry) => !key || entry.key === key || entry.key.startsWith(`${key}.`))
+    .map((entry) => ({ ...entry, value: maskConfigValue(entry.key, entry.value) }));
+}
+
+/**
+ * Nest dotted entries back into an object (for --json)
+ */
+function entriesToObject(entries: ConfigValue[], prefix = ""): Record<string, unknown> {
+  const result: Record<string, any> = {};
+  for (const { key, value } of entries) {
+    const path = (prefix ? key.slice(prefix.length + 1) : key).split(".");
+    let parent = result;
+    for (const part of path.slice(0, -1)) parent = parent[part] ??= {};
+    parent[path[path.length - 1]] = value;
+  }
+  return result;
+}
+
+function printConfigEntries(entries: ConfigValue[]): void {
+  for (const { key, value, source } of entries) {
+    const label = source === "default" ? s.dim(key) : s.label(key);
+    console.log(`  ${label}: ${formatConfigValue(key, value)} ${s.dim(`(${source})`)}`);
+  }
+}
+
+async function handleConfig(args: string[]): Promise<void> {
+  const json = args.includes("--json");
+  const positional = args.filter((arg) => arg !== "--json");
+  const subcommand = positional[0];
+
+  // Reading works from the environment alone; changing settings needs config.json
+  const writes = ["set", "unset", "edit"].includes(subcommand);
+  if ((writes && !configExists()) || ((subcommand === undefined || subcommand === "list" || subcommand === "get") && !loadConfig())) {
+    console.error(getConfigProblem());
+    process.exit(1);
+  }
+
+  switch (subcommand) {
+    case "list":
+    case undefined: {
+      const entries = getConfigEntries();
+      if (json) {
+        console.log(JSON.stringify(entries, null, 2));
+        break;
+      }
+      console.log("");
+      console.log(s.header("Honcho-Clawd Config"));
+      console.log(s.dim(getConfigPath()));
+      console.log("");
+      printConfigEntries(entries);
+      const overridden = entries.filter((entry) => entry.source !== "default").length;
+      console.log("");
+      console.log(s.dim(`${overridden} set, ${entries.length - overridden} defaults. Change with: honcho-clawd config set <key> <value>`));
+      console.log("");
+      break;
+    }
+    case "get": {
+      const key = positional[1];
+      if (!key) {
+        console.error(s.error("Usage: honcho-clawd config get <key> [--json]"));
+        process.exit(1);
+      }
+      try {
+        resolveSetting(key);
+      } catch (error) {
+        console.error(s.error(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+      const entries = getConfigEntries(key);
+      const exact = entries.length === 1 && entries[0].key === key ? entries[0] : null;
+      if (json) {
+        console.log(JSON.stringify(exact ? exact.value : entries.length > 0 ? entriesToObject(entries, key) : null, null, 2));
+      } else if (exact) {
+        // Bare value, for scripts
+        console.log(typeof exact.value === "string" ? exact.value : JSON.stringify(exact.value));
+      } else if (entries.length > 0) {
+        printConfigEntries(entries);
+      } else {
+        console.log(s.dim("(not set)"));
+      }
+      break;
+    }
+    case "set": {
+      const [key, ...rest] = positional.slice(1);
+      if (!key || rest.length === 0) {
+        console.error(s.error("Usage: honcho-clawd config set <key> <value>"));
+        process.exit(1);
+      }
+      let path: string[];
+      let value: unknown;
+      try {
+        const setting = resolveSetting(key);
+        path = setting.path;
+        value = coerceValue(setting.node, rest.join(" "));
+        const problems = validateConfig(value, setting.node).filter((issue) => issue.severity === "error");
+        if (problems.length > 0) {
+          throw new Error(problems.map((issue) => formatIssue({ ...issue, path: [...setting.path, ...issue.path] })).join("; "));
+        }
+      } catch (error) {
+        console.error(s.error(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+      setConfigValue(path, value);
+      console.log(s.success(`${key} = ${formatConfigValue(key, value)}`));
+
+      // The new value only takes effect where nothing higher in the chain sets it
+      const effective = describeConfig(process.cwd()).find((entry) => entry.key === key);
+      if (effective && effective.source !== "user") {
+        const by =
+          effective.source === "env" ? "an environment variable" : effective.source === "profile" ? `profile "${getActiveProfile()}"` : PROJECT_CONFIG_FILE;
+        console.log(s.warn(`Overridden here by ${by}`));
+      }
+      break;
+    }
+    case "unset": {
+      const key = positional[1];
+      if (!key) {
+        console.error(s.error("Usage: honcho-clawd config unset <key>"));
+        process.exit(1);
+      }
+      let path: string[];
+      try {
+        path = resolveSetting(key).path;
+      } catch (error) {
+        console.error(s.error(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+      if (["peerName", "apiKey", "workspace"].includes(key)) {
+        console.error(s.error(`${key} is required. Change it with: honcho-clawd config set ${key} <value>`));
+        process.exit(1);
+      }
+      if (unsetConfigValue(path)) {
+        const effective = describeConfig(process.cwd()).find((entry) => entry.key === key);
+        const now = effective ? ` (now ${formatConfigValue(key, effective.value)} from ${effective.source})` : "";
+        console.log(s.success(`Removed ${key}${now}`));
+      } else {
+        console.log(s.dim(`${key} was not set`));
+      }
+      break;
+    }
+    case "edit": {
+      const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+      const child = Bun.spawn([...editor.split(" "), getConfigPath()], {
+        stdin: "inherit",
+        stdout: "inherit",
+        stderr: "inherit",
+      });
+      await child.exited;
+      console.log("");
+      const errors = reportConfigFiles();
+      console.log("");
+      if (errors > 0) process.exit(1);
+      break;
+    }
+    case "validate": {
+      console.log("");
+      if (!loadConfig() && !configExists()) {
+        console.log(s.warn(getConfigProblem()));
+        process.exit(1);
+      }
+      const errors = reportConfigFiles();
+      console.log("");
+      if (errors > 0) process.exit(1);
+      break;
+    }
+    default:
+      console.log(`
+Config Commands:
+  honcho-clawd config [list] [--json]       Every setting, its value and where it comes from
+  honcho-clawd config get <key> [--json]    One setting or section (e.g. contextRefresh.ttlSeconds)
+  honcho-clawd config set <key> <value>     Change a setting in config.json
+  honcho-clawd config unset <key>           Remove a setting so its default applies
+  honcho-clawd config edit                  Open config.json in $EDITOR, then validate it
+  honcho-clawd config validate              Check config.json (and this project's ${PROJECT_CONFIG_FILE})
+`);
+  }
+}
+
+// ============================================
+// Profile Commands - named identities
+// ============================================
+
+const PROFILE_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Profile settings given as flags. --path may be repeated.
+ */
+function parseProfileArgs(args: string[]): ProfileConfig {
+  const profile: ProfileConfig = {};
+  const peerName = flagValue(args, "--peer");
+  if (peerName) profile.peerName = peerName;
+  const claudePeer = flagValue(args, "--claude-peer");
+  if (claudePeer) profile.claudePeer = claudePeer;
+  const workspace = flagValue(args, "--workspace");
+  if (workspace) profile.workspace = workspace;
+  const endpoint = flagValue(args, "--endpoint");
+  if (endpoint) profile.endpoint = parseEndpoint(endpoint);
+  const apiKeyEnv = flagValue(args, "--api-key-env");
+  if (apiKeyEnv) {
+    profile.apiKey = process.env[apiKeyEnv];
+    if (!profile.apiKey) throw new Error(`--api-key-env: $${apiKeyEnv} is not set`);
+  }
+
+  const paths: string[] = [];
+  args.forEach((arg, i) => {
+    if (arg.startsWith("--path=")) paths.push(arg.slice("--path=".length));
+    if (arg !== "--path") return;
+    if (args[i + 1] === undefined || args[i + 1].startsWith("--")) throw new Error("--path needs a value");
+    paths.push(args[i + 1]);
+  });
+  if (paths.length > 0) profile.paths = paths;
+  return profile;
+}
+
+function describeProfile(profile: ProfileConfig): string {
+  const parts: string[] = [];
+  if (profile.peerName) parts.push(`peer ${profile.peerName}`);
+  if (profile.workspace) parts.push(`workspace ${profile.workspace}`);
+  if (profile.claudePeer) parts.push(`claude ${profile.claudePeer}`);
+  if (profile.endpoint) parts.push(profile.endpoint.baseUrl ?? profile.endpoint.environment ?? "");
+  if (profile.apiKey) parts.push("own API key");
+  return parts.join(", ") || "(no overrides)";
+}
+
+async function handleProfile(args: string[]): Promise<void> {
+  const subcommand = args[0];
+  const name = args[1] && !args[1].startsWith("--") ? args[1] : undefined;
+
+  if (subcommand && !configExists()) {
+    console.error(getConfigProblem());
+    process.exit(1);
+  }
+
+  switch (subcommand) {
+    case "list":
+    case undefined: {
+      const config = loadConfig();
+      if (!config) {
+        console.error(getConfigProblem());
+        process.exit(1);
+      }
+      const profiles = config.profiles ?? {};
+      const active = getActiveProfile(process.cwd());
+      console.log("");
+      console.log(s.header("Honcho-Clawd Profiles"));
+      console.log("");
+      if (Object.keys(profiles).length === 0) {
+        console.log(s.dim("No profiles. Add one with: honcho-clawd profile add <name> --peer <name> --workspace <name>"));
+        console.log("");
+        break;
+      }
+      for (const [profileName, profile] of Object.entries(profiles)) {
+        const isActive = profileName === active ? ` ${s.current("active here")}` : "";
+        const isDefault = profileName === config.profile ? ` ${s.dim("(default)")}` : "";
+        console.log(`  ${s.highlight(profileName)}${isActive}${isDefault}  ${s.dim(describeProfile(profile))}`);
+        for (const pattern of profile.paths ?? []) {
+          console.log(`    ${s.dim("→")} ${pattern}`);
+        }
+      }
+      if (!active) {
+        console.log("");
+        console.log(s.dim("No profile active here - using the top-level settings"));
+      }
+      console.log("");
+      break;
+    }
+    case "add": {
+      if (!name || !PROFILE_NAME.test(name)) {
+        console.error(s.error("Usage: honcho-clawd profile add <name> [--peer <n>] [--workspace <n>] [--path <glob>]..."));
+        console.error(s.dim("Names may use letters, digits, - and _"));
+        process.exit(1);
+      }
+      let profile: ProfileConfig;
+      try {
+        profile = parseProfileArgs(args.slice(2));
+      } catch (error) {
+        console.error(s.error(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+      let existed = false;
+      updateConfig((config) => {
+        if (!config.profiles) config.profiles = {};
+        existed = name in config.profiles;
+        // Re-adding updates the flags given and keeps the rest
+        config.profiles[name] = { ...config.profiles[name], ...profile };
+      });
+      console.log(s.success(`${existed ? "Updated" : "Added"} profile ${name}`));
+      const saved = loadConfig()?.profiles?.[name];
+      if (saved) console.log(`  ${s.dim(describeProfile(saved))}`);
+      if (!saved?.paths?.length) {
+        console.log(s.dim(`Select it with: honcho-clawd profile use ${name} (or add --path <glob>)`));
+      }
+      break;
+    }
+    case "use": {
+      const clear = args.includes("--clear");
+      if (!name && !clear) {
+        console.error(s.error("Usage: honcho-clawd profile use <name> | --clear"));
+        process.exit(1);
+      }
+      if (name && !loadConfig()?.profiles?.[name]) {
+        console.error(s.error(`No profile named "${name}". See: honcho-clawd profile list`));
+        process.exit(1);
+      }
+      updateConfig((config) => {
+        if (name) {
+          config.profile = name;
+        } else {
+          delete config.profile;
+        }
+      });
+      console.log(s.success(name ? `Default profile: ${name}` : "Cleared the default profile"));
+      // A path rule or HONCHO_CLAWD_PROFILE still wins
+      const active = getActiveProfile(process.cwd());
+      if (name && active !== name) {
+        console.log(s.warn(`Profile "${active}" is active in this directory (path rule or HONCHO_CLAWD_PROFILE)`));
+      }
+      break;
+    }
+    case "remove": {
+      if (!name) {
+        console.error(s.error("Usage: honcho-clawd profile remove <name>"));
+        process.exit(1);
+      }
+      let removed = false;
+      updateConfig((config) => {
+        if (!config.profiles?.[name]) return;
+        delete config.profiles[name];
+        if (Object.keys(config.profiles).length === 0) delete config.profiles;
+        if (config.profile === name) delete config.profile;
+        removed = true;
+      });
+      if (!removed) {
+        console.error(s.error(`No profile named "${name}"`));
+        process.exit(1);
+      }
+      console.log(s.success(`Removed profile ${name}`));
+      break;
+    }
+    default:
+      console.log(`
+Profile Commands:
+  honcho-clawd profile [list]                 Profiles, and which one is active here
+  honcho-clawd profile add <name> [flags]     Add or update a profile:
+      --peer <n> --workspace <n> --claude-peer <n> --endpoint <local|saas|url>
+      --api-key-env <VAR> --path <glob> (repeatable, e.g. "~/work/**")
+  honcho-clawd profile use <name>             Default profile where no --path rule matches
+  honcho-clawd profile use --clear            Back to the top-level settings
+  honcho-clawd profile remove <name>          Delete a profile
+`);
+  }
+}
+
+// ============================================
+// Secrets Commands - encrypted API keys
+// ============================================
+
+async function handleSecrets(args: string[]): Promise<void> {
+  const subcommand = args[0];
+
+  if (!configExists()) {
+    console.error(getConfigProblem());
+    process.exit(1);
+  }
+
+  switch (subcommand) {
+    case "status":
+    case undefined: {
+      // Loading the config first moves any plaintext keys into the store
+      const plaintext = Object.keys(extractSecrets(loadConfig() ?? {}).secrets);
+      const file = loadSecretsFile();
+      console.log("");
+      console.log(s.header("Honcho-Clawd Secrets"));
+      console.log(s.dim(getSecretsPath()));
+      console.log("");
+      if (file) {
+        const problem = checkSecrets();
+        const source = file.keySource === "machine" ? "machine key" : `passphrase (${PASSPHRASE_ENV})`;
+        console.log(`  ${s.label("Encryption")}: AES-256-GCM, ${source}`);
+        console.log(`  ${s.label("Status")}:     ${problem ? s.error(problem) : s.success("unlocked")}`);
+        console.log(`  ${s.label("Stored")}:     ${Object.keys(file.secrets).join(", ") || s.dim("(none)")}`);
+      } else {
+        console.log(s.dim("No secrets stored yet"));
+      }
+      if (plaintext.length > 0) {
+        console.log(`  ${s.label("Plaintext")}:  ${s.warn(plaintext.join(", "))} ${s.dim("(run: honcho-clawd secrets migrate)")}`);
+      }
+      console.log("");
+      break;
+    }
+    case "set": {
+      const name = args[1];
+      const names = getSecretPaths(loadConfig() ?? {}).map((path) => path.join("."));
+      if (!name || !names.includes(name)) {
+        console.error(s.error(`Usage: honcho-clawd secrets set <${names.join("|")}> [--from-env <VAR>]`));
+        process.exit(1);
+      }
+      let value: string | undefined;
+      try {
+        const fromEnv = flagValue(args, "--from-env");
+        // Taken from the environment so the key never shows up in shell history or ps
+        value = fromEnv ? process.env[fromEnv] : await prompt(`Enter ${name}: `);
+        if (!value) throw new Error(fromEnv ? `--from-env: $${fromEnv} is not set` : "No value entered");
+        storeSecrets({ [name]: value });
+      } catch (error) {
+        console.error(s.error(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+      setConfigValue(name.split("."), `${SECRET_REF_PREFIX}${name}`);
+      console.log(s.success(`Stored ${name} in ${getSecretsPath()}`));
+      break;
+    }
+    case "rotate": {
+      const file = loadSecretsFile();
+      if (!file) {
+        console.error(s.error("No secrets stored yet"));
+        process.exit(1);
+      }
+      let passphraseEnv: string | undefined;
+      try {
+        passphraseEnv = flagValue(args, "--passphrase-env");
+      } catch (error) {
+        console.error(s.error(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+      const source: KeySource = args.includes("--machine")
+        ? "machine"
+        : args.includes("--passphrase") || passphraseEnv
+          ? "passphrase"
+          : file.keySource;
+
+      let passphrase: string | undefined;
+      if (source === "passphrase") {
+        passphrase = passphraseEnv ? process.env[passphraseEnv] : await prompt("New passphrase: ");
+        if (!passphrase) {
+          console.error(s.error(passphraseEnv ? `--passphrase-env: $${passphraseEnv} is not set` : "No passphrase entered"));
+          process.exit(1);
+        }
+        if (!passphraseEnv && (await prompt("Repeat passphrase: ")) !== passphrase) {
+          console.error(s.error("Passphrases don't match"));
+          process.exit(1);
+        }
+      }
+      try {
+        const count = rotateSecrets(source, passphrase);
+        console.log(s.success(`Re-encrypted ${count} secret(s) with ${source === "machine" ? "the machine key" : "the new passphrase"}`));
+      } catch (error) {
+        console.error(s.error(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+      if (source === "passphrase") {
+        console.log(s.warn(`Set ${PASSPHRASE_ENV} wherever Claude Code runs, or the hooks can't read your API key`));
+      }
+      break;
+    }
+    case "migrate": {
+      const moved = migrateSecrets();
+      const left = Object.keys(extractSecrets(loadConfig() ?? {}).secrets);
+      if (moved.length > 0) {
+        console.log(s.success(`Moved ${moved.join(", ")} to ${getSecretsPath()}`));
+      }
+      if (left.length > 0) {
+        console.error(s.error(`Still in plaintext: ${left.join(", ")}. ${checkSecrets() ?? ""}`.trim()));
+        process.exit(1);
+      }
+      if (moved.length === 0) {
+        console.log(s.dim("No plaintext keys in config.json"));
+      }
+      break;
+    }
+    default:
+      console.log(`
+Secrets Commands:
+  honcho-clawd secrets [status]                  Where keys are stored and whether they can be read
+  honcho-clawd secrets set <key> [--from-env V]  Store apiKey, cerebrasKey or profiles.<name>.apiKey
+  honcho-clawd secrets rotate                    Re-encrypt with a fresh salt
+      --passphrase [--passphrase-env <VAR>]      Switch to (or change) a passphrase
+      --machine                                  Switch back to the machine key
+  honcho-clawd secrets migrate                   Move plaintext keys out of config.json now
+`);
+  }
+}
+
+// ============================================
+// Redact Command - preview secret stripping
+// ============================================
+
+async function handleRedact(args: string[]): Promise<void> {
+  const subcommand = args[0];
+
+  switch (subcommand) {
+    case "list":
+    case undefined:
+    case "": {
+      const config = getRedactionConfig();
+      const active = new Set(getDetectors().map((detector) => detector.name));
+      console.log("");
+      console.log(s.header("Honcho-Clawd Redaction"));
+      console.log(`  ${s.label("Status")}: ${config.enabled ? s.success("enabled") : s.warn("disabled")}`);
+      console.log("");
+      console.log(s.section("Built-in Detectors"));
+      for (const detector of BUILTIN_DETECTORS) {
+        const state = active.has(detector.name) ? s.success("on") : s.dim("off");
+        console.log(`  ${s.symbols.bullet} ${s.highlight(detector.name)} ${state} ${s.dim(detector.description)}`);
+      }
+      const custom = Object.entries(config.patterns ?? {});
+      if (custom.length > 0) {
+        console.log("");
+        console.log(s.section("Custom Patterns"));
+        for (const [name, pattern] of custom) {
+          console.log(`  ${s.symbols.bullet} ${s.highlight(name)} ${s.dim(pattern)}`);
+        }
+      }
+      console.log("");
+      console.log(s.dim("Run 'honcho-clawd redact test <text>' to preview what gets stripped"));
+      console.log("");
+      break;
+    }
+    case "test": {
+      // Text from the arguments, or piped in (handy for multi-line secrets)
+      const text = args.length > 1 ? args.slice(1).join(" ") : await Bun.stdin.text();
+      if (!text.trim()) {
+        console.error(s.error("Usage: honcho-clawd redact test <text>  (or pipe text in)"));
+        process.exit(1);
+      }
+      const result = redact(text);
+      console.log("");
+      console.log(s.section("Uploaded as"));
+      console.log(result.text);
+      console.log("");
+      if (result.redactions.length === 0) {
+        console.log(s.dim(getRedactionConfig().enabled ? "Nothing redacted" : "Redaction is disabled (redaction.enabled: false)"));
+      } else {
+        console.log(s.section(`Redacted (${result.redactions.length})`));
+        for (const redaction of result.redactions) {
+          console.log(`  ${s.symbols.bullet} ${s.highlight(redaction.detector)} ${s.dim(maskMatch(redaction.match))}`);
+        }
+      }
+      console.log("");
+      break;
+    }
+    default:
+      console.log(`
+Redact Commands:
+  honcho-clawd redact [list]       Show active detectors and custom patterns
+  honcho-clawd redact test <text>  Preview what would be stripped before upload
+`);
+  }
+}
+
+// ============================================
+// Import Command - backfill Claude Code history
+// ============================================
+
+function parseSince(value: string | undefined): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`--since: not a date: ${value} (try 2025-06-01)`);
+  return date;
+}
+
+async function handleImport(args: string[]): Promise<void> {
+  const subcommand = args[0];
+
+  switch (subcommand) {
+    case "transcripts": {
+      const config = loadConfig();
+      if (!config) {
+        console.error(s.error(getConfigProblem()));
+        process.exit(1);
+      }
+      const dryRun = args.includes("--dry-run");
+      let project: string | undefined;
+      let since: Date | undefined;
+      try {
+        project = flagValue(args, "--project");
+        since = parseSince(flagValue(args, "--since"));
+      } catch (error) {
+        console.error(s.error(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+
+      console.log("");
+      console.log(s.header(`Importing Claude Code transcripts${dryRun ? " (dry run)" : ""}`));
+      console.log(`  ${s.label("From")}:    ${s.path(getTranscriptsDir())}`);
+      if (project) console.log(`  ${s.label("Project")}: ${s.path(project)}`);
+      if (since) console.log(`  ${s.label("Since")}:   ${since.toISOString().slice(0, 10)}`);
+      console.log("");
+
+      const plan = planImport({ project, since });
+      const importable = plan.filter((t) => !t.skipped && t.messages.length > 0);
+      const skipped = plan.filter((t) => t.skipped);
+
+      // One line per project: transcripts, messages, date range
+      const byProject = new Map<string, TranscriptImport[]>();
+      for (const transcript of importable) {
+        byProject.set(transcript.cwd!, [...(byProject.get(transcript.cwd!) ?? []), transcript]);
+      }
+      for (const [cwd, transcripts] of byProject) {
+        const messages = transcripts.flatMap((t) => t.messages);
+        const users = messages.filter((msg) => msg.role === "user").length;
+        const dates = messages.map((msg) => msg.timestamp?.slice(0, 10)).filter(Boolean).sort();
+        const range = dates.length > 0 ? s.dim(` ${dates[0]} → ${dates[dates.length - 1]}`) : "";
+        console.log(`  ${s.path(cwd)}${range}`);
+        console.log(`    ${transcripts.length} transcripts, ${users} user / ${messages.length - users} assistant messages`);
+      }
+      const reasons = new Map<string, number>();
+      for (const transcript of skipped) reasons.set(transcript.skipped!, (reasons.get(transcript.skipped!) ?? 0) + 1);
+      for (const [reason, count] of reasons) {
+        console.log(s.dim(`  Skipped ${count} transcript${count === 1 ? "" : "s"}: ${reason}`));
+      }
+
+      const pending = dryRun ? [] : getPendingImports();
+      if (importable.length === 0 && pending.length === 0) {
+        console.log(s.dim("  Nothing new to import"));
+        console.log("");
+        break;
+      }
+      const messageCount = importable.reduce((sum, t) => sum + t.messages.length, 0);
+      if (dryRun) {
+        console.log("");
+        console.log(s.dim(`Would import ${messageCount} messages from ${importable.length} transcripts. Run without --dry-run to import.`));
+        console.log("");
+        break;
+      }
+
+      // Cursors move as each transcript is queued (including ones with nothing to upload)
+      const ids = new Set(pending);
+      for (const transcript of plan.filter((t) => !t.skipped)) {
+        for (const id of queueTranscript(transcript, config)) ids.add(id);
+      }
+      console.log("");
+      if (messageCount > 0) console.log(s.success(`Queued ${messageCount} messages from ${importable.length} transcripts`));
+      if (pending.length > 0) console.log(s.dim(`  ${pending.length} left from an earlier import`));
+
+      const result = await uploadImports(config, [...ids], ({ uploaded, total }) => {
+        const line = `  Uploaded ${uploaded}/${total}`;
+        if (process.stdout.isTTY) process.stdout.write(`\r${line}`);
+        else console.log(line);
+      });
+      if (process.stdout.isTTY) process.stdout.write("\n");
+
+      if (result.uploaded > 0) console.log(s.success(`Uploaded ${result.uploaded} messages`));
+      if (result.deadLettered > 0) console.log(s.error(`${result.deadLettered} moved to dead letter (see 'honcho-clawd queue')`));
+      const left = ids.size - result.uploaded - result.deadLettered;
+      if (left > 0) {
+        console.log(s.warn(`${left} still queued${result.offline ? " (Honcho unreachable)" : ""}`));
+        console.log(s.dim("Run 'honcho-clawd import transcripts' again to resume, or leave it to the hooks"));
+      }
+      console.log("");
+      break;
+    }
+
+    default:
+      console.log(`
+Import Commands:
+  honcho-clawd import transcripts              Upload past Claude Code sessions to Honcho
+    --project <dir>                            Only sessions run in this directory (or below)
+    --since <date>                             Only messages from this date on; older ones in the same
+                                               transcripts are never imported. Partly imported
+                                               transcripts are skipped (resume them without --since)
+    --dry-run                                  Show what would be imported
+`);
+  }
+}
+
 // ============================================
 // Tail Command - Live Activity Log
 // ============================================
@@ -1092,7 +2413,7 @@ async function handleTail(args: string[]): Promise<void> {
 async function handleEndpoint(subcommand: string, arg?: string): Promise<void> {
   const config = loadConfig();
   if (!config) {
-    console.error(s.error("Not configured. Run: honcho-clawd init"));
+    console.error(s.error(getConfigProblem()));
     process.exit(1);
   }
 
@@ -1177,12 +2498,27 @@ function showHelp(): void {
   console.log("");
   console.log(s.section("Commands"));
   console.log(`  ${s.highlight("init")}        Configure honcho-clawd (name, API key, workspace)`);
+  console.log(`  ${s.highlight("init --yes")}  Non-interactive: --peer, --workspace, --api-key-env, --endpoint, --from`);
   console.log(`  ${s.highlight("install")}     Install hooks to ~/.claude/settings.json`);
   console.log(`  ${s.highlight("uninstall")}   Remove hooks from Claude settings`);
   console.log(`  ${s.highlight("update")}      Rebuild and reinstall (removes lockfile, builds, links)`);
   console.log(`  ${s.highlight("status")}      Show current configuration and hook status`);
   console.log(`  ${s.highlight("help")}        Show this help message`);
   console.log("");
+  console.log(s.section("Config Commands"));
+  console.log(`  ${s.highlight("config")}                 List settings and where they come from`);
+  console.log(`  ${s.highlight("config get")} <key>       Show one setting (--json for JSON)`);
+  console.log(`  ${s.highlight("config set")} <key> <v>   Change a setting (e.g. contextRefresh.ttlSeconds 600)`);
+  console.log(`  ${s.highlight("config unset")} <key>     Revert a setting to its default`);
+  console.log(`  ${s.highlight("config edit")}            Edit config.json in $EDITOR`);
+  console.log(`  ${s.highlight("config validate")}        Check config files for mistakes`);
+  console.log("");
+  console.log(s.section("Secrets Commands"));
+  console.log(`  ${s.highlight("secrets")}                Show how API keys are stored`);
+  console.log(`  ${s.highlight("secrets set")} <key>      Store an API key encrypted`);
+  console.log(`  ${s.highlight("secrets rotate")}         Re-encrypt (--passphrase or --machine)`);
+  console.log(`  ${s.highlight("secrets migrate")}        Move plaintext keys out of config.json`);
+  console.log("");
   console.log(s.section("Session Commands"));
   console.log(`  ${s.highlight("session new")} [name]     Create/connect Honcho session`);
   console.log(`  ${s.highlight("session list")}           List all sessions`);
@@ -1195,6 +2531,12 @@ function showHelp(): void {
   console.log(`  ${s.highlight("workspace switch")} <n>   Switch to a different workspace`);
   console.log(`  ${s.highlight("workspace rename")} <n>   Create new workspace and switch to it`);
   console.log("");
+  console.log(s.section("Profile Commands"));
+  console.log(`  ${s.highlight("profile list")}           List profiles and the one active here`);
+  console.log(`  ${s.highlight("profile add")} <name>     Add a profile (--peer, --workspace, --path <glob>...)`);
+  console.log(`  ${s.highlight("profile use")} <name>     Set the default profile`);
+  console.log(`  ${s.highlight("profile remove")} <name>  Delete a profile`);
+  console.log("");
   console.log(s.section("Endpoint Commands"));
   console.log(`  ${s.highlight("endpoint")}               Show current endpoint (SaaS/local)`);
   console.log(`  ${s.highlight("endpoint saas")}          Switch to SaaS (api.honcho.dev)`);
@@ -1202,6 +2544,9 @@ function showHelp(): void {
   console.log(`  ${s.highlight("endpoint custom")} <url>  Use custom URL`);
   console.log(`  ${s.highlight("endpoint test")}          Test connection`);
   console.log("");
+  console.log(s.section("Import Commands"));
+  console.log(`  ${s.highlight("import transcripts")}     Upload past Claude Code sessions (--dry-run first)`);
+  console.log("");
   console.log(s.section("Peer Commands"));
   console.log(`  ${s.highlight("peer list")}              List all peers in workspace`);
   console.log("");
@@ -1213,6 +2558,15 @@ function showHelp(): void {
   console.log(`  ${s.highlight("tail")}                   Live activity log`);
   console.log(`  ${s.highlight("tail")} -a               All sessions`);
   console.log(`  ${s.highlight("tail")} clear            Clear log`);
+  console.log(`  ${s.highlight("queue")}                  Show pending and failed uploads`);
+  console.log(`  ${s.highlight("queue flush")}            Upload queued messages now`);
+  console.log(`  ${s.highlight("storage")}                Show storage backend (json/sqlite)`);
+  console.log(`  ${s.highlight("storage migrate")}        Move local state into SQLite`);
+  console.log(`  ${s.highlight("daemon start")}           Sync uploads and context in the background`);
+  console.log(`  ${s.highlight("daemon stop")}            Stop the background daemon`);
+  console.log(`  ${s.highlight("templates")}              Show context templates`);
+  console.log(`  ${s.highlight("templates init")}         Copy default templates for editing`);
+  console.log(`  ${s.highlight("redact test")} <text>     Preview secret/PII redaction`);
   console.log("");
   console.log(s.dim("Learn more: https://docs.honcho.dev"));
   console.log("");
@@ -1224,7 +2578,7 @@ const command = args[0];
 
 switch (command) {
   case "init":
-    await init();
+    await init(args.slice(1));
     break;
   case "install":
     install();
@@ -1278,6 +2632,33 @@ switch (command) {
   case "cache":
     handleCache(args[1]);
     break;
+  case "storage":
+    handleStorage(args[1]);
+    break;
+  case "queue":
+    await handleQueue(args.slice(1));
+    break;
+  case "daemon":
+    await handleDaemon(args[1]);
+    break;
+  case "templates":
+    handleTemplates(args.slice(1));
+    break;
+  case "redact":
+    await handleRedact(args.slice(1));
+    break;
+  case "config":
+    await handleConfig(args.slice(1));
+    break;
+  case "profile":
+    await handleProfile(args.slice(1));
+    break;
+  case "secrets":
+    await handleSecrets(args.slice(1));
+    break;
+  case "import":
+    await handleImport(args.slice(1));
+    break;
   // case "cerebras":
   // case "fast":
   //   await handleCerebras(args.slice(1));
@@ -0,0 +1,59 @@
+import { TEST_HOME } from "./test-setup.js";
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { checkUserConfig, getConfigPath, getEndpointInfo, getHonchoClientOptions, loadConfig } from "./config.js";
+import { CONFIG_VERSION } from "./schema.js";
+
+const BASE = { peerName: "alice", workspace: "ws", claudePeer: "clawd" };
+
+function writeConfig(config: Record<string, any>): void {
+  writeFileSync(getConfigPath(), JSON.stringify(config, null, 2));
+}
+
+function readConfig(): Record<string, any> {
+  return JSON.parse(readFileSync(getConfigPath(), "utf-8"));
+}
+
+afterEach(() => {
+  delete process.env.HONCHO_CLAWD_PROFILE;
+  for (const file of readdirSync(TEST_HOME)) {
+    if (file.startsWith("config.json") || file === "secrets.json") rmSync(join(TEST_HOME, file));
+  }
+});
+
+describe("config.json upgrade", () => {
+  test("stamps an unversioned config and keeps the original as a backup", () => {
+    writeConfig({ ...BASE, apiKey: "secret:apiKey" });
+    const check = checkUserConfig();
+    expect(check.migrated.map((m) => m.version)).toEqual([CONFIG_VERSION]);
+    expect(check.backupPath).toBe(`${getConfigPath()}.v0.bak`);
+    expect(existsSync(check.backupPath!)).toBe(true);
+    expect(readConfig()).toEqual({ ...BASE, apiKey: "secret:apiKey", configVersion: CONFIG_VERSION });
+  });
+
+  test("moves a plaintext API key into the secrets store", () => {
+    writeConfig({ ...BASE, apiKey: "hch-plaintext-key-1234", configVersion: CONFIG_VERSION });
+    const config = loadConfig()!;
+    expect(readConfig().apiKey).toBe("secret:apiKey");
+    expect(getHonchoClientOptions(config).apiKey).toBe("hch-plaintext-key-1234");
+  });
+});
+
+describe("profiles", () => {
+  test("a profile's endpoint replaces the user's whole", () => {
+    writeConfig({
+      ...BASE,
+      apiKey: "secret:apiKey",
+      configVersion: CONFIG_VERSION,
+      endpoint: { baseUrl: "https://honcho.example.com" },
+      profiles: { local: { endpoint: { environment: "local" }, workspace: "scratch" } },
+    });
+    expect(getEndpointInfo(loadConfig()!)).toEqual({ type: "custom", url: "https://honcho.example.com" });
+
+    process.env.HONCHO_CLAWD_PROFILE = "local";
+    const config = loadConfig()!;
+    expect(config).toMatchObject({ peerName: "alice", workspace: "scratch", endpoint: { environment: "local" } });
+    expect(getEndpointInfo(config)).toEqual({ type: "local", url: "http://localhost:8000" });
+  });
+});
@@ -1,6 +1,21 @@
 import { homedir } from "os";
-import { join } from "path";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, dirname, join, resolve } from "path";
+import { chmodSync, copyFileSync, existsSync, mkdirSync, readFileSync, statSync } from "fs";
+import { readJsonFile, writeJsonFileAtomic, withFileLock } from "./storage.js";
+import {
+  CONFIG_VERSION,
+  coerceValue,
+  dropInvalidValues,
+  formatIssue,
+  listSettings,
+  migrateConfig,
+  pickSchema,
+  validateConfig,
+  type ConfigIssue,
+  type ConfigMigration,
+} from "./schema.js";
+import { checkSecrets, extractSecrets, getSecretRefs, pruneSecrets, PASSPHRASE_ENV, resolveSecret, storeSecrets } from "./secrets.js";
+import type { ContextTemplate, TemplateName } from "./templates.js";
 
 export interface MessageUploadConfig {
   maxUserTokens?: number; // Truncate user messages to this many tokens (null = no limit)
@@ -12,12 +27,56 @@ export interface ContextRefreshConfig {
   messageThreshold?: number; // Refresh every N messages (default: 50)
   ttlSeconds?: number; // Cache TTL in seconds (default: 300)
   skipDialectic?: boolean; // Skip chat() calls in user-prompt (default: true, saves $0.03/call)
+  perInstance?: boolean; // Key the context cache by Claude instance as well as cwd (default: false)
 }
 
 export interface LocalContextConfig {
   maxEntries?: number; // Max entries in clawd-context.md (default: 50)
 }
 
+export interface OutboxConfig {
+  maxAttempts?: number; // Upload attempts before a message is dead-lettered (default: 8)
+  backoffBaseSeconds?: number; // First retry delay, doubled per attempt (default: 5)
+  backoffMaxSeconds?: number; // Cap on retry delay (default: 3600)
+}
+
+export interface ContextBudgetConfig {
+  maxTokens?: number; // Token budget for session-start context (default: 4000)
+}
+
+export interface RankingConfig {
+  enabled?: boolean; // Re-rank cached facts against each prompt (default: true)
+  embeddings?: boolean; // Blend in local hashed-trigram similarity, not just BM25 (default: true)
+  maxFacts?: number; // Facts injected per prompt (default: 5)
+  maxInsights?: number; // Deductive insights injected per prompt (default: 3)
+  minScore?: number; // 0..1 relevance below which a fact is left out (default: 0.1)
+}
+
+export interface RedactionConfig {
+  enabled?: boolean; // Redact secrets/PII before queueing uploads (default: true)
+  disabled?: string[]; // Built-in detectors to skip, e.g. ["email"]
+  patterns?: Record<string, string>; // Extra detectors: name -> regex source
+}
+
+export interface IgnoreConfig {
+  paths?: string[]; // Directory globs to opt out (e.g. "~/clients/**")
+  files?: string[]; // File globs never named in uploads, in every project
+  mode?: "local-only" | "skip"; // What opted-out directories do (default: "skip")
+}
+
+export interface OfflineConfig {
+  enabled?: boolean; // Fall back to cached memory when Honcho is unreachable (default: true)
+  probeTimeoutMs?: number; // Health probe timeout at session start (default: 1500)
+  failureThreshold?: number; // Consecutive failures that open the circuit breaker (default: 3)
+  cooldownSeconds?: number; // How long the circuit stays open before retrying (default: 60)
+}
+
+export type StorageBackend = "json" | "sqlite";
+
+export interface StorageConfig {
+  backend?: StorageBackend; // "json" files (default) or "sqlite" (~/.honcho-clawd/honcho-clawd.db)
+}
+
 export type HonchoEnvironment = "production" | "local";
 
 export interface HonchoEndpointConfig {
@@ -25,21 +84,115 @@ export interface HonchoEndpointConfig {
   baseUrl?: string; // Custom URL override (takes precedence over environment)
 }
 
+// "json": hookSpecificOutput.additionalContext, art on the terminal only
+// "text": legacy plain text (and art) on stdout
+export type HookOutputFormat = "json" | "text";
+
 export interface HonchoCLAWDConfig {
+  configVersion?: number; // Layout version, upgraded automatically (see schema.ts)
   peerName: string; // The user's peer name
   apiKey: string; // Honcho API key
   workspace: string; // Honcho workspace name
   claudePeer: string; // Claude's peer name (default: "clawd")
+  cerebrasKey?: string; // Cerebras API key for the (disabled) cerebras skill
   sessions?: Record<string, string>; // Map of directory path -> session name
   saveMessages?: boolean; // Save messages to Honcho (default: true)
+  hookOutput?: HookOutputFormat; // How session-start/pre-compact hand context to Claude (default: "json")
   messageUpload?: MessageUploadConfig; // Token-based upload limits (default: no limits)
   contextRefresh?: ContextRefreshConfig; // Context retrieval settings
   endpoint?: HonchoEndpointConfig; // SaaS vs local instance config
   localContext?: LocalContextConfig; // Local clawd-context.md settings
+  storage?: StorageConfig; // Local state backend
+  outbox?: OutboxConfig; // Upload retry settings
+  offline?: OfflineConfig; // Offline mode / circuit breaker settings
+  contextBudget?: ContextBudgetConfig; // Size limit for injected context
+  ranking?: RankingConfig; // Local relevance ranking in user-prompt
+  redaction?: RedactionConfig; // Secret/PII stripping for uploads
+  ignore?: IgnoreConfig; // Global opt-outs (see also .honchoignore)
+  session?: string; // Session name for this project (from .honcho-clawd.json or env)
+  profile?: string; // Default profile when no profiles.*.paths rule matches
+  profiles?: Record<string, ProfileConfig>; // Named identities (work, personal...)
+  templates?: Partial<Record<TemplateName, Partial<ContextTemplate>>>; // Per-project template overrides
+}
+
+// A named identity: its fields replace the top-level ones while it's active
+export interface ProfileConfig {
+  peerName?: string;
+  claudePeer?: string;
+  workspace?: string;
+  apiKey?: string;
+  endpoint?: HonchoEndpointConfig;
+  paths?: string[]; // Directory globs that select this profile (e.g. "~/work/**")
+}
+
+// What a committed .honcho-clawd.json may set - never credentials or endpoints
+export interface ProjectConfig {
+  session?: string;
+  workspace?: string;
+  contextRefresh?: ContextRefreshConfig;
+  messageUpload?: MessageUploadConfig;
+  ignore?: IgnoreConfig;
+  templates?: Partial<Record<TemplateName, Partial<ContextTemplate>>>;
+}
+
+export interface ConfigCheck {
+  path: string;
+  exists: boolean;
+  parseError?: string; // JSON syntax error, with position
+  issues: ConfigIssue[];
+  usable: boolean; // False when loadConfig() would return null
+  migrated: ConfigMigration[]; // Applied while loading
+  backupPath?: string; // Copy of the file from before migration
+}
+
+export type ConfigSource = "env" | "project" | "profile" | "user" | "default";
+
+export interface ConfigValue {
+  key: string; // Dotted path, e.g. "contextRefresh.ttlSeconds"
+  value: unknown;
+  source: ConfigSource;
 }
 
-const CONFIG_DIR = join(homedir(), ".honcho-clawd");
+// HONCHO_CLAWD_HOME relocates all state (config, caches, logs, queue) for CI and containers
+const CONFIG_DIR = process.env.HONCHO_CLAWD_HOME
+  ? resolve(process.env.HONCHO_CLAWD_HOME.replace(/^~(?=$|\/)/, homedir()))
+  : join(homedir(), ".honcho-clawd");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+export const PROJECT_CONFIG_FILE = ".honcho-clawd.json";
+
+const PROJECT_CONFIG_KEYS: Array<keyof ProjectConfig> = [
+  "session",
+  "workspace",
+  "contextRefresh",
+  "messageUpload",
+  "ignore",
+  "templates",
+];
+
+// Every setting can be overridden by HONCHO_CLAWD_<PATH>, e.g.
+// contextRefresh.ttlSeconds -> HONCHO_CLAWD_CONTEXT_REFRESH_TTL_SECONDS
+const ENV_PREFIX = "HONCHO_CLAWD_";
+// Read directly rather than as settings
+const ENV_RESERVED = new Set(["HONCHO_CLAWD_HOME", PASSPHRASE_ENV]);
+const REQUIRED_KEYS = ["peerName", "apiKey", "workspace"] as const;
+
+// Replaced whole by a layer that sets them, never merged key by key:
+// a profile's { environment: "local" } mustn't keep the user's baseUrl
+const REPLACED_KEYS = new Set(["endpoint"]);
+// Shown as a single value in `status` rather than expanded
+const OPAQUE_KEYS = new Set(["sessions", "templates"]);
+
+// Directory whose .honcho-clawd.json applies; hooks set it from their input
+let projectDir: string | null = null;
+
+// Result of the last config.json read, for error messages
+let lastCheck: ConfigCheck | null = null;
+
+type UserConfigCheck = ConfigCheck & { config: HonchoCLAWDConfig | null };
+// Parsed config.json, reused until the file changes (a hook reads it dozens of times)
+let userConfigCache: { stamp: string; result: UserConfigCheck } | null = null;
+// Plaintext keys are moved to the secrets store at most once per process
+let secretsMigrationTried = false;
 
 export function getConfigDir(): string {
   return CONFIG_DIR;
@@ -53,23 +206,432 @@ export function configExists(): boolean {
   return existsSync(CONFIG_FILE);
 }
 
-export function loadConfig(): HonchoCLAWDConfig | null {
-  if (!configExists()) {
-    return null;
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
+
+/**
+ * Does the directory glob match dir or one of its parents?
+ */
+export function matchesDirectory(pattern: string, dir: string): boolean {
+  const glob = new Bun.Glob(expandHome(pattern).replace(/\/+$/, ""));
+  let current = resolve(dir);
+  while (true) {
+    if (glob.match(current)) return true;
+    const parent = dirname(current);
+    if (parent === current) return false;
+    current = parent;
+  }
+}
+
+/**
+ * Which project's .honcho-clawd.json applies (default: process.cwd())
+ */
+export function setProjectDir(dir: string): void {
+  projectDir = dir;
+}
+
+/**
+ * Nearest .honcho-clawd.json in dir or one of its parents
+ */
+export function findProjectConfig(dir: string = projectDir ?? process.cwd()): string | null {
+  let current = resolve(dir);
+  while (true) {
+    const candidate = join(current, PROJECT_CONFIG_FILE);
+    if (existsSync(candidate)) return candidate;
+    const parent = dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+}
+
+/**
+ * The project file's allowed keys; anything else in it, and any invalid value, is ignored
+ */
+export function loadProjectConfig(dir?: string): ProjectConfig | null {
+  const path = findProjectConfig(dir);
+  if (!path) return null;
+  const raw = readJsonFile<Record<string, any> | null>(path, null, { quarantine: false });
+  if (!raw || typeof raw !== "object") return null;
+  const project: Record<string, any> = {};
+  for (const key of PROJECT_CONFIG_KEYS) {
+    if (raw[key] !== undefined) project[key] = structuredClone(raw[key]);
   }
+  dropInvalidValues(project, validateConfig(project, pickSchema(PROJECT_CONFIG_KEYS)));
+  return project as ProjectConfig;
+}
+
+/**
+ * Problems in the nearest .honcho-clawd.json (for `honcho-clawd config validate`)
+ */
+export function checkProjectConfig(dir?: string): ConfigCheck | null {
+  const path = findProjectConfig(dir);
+  if (!path) return null;
+  const check: ConfigCheck = { path, exists: true, issues: [], usable: true, migrated: [] };
   try {
-    const content = readFileSync(CONFIG_FILE, "utf-8");
-    return JSON.parse(content) as HonchoCLAWDConfig;
+    const raw = JSON.parse(readFileSync(path, "utf-8"));
+    check.issues = validateConfig(raw, pickSchema(PROJECT_CONFIG_KEYS)).map((issue) =>
+      issue.severity === "warning" && issue.path.length === 1
+        ? { ...issue, message: `not allowed in ${PROJECT_CONFIG_FILE} (only ${PROJECT_CONFIG_KEYS.join(", ")}), ignored` }
+        : issue
+    );
+  } catch (error) {
+    check.parseError = error instanceof Error ? error.message : String(error);
+    check.usable = false;
+  }
+  return check;
+}
+
+export function getEnvVarName(key: string): string {
+  return ENV_PREFIX + key.split(".").map((part) => part.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase()).join("_");
+}
+
+/**
+ * HONCHO_CLAWD_* variables converted to config values. Values that don't
+ * convert or validate are skipped and reported as issues.
+ */
+function readEnvOverrides(): { config: Partial<HonchoCLAWDConfig>; issues: ConfigIssue[] } {
+  const config: Record<string, any> = {};
+  const issues: ConfigIssue[] = [];
+  const known = new Set<string>();
+
+  for (const { path, node } of listSettings()) {
+    if (path[0] === "configVersion") continue;
+    const name = getEnvVarName(path.join("."));
+    known.add(name);
+    const raw = process.env[name];
+    if (raw === undefined || raw === "") continue;
+    try {
+      const value = coerceValue(node, raw);
+      const problems = validateConfig(value, node).filter((issue) => issue.severity === "error");
+      if (problems.length > 0) throw new Error(problems[0].message);
+      let parent = config;
+      for (const key of path.slice(0, -1)) parent = parent[key] ??= {};
+      parent[path[path.length - 1]] = value;
+    } catch (error) {
+      issues.push({ path: [name], message: `${error instanceof Error ? error.message : error}, ignored`, severity: "error" });
+    }
+  }
+
+  for (const name of Object.keys(process.env)) {
+    if (name.startsWith(ENV_PREFIX) && !known.has(name) && !ENV_RESERVED.has(name)) {
+      issues.push({ path: [name], message: "not a honcho-clawd setting, ignored", severity: "warning" });
+    }
+  }
+  return { config: config as Partial<HonchoCLAWDConfig>, issues };
+}
+
+function getEnvConfig(): Partial<HonchoCLAWDConfig> {
+  return readEnvOverrides().config;
+}
+
+/**
+ * Problems with HONCHO_CLAWD_* variables (for `honcho-clawd config validate`)
+ */
+export function checkEnvConfig(): ConfigCheck | null {
+  const names = Object.keys(process.env).filter((name) => name.startsWith(ENV_PREFIX));
+  if (names.length === 0) return null;
+  const { issues } = readEnvOverrides();
+  return { path: names.sort().join(", "), exists: true, issues, usable: true, migrated: [] };
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Objects merge key by key (except REPLACED_KEYS); anything else (arrays included) is replaced
+ */
+function mergeConfig<T>(base: T, override: Record<string, any>, prefix = ""): T {
+  const result: Record<string, any> = { ...(base as Record<string, any>) };
+  for (const [key, value] of Object.entries(override)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const merge = isPlainObject(value) && isPlainObject(result[key]) && !REPLACED_KEYS.has(path);
+    result[key] = merge ? mergeConfig(result[key], value, path) : value;
+  }
+  return result as T;
+}
+
+function flattenConfig(value: Record<string, any>, prefix = ""): Array<[string, unknown]> {
+  return Object.entries(value).flatMap(([key, item]): Array<[string, unknown]> => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return isPlainObject(item) && !OPAQUE_KEYS.has(path) ? flattenConfig(item, path) : [[path, item]];
+  });
+}
+
+/**
+ * Write config.json (0600) with plaintext keys moved to the secrets store.
+ * If the store can't be unlocked, keys stay where they are rather than being lost.
+ */
+function writeUserConfig(config: Record<string, any>): void {
+  const { config: withRefs, secrets } = extractSecrets(config);
+  let content = config;
+  if (Object.keys(secrets).length > 0) {
+    try {
+      storeSecrets(secrets);
+      content = withRefs;
+    } catch {
+      // Reported by checkUserConfig as a plaintext key
+    }
+  }
+  writeJsonFileAtomic(CONFIG_FILE, content, 0o600);
+  userConfigCache = null;
+  pruneSecrets(getSecretRefs(content));
+}
+
+/**
+ * Move plaintext keys out of config.json. Returns the settings moved.
+ */
+export function migrateSecrets(): string[] {
+  if (!configExists()) return [];
+  return withFileLock(CONFIG_FILE, () => {
+    const raw = readJsonFile<Record<string, any> | null>(CONFIG_FILE, null, { quarantine: false });
+    if (!raw || typeof raw !== "object") return [];
+    const names = Object.keys(extractSecrets(raw).secrets);
+    if (names.length === 0) return [];
+    writeUserConfig(raw);
+    const after = readJsonFile<Record<string, any> | null>(CONFIG_FILE, null, { quarantine: false });
+    const left = Object.keys(extractSecrets(after ?? {}).secrets);
+    return names.filter((name) => !left.includes(name));
+  });
+}
+
+/**
+ * Upgrade an older config.json in place, keeping the original as config.json.v<N>.bak
+ */
+function upgradeUserConfig(check: ConfigCheck): void {
+  withFileLock(CONFIG_FILE, () => {
+    // Re-read under the lock: another hook may have upgraded it already
+    const raw = readJsonFile<Record<string, any> | null>(CONFIG_FILE, null, { quarantine: false });
+    if (!raw || typeof raw !== "object") return;
+    const from = typeof raw.configVersion === "number" ? raw.configVersion : 0;
+    const { config, applied } = migrateConfig(raw);
+    if (applied.length === 0) return;
+
+    const backupPath = `${CONFIG_FILE}.v${from}.bak`;
+    if (!existsSync(backupPath)) {
+      copyFileSync(CONFIG_FILE, backupPath);
+      chmodSync(backupPath, 0o600);
+    }
+    writeUserConfig(config);
+    check.migrated = applied;
+    check.backupPath = backupPath;
+  });
+}
+
+function getConfigStamp(): string {
+  try {
+    const { mtimeMs, size } = statSync(CONFIG_FILE);
+    return `${mtimeMs}:${size}`;
   } catch {
-    return null;
+    return "";
+  }
+}
+
+/**
+ * Parse, migrate and validate config.json. Invalid optional values are
+ * dropped from `config` so their defaults apply. The result is cached
+ * until config.json is written or changes on disk.
+ */
+export function checkUserConfig(): UserConfigCheck {
+  if (userConfigCache?.stamp !== getConfigStamp()) {
+    const result = parseUserConfig();
+    // Stamped after parsing: an upgrade or secrets migration may have rewritten the file
+    userConfigCache = { stamp: getConfigStamp(), result };
+  }
+  // Migrations hold functions, which can't be cloned (and are never changed)
+  const { migrated, ...result } = userConfigCache.result;
+  return { ...structuredClone(result), migrated: [...migrated] };
+}
+
+function parseUserConfig(): UserConfigCheck {
+  const check: ConfigCheck = { path: CONFIG_FILE, exists: configExists(), issues: [], usable: false, migrated: [] };
+  if (!check.exists) return { ...check, config: null };
+
+  const parse = () => JSON.parse(readFileSync(CONFIG_FILE, "utf-8"));
+  let raw: any;
+  try {
+    raw = parse();
+    if (raw && typeof raw === "object" && !(raw.configVersion >= CONFIG_VERSION)) {
+      upgradeUserConfig(check);
+      if (check.migrated.length > 0) raw = parse();
+    }
+    // Keys still in plaintext (older config, hand edit) move to the secrets store,
+    // tried once per process and only while the store can be unlocked
+    if (!secretsMigrationTried && raw && typeof raw === "object" && Object.keys(extractSecrets(raw).secrets).length > 0) {
+      secretsMigrationTried = true;
+      if (checkSecrets() === null && migrateSecrets().length > 0) raw = parse();
+    }
+  } catch (error) {
+    // config.json is hand-edited, so a parse error is left in place for the user to fix
+    check.parseError = error instanceof Error ? error.message : String(error);
+    return { ...check, config: null };
+  }
+
+  check.issues = validateConfig(raw);
+  if (typeof raw?.profile === "string" && !raw.profiles?.[raw.profile]) {
+    check.issues.push({ path: ["profile"], message: `no profile named "${raw.profile}", ignored`, severity: "warning" });
+  }
+  if (raw && typeof raw === "object") {
+    for (const name of Object.keys(extractSecrets(raw).secrets)) {
+      check.issues.push({ path: name.split("."), message: "stored in plaintext (run: honcho-clawd secrets migrate)", severity: "warning" });
+    }
+  }
+  check.usable = raw && typeof raw === "object" ? dropInvalidValues(raw, check.issues) : false;
+  return { ...check, config: check.usable ? (raw as HonchoCLAWDConfig) : null };
+}
+
+function readUserConfig(): HonchoCLAWDConfig | null {
+  const { config, ...check } = checkUserConfig();
+  lastCheck = check;
+  return config;
+}
+
+/**
+ * Why loadConfig() returned null, phrased for the user
+ */
+export function getConfigProblem(): string {
+  const check = lastCheck ?? checkUserConfig();
+  if (!check.exists) {
+    const env = REQUIRED_KEYS.map(getEnvVarName).join(", ");
+    return `Not configured. Run: honcho-clawd init (or set ${env})`;
+  }
+  const detail = check.parseError ?? check.issues.filter((issue) => issue.severity === "error").map(formatIssue).join("; ");
+  return `Invalid config (${check.path}): ${detail}. Run: honcho-clawd config validate`;
+}
+
+/**
+ * Profile in effect for dir: HONCHO_CLAWD_PROFILE, else the first profile
+ * whose paths match, else the default from `profile use`. Null without profiles.
+ */
+export function getActiveProfile(dir: string = projectDir ?? process.cwd()): string | null {
+  const user = readUserConfig();
+  const profiles = user?.profiles ?? {};
+  const fromEnv = getEnvConfig().profile;
+  if (fromEnv && profiles[fromEnv]) return fromEnv;
+  for (const [name, profile] of Object.entries(profiles)) {
+    if ((profile.paths ?? []).some((pattern) => matchesDirectory(pattern, dir))) return name;
+  }
+  return user?.profile && profiles[user.profile] ? user.profile : null;
+}
+
+function getProfileConfig(dir?: string): Partial<HonchoCLAWDConfig> {
+  const name = getActiveProfile(dir);
+  if (!name) return {};
+  const { paths: _paths, ...profile } = readUserConfig()?.profiles?.[name] ?? {};
+  return profile;
+}
+
+/**
+ * Effective config: env > project (.honcho-clawd.json) > profile > user (config.json).
+ * Defaults are applied by the get*Config() helpers below.
+ * Returns null until `honcho-clawd init` has written config.json.
+ */
+export function loadConfig(dir?: string): HonchoCLAWDConfig | null {
+  const user = readUserConfig();
+  const env = getEnvConfig();
+  // Without config.json, the environment alone can configure honcho-clawd (CI, containers)
+  if (!user && !REQUIRED_KEYS.every((key) => env[key])) return null;
+  const base = { claudePeer: "clawd", ...(user ?? {}) } as HonchoCLAWDConfig;
+  const withProfile = mergeConfig(base, getProfileConfig(dir));
+  return mergeConfig(mergeConfig(withProfile, loadProjectConfig(dir) ?? {}), env);
+}
+
+/**
+ * Change one setting in config.json (never the project or env layers)
+ */
+export function setConfigValue(path: string[], value: unknown): HonchoCLAWDConfig | null {
+  return updateConfig((config) => {
+    let parent: Record<string, any> = config;
+    for (const key of path.slice(0, -1)) {
+      if (!isPlainObject(parent[key])) parent[key] = {};
+      parent = parent[key];
+    }
+    parent[path[path.length - 1]] = value;
+  });
+}
+
+/**
+ * Remove one setting from config.json so its default applies.
+ * Returns false if it wasn't set. Objects left empty are removed too.
+ */
+export function unsetConfigValue(path: string[]): boolean {
+  let removed = false;
+  updateConfig((config) => {
+    const parents: Array<Record<string, any>> = [config];
+    for (const key of path.slice(0, -1)) {
+      const next = parents[parents.length - 1][key];
+      if (!isPlainObject(next)) return;
+      parents.push(next);
+    }
+    const last = path[path.length - 1];
+    if (!(last in parents[parents.length - 1])) return;
+    delete parents[parents.length - 1][last];
+    removed = true;
+    for (let i = parents.length - 1; i > 0; i--) {
+      if (Object.keys(parents[i]).length > 0) break;
+      delete parents[i - 1][path[i - 1]];
+    }
+  });
+  return removed;
+}
+
+/**
+ * Every effective setting with the layer it came from, for `honcho-clawd status`
+ * and `honcho-clawd config list`
+ */
+export function describeConfig(dir?: string): ConfigValue[] {
+  const config = loadConfig(dir);
+  if (!config) return [];
+  const sources = new Map<string, ConfigSource>();
+  const layers: Array<[ConfigSource, Record<string, any>]> = [
+    ["user", readUserConfig() ?? {}],
+    ["profile", getProfileConfig(dir)],
+    ["project", loadProjectConfig(dir) ?? {}],
+    ["env", getEnvConfig()],
+  ];
+  for (const [source, layer] of layers) {
+    for (const [key] of flattenConfig(layer)) sources.set(key, source);
   }
+
+  const withDefaults = mergeConfig(
+    {
+      contextRefresh: getContextRefreshConfig(),
+      messageUpload: getMessageUploadConfig(),
+      localContext: getLocalContextConfig(),
+      contextBudget: getContextBudgetConfig(),
+      ranking: getRankingConfig(),
+      offline: getOfflineConfig(),
+      outbox: getOutboxConfig(),
+      hookOutput: getHookOutputFormat(),
+    },
+    config
+  );
+  return flattenConfig(withDefaults)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value, source: sources.get(key) ?? ("default" as ConfigSource) }))
+    .sort((a, b) => a.key.localeCompare(b.key));
 }
 
 export function saveConfig(config: HonchoCLAWDConfig): void {
   if (!existsSync(CONFIG_DIR)) {
     mkdirSync(CONFIG_DIR, { recursive: true });
   }
-  writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+  withFileLock(CONFIG_FILE, () => writeUserConfig({ configVersion: CONFIG_VERSION, ...config }));
+}
+
+/**
+ * Locked read-modify-write of the config. No-op if not configured.
+ */
+export function updateConfig(mutate: (config: HonchoCLAWDConfig) => void): HonchoCLAWDConfig | null {
+  if (!configExists()) return null;
+  return withFileLock(CONFIG_FILE, () => {
+    const config = readJsonFile<HonchoCLAWDConfig | null>(CONFIG_FILE, null, { quarantine: false });
+    if (!config) return null;
+    mutate(config);
+    writeUserConfig(config);
+    return config;
+  });
 }
 
 export function getClaudeSettingsPath(): string {
@@ -81,21 +643,29 @@ export function getClaudeSettingsDir(): string {
 }
 
 // Session management helpers
+// The project's session (.honcho-clawd.json / env) wins over the user's per-directory mapping
 export function getSessionForPath(cwd: string): string | null {
-  const config = loadConfig();
+  const config = loadConfig(cwd);
+  if (config?.session) return config.session;
   if (!config?.sessions) return null;
   return config.sessions[cwd] || null;
 }
 
-export function setSessionForPath(cwd: string, sessionName: string): void {
-  const config = loadConfig();
-  if (!config) return;
+/**
+ * The Honcho session a directory's messages go to: its configured session,
+ * else the directory name
+ */
+export function getSessionName(cwd: string): string {
+  return getSessionForPath(cwd) || basename(cwd).toLowerCase().replace(/[^a-z0-9-_]/g, "-");
+}
 
-  if (!config.sessions) {
-    config.sessions = {};
-  }
-  config.sessions[cwd] = sessionName;
-  saveConfig(config);
+export function setSessionForPath(cwd: string, sessionName: string): void {
+  updateConfig((config) => {
+    if (!config.sessions) {
+      config.sessions = {};
+    }
+    config.sessions[cwd] = sessionName;
+  });
 }
 
 export function getAllSessions(): Record<string, string> {
@@ -104,11 +674,11 @@ export function getAllSessions(): Record<string, string> {
 }
 
 export function removeSessionForPath(cwd: string): void {
-  const config = loadConfig();
-  if (!config?.sessions) return;
-
-  delete config.sessions[cwd];
-  saveConfig(config);
+  updateConfig((config) => {
+    if (config.sessions) {
+      delete config.sessions[cwd];
+    }
+  });
 }
 
 // Config helpers with defaults
@@ -127,6 +697,7 @@ export function getContextRefreshConfig(): ContextRefreshConfig {
     messageThreshold: config?.contextRefresh?.messageThreshold ?? 30, // Every 30 messages
     ttlSeconds: config?.contextRefresh?.ttlSeconds ?? 300, // 5 minutes
     skipDialectic: config?.contextRefresh?.skipDialectic ?? true, // Skip by default to save $0.03/call
+    perInstance: config?.contextRefresh?.perInstance ?? false, // Share context across instances in the same cwd
   };
 }
 
@@ -137,6 +708,72 @@ export function getLocalContextConfig(): LocalContextConfig {
   };
 }
 
+export function getStorageConfig(): StorageConfig {
+  const config = loadConfig();
+  return {
+    backend: config?.storage?.backend ?? "json", // JSON files by default
+  };
+}
+
+export function getOutboxConfig(): OutboxConfig {
+  const config = loadConfig();
+  return {
+    maxAttempts: config?.outbox?.maxAttempts ?? 8,
+    backoffBaseSeconds: config?.outbox?.backoffBaseSeconds ?? 5,
+    backoffMaxSeconds: config?.outbox?.backoffMaxSeconds ?? 3600, // 1 hour
+  };
+}
+
+export function getOfflineConfig(): OfflineConfig {
+  const config = loadConfig();
+  return {
+    enabled: config?.offline?.enabled ?? true,
+    probeTimeoutMs: config?.offline?.probeTimeoutMs ?? 1500,
+    failureThreshold: config?.offline?.failureThreshold ?? 3,
+    cooldownSeconds: config?.offline?.cooldownSeconds ?? 60,
+  };
+}
+
+export function getContextBudgetConfig(): ContextBudgetConfig {
+  const config = loadConfig();
+  return {
+    maxTokens: config?.contextBudget?.maxTokens ?? 4000,
+  };
+}
+
+export function getRankingConfig(): RankingConfig {
+  const config = loadConfig();
+  return {
+    enabled: config?.ranking?.enabled ?? true,
+    embeddings: config?.ranking?.embeddings ?? true,
+    maxFacts: config?.ranking?.maxFacts ?? 5,
+    maxInsights: config?.ranking?.maxInsights ?? 3,
+    minScore: config?.ranking?.minScore ?? 0.1,
+  };
+}
+
+export function getRedactionConfig(): RedactionConfig {
+  const config = loadConfig();
+  return {
+    enabled: config?.redaction?.enabled ?? true,
+    disabled: config?.redaction?.disabled ?? [],
+    patterns: config?.redaction?.patterns ?? {},
+  };
+}
+
+export function getIgnoreConfig(dir?: string): IgnoreConfig {
+  const config = loadConfig(dir);
+  return {
+    paths: config?.ignore?.paths ?? [],
+    files: config?.ignore?.files ?? [],
+    mode: config?.ignore?.mode ?? "skip",
+  };
+}
+
+export function getHookOutputFormat(): HookOutputFormat {
+  return loadConfig()?.hookOutput ?? "json";
+}
+
 // Simple token estimation (chars / 4)
 export function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4);
@@ -163,19 +800,23 @@ export interface HonchoClientOptions {
 
 /**
  * Get Honcho client options based on config.
+ * HONCHO_CLAWD_API_KEY / HONCHO_CLAWD_ENDPOINT_* apply even to configs not from loadConfig().
+ * A stored key ("secret:apiKey") is decrypted here; this throws if that fails.
  * Priority: baseUrl > environment > "production" (default)
  */
 export function getHonchoClientOptions(config: HonchoCLAWDConfig): HonchoClientOptions {
+  const env = getEnvConfig();
+  const endpoint = getEffectiveEndpoint(config);
   const options: HonchoClientOptions = {
-    apiKey: config.apiKey,
+    apiKey: env.apiKey ?? resolveSecret(config.apiKey),
   };
 
-  if (config.endpoint?.baseUrl) {
+  if (endpoint.baseUrl) {
     // Custom URL takes precedence
-    options.baseURL = config.endpoint.baseUrl;
-  } else if (config.endpoint?.environment) {
+    options.baseURL = endpoint.baseUrl;
+  } else if (endpoint.environment) {
     // Use configured environment
-    options.environment = config.endpoint.environment;
+    options.environment = endpoint.environment;
   } else {
     // Default to production (SaaS)
     options.environment = "production";
@@ -185,13 +826,21 @@ export function getHonchoClientOptions(config: HonchoCLAWDConfig): HonchoClientO
 }
 
 /**
- * Get current endpoint display info
+ * The endpoint in effect: HONCHO_CLAWD_ENDPOINT_* replaces the config's, like any other layer
+ */
+function getEffectiveEndpoint(config: HonchoCLAWDConfig): HonchoEndpointConfig {
+  return getEnvConfig().endpoint ?? config.endpoint ?? {};
+}
+
+/**
+ * Get current endpoint display info (the endpoint getHonchoClientOptions connects to)
  */
 export function getEndpointInfo(config: HonchoCLAWDConfig): { type: string; url: string } {
-  if (config.endpoint?.baseUrl) {
-    return { type: "custom", url: config.endpoint.baseUrl };
+  const endpoint = getEffectiveEndpoint(config);
+  if (endpoint.baseUrl) {
+    return { type: "custom", url: endpoint.baseUrl };
   }
-  if (config.endpoint?.environment === "local") {
+  if (endpoint.environment === "local") {
     return { type: "local", url: "http://localhost:8000" };
   }
   return { type: "production", url: "https://api.honcho.dev" };
@@ -204,12 +853,10 @@ export function setEndpoint(
   environment?: HonchoEnvironment,
   baseUrl?: string
 ): void {
-  const config = loadConfig();
-  if (!config) return;
-
-  config.endpoint = {
-    environment,
-    baseUrl,
-  };
-  saveConfig(config);
+  updateConfig((config) => {
+    config.endpoint = {
+      environment,
+      baseUrl,
+    };
+  });
 }
@@ -0,0 +1,328 @@
+/**
+ * Background sync daemon (optional)
+ *
+ * `honcho-clawd daemon start` runs a long-lived process listening on
+ * ~/.honcho-clawd/daemon.sock. It keeps Honcho clients warm, drains the
+ * outbox in the background and re-fetches peer context when a watched
+ * directory's git state changes, so the next user-prompt hits a warm cache.
+ *
+ * Hooks talk to it with requestFlush() / watchSession(). When no daemon
+ * answers they fall back to uploading directly, as before.
+ *
+ * Protocol: one JSON line per connection each way.
+ */
+
+import { join } from "path";
+import { existsSync, readFileSync, unlinkSync } from "fs";
+import { loadConfig, getConfigDir, getConfigProblem, type HonchoCLAWDConfig } from "./config.js";
+import {
+  getCachedWorkspaceId,
+  getCachedPeerId,
+  setCachedUserContext,
+  setCachedClawdContext,
+  type GitState,
+} from "./cache.js";
+import { flushOutbox, getHonchoClient, type FlushOptions, type FlushResult } from "./outbox.js";
+import { captureGitState } from "./git.js";
+import { writeFileAtomic } from "./storage.js";
+import { isCircuitOpen, recordOutcome } from "./health.js";
+import { logFlow, logApiCall } from "./log.js";
+
+const CACHE_DIR = getConfigDir();
+const DAEMON_SOCKET = join(CACHE_DIR, "daemon.sock");
+const DAEMON_PID_FILE = join(CACHE_DIR, "daemon.pid");
+
+// Hooks give up on the daemon quickly and upload directly instead
+const REQUEST_TIMEOUT_MS = 500;
+const DRAIN_INTERVAL_MS = 5 * 1000;
+const GIT_POLL_INTERVAL_MS = 15 * 1000;
+// Directories not touched by a hook for this long stop being watched
+const WATCH_EXPIRY_MS = 6 * 60 * 60 * 1000;
+
+export type DaemonRequest =
+  | { type: "ping" }
+  | { type: "flush"; cwd?: string; force?: boolean }
+  | { type: "watch"; cwd: string; contextKey: string; sessionName: string }
+  | { type: "stop" };
+
+export interface DaemonStatus {
+  pid: number;
+  startedAt: string;
+  watched: string[]; // Session names being watched for git changes
+  uploaded: number; // Messages uploaded since start
+  lastFlushAt?: string;
+  lastPrefetchAt?: string;
+}
+
+export interface DaemonResponse {
+  ok: boolean;
+  error?: string;
+  status?: DaemonStatus;
+}
+
+interface WatchedSession {
+  cwd: string;
+  contextKey: string;
+  sessionName: string;
+  gitState: GitState | null;
+  touchedAt: number;
+}
+
+export function getDaemonSocketPath(): string {
+  return DAEMON_SOCKET;
+}
+
+export function getDaemonPid(): number | null {
+  if (!existsSync(DAEMON_PID_FILE)) return null;
+  try {
+    const pid = parseInt(readFileSync(DAEMON_PID_FILE, "utf-8").trim());
+    return Number.isNaN(pid) ? null : pid;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// Client - used by hooks and the CLI
+// ============================================
+
+/**
+ * Send one request to the daemon. Returns null if no daemon is listening
+ * or it doesn't answer within timeoutMs.
+ */
+export async function sendDaemonRequest(request: DaemonRequest, timeoutMs = REQUEST_TIMEOUT_MS): Promise<DaemonResponse | null> {
+  if (!existsSync(DAEMON_SOCKET)) return null;
+
+  return new Promise((resolve) => {
+    let buffer = "";
+    let settled = false;
+    const finish = (response: DaemonResponse | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(response);
+    };
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    Bun.connect({
+      unix: DAEMON_SOCKET,
+      socket: {
+        open(socket) {
+          socket.write(JSON.stringify(request) + "\n");
+        },
+        data(socket, data) {
+          buffer += data.toString();
+          const newline = buffer.indexOf("\n");
+          if (newline === -1) return;
+          try {
+            finish(JSON.parse(buffer.slice(0, newline)));
+          } catch {
+            finish(null);
+          }
+          socket.end();
+        },
+        close() {
+          finish(null);
+        },
+        error() {
+          finish(null);
+        },
+        connectError() {
+          finish(null);
+        },
+      },
+    }).catch(() => finish(null));
+  });
+}
+
+/**
+ * Upload queued messages: hand off to the daemon if one is running,
+ * otherwise flush in this process. Returns null when handed off.
+ */
+export async function requestFlush(config: HonchoCLAWDConfig, options: FlushOptions = {}): Promise<FlushResult | null> {
+  const response = await sendDaemonRequest({ type: "flush", cwd: options.cwd, force: options.force });
+  if (response?.ok) return null;
+  return flushOutbox(config, options);
+}
+
+/**
+ * Ask the daemon (if running) to prefetch context for this session when git changes
+ */
+export async function watchSession(cwd: string, contextKey: string, sessionName: string): Promise<void> {
+  await sendDaemonRequest({ type: "watch", cwd, contextKey, sessionName });
+}
+
+// ============================================
+// Server - `honcho-clawd daemon run`
+// ============================================
+
+function gitStateChanged(previous: GitState | null, current: GitState | null): boolean {
+  if (!previous || !current) return previous !== current;
+  return (
+    previous.branch !== current.branch ||
+    previous.commit !== current.commit ||
+    previous.dirtyFiles.join("\n") !== current.dirtyFiles.join("\n")
+  );
+}
+
+async function prefetchContext(session: WatchedSession): Promise<void> {
+  // The watched session's own profile and project config, not the daemon's
+  const config = loadConfig(session.cwd);
+  if (!config) return;
+  const client = getHonchoClient(config);
+  const workspaceId = getCachedWorkspaceId(config.workspace, session.cwd);
+  const userPeerId = getCachedPeerId(config.peerName, session.cwd);
+  const clawdPeerId = getCachedPeerId(config.claudePeer, session.cwd);
+  if (!workspaceId || !userPeerId) return; // session-start hasn't run yet
+
+  // session_name is accepted by the API but missing from the SDK's param types
+  const userQuery = { max_observations: 25, include_most_derived: true, session_name: session.sessionName };
+  const clawdQuery = { max_observations: 15, include_most_derived: true, session_name: session.sessionName };
+
+  const startTime = Date.now();
+  const [userContext, clawdContext] = await Promise.allSettled([
+    client.workspaces.peers.getContext(workspaceId, userPeerId, userQuery),
+    clawdPeerId
+      ? client.workspaces.peers.getContext(workspaceId, clawdPeerId, clawdQuery)
+      : Promise.reject(new Error("no clawd peer")),
+  ]);
+
+  recordOutcome(userContext.status === "rejected" ? userContext.reason : undefined);
+  if (userContext.status === "fulfilled" && userContext.value) {
+    setCachedUserContext(session.contextKey, userContext.value);
+  }
+  if (clawdContext.status === "fulfilled" && clawdContext.value) {
+    setCachedClawdContext(session.contextKey, clawdContext.value);
+  }
+  logApiCall("peers.getContext", "GET", `daemon prefetch for ${session.sessionName}`, Date.now() - startTime, userContext.status === "fulfilled");
+}
+
+/**
+ * Run the daemon in the foreground until stopped
+ */
+export async function runDaemon(): Promise<void> {
+  if (!loadConfig()) {
+    throw new Error(getConfigProblem());
+  }
+  if (await sendDaemonRequest({ type: "ping" })) {
+    throw new Error(`Daemon already running (pid ${getDaemonPid() ?? "?"})`);
+  }
+
+  // A socket file with nobody answering is left over from a crash
+  if (existsSync(DAEMON_SOCKET)) unlinkSync(DAEMON_SOCKET);
+  writeFileAtomic(DAEMON_PID_FILE, String(process.pid));
+
+  const watched = new Map<string, WatchedSession>();
+  const status: DaemonStatus = {
+    pid: process.pid,
+    startedAt: new Date().toISOString(),
+    watched: [],
+    uploaded: 0,
+  };
+
+  // Serialize drains so overlapping requests never race each other
+  let drainChain: Promise<void> = Promise.resolve();
+  const drain = (options: FlushOptions = {}) => {
+    drainChain = drainChain.then(async () => {
+      const config = loadConfig();
+      if (!config) return;
+      const result = await flushOutbox(config, options);
+      status.uploaded += result.uploaded;
+      status.lastFlushAt = new Date().toISOString();
+    }).catch((error) => logFlow("daemon", `Drain failed: ${error}`));
+    return drainChain;
+  };
+
+  const pollGit = async () => {
+    const config = loadConfig();
+    // Offline: leave gitState alone so the change is picked up once Honcho is back
+    if (!config || isCircuitOpen()) return;
+    const now = Date.now();
+    for (const [key, session] of watched) {
+      if (now - session.touchedAt > WATCH_EXPIRY_MS) {
+        watched.delete(key);
+        continue;
+      }
+      const gitState = captureGitState(session.cwd);
+      if (!gitStateChanged(session.gitState, gitState)) continue;
+      session.gitState = gitState;
+      logFlow("daemon", `Git changed in ${session.sessionName}, prefetching context`);
+      await prefetchContext(session).catch((error) =>
+        logFlow("daemon", `Prefetch failed: ${error}`)
+      );
+      status.lastPrefetchAt = new Date().toISOString();
+    }
+    status.watched = [...watched.values()].map((s) => s.sessionName);
+  };
+
+  const handleRequest = (request: DaemonRequest): DaemonResponse => {
+    switch (request.type) {
+      case "ping":
+        return { ok: true, status };
+      case "flush":
+        drain({ cwd: request.cwd, force: request.force });
+        return { ok: true };
+      case "watch": {
+        const existing = watched.get(request.contextKey);
+        watched.set(request.contextKey, {
+          cwd: request.cwd,
+          contextKey: request.contextKey,
+          sessionName: request.sessionName,
+          gitState: existing?.gitState ?? captureGitState(request.cwd),
+          touchedAt: Date.now(),
+        });
+        status.watched = [...watched.values()].map((s) => s.sessionName);
+        return { ok: true };
+      }
+      case "stop":
+        setTimeout(shutdown, 10);
+        return { ok: true };
+      default:
+        return { ok: false, error: "unknown request" };
+    }
+  };
+
+  const server = Bun.listen<{ buffer: string }>({
+    unix: DAEMON_SOCKET,
+    socket: {
+      open(socket) {
+        socket.data = { buffer: "" };
+      },
+      data(socket, data) {
+        socket.data.buffer += data.toString();
+        const newline = socket.data.buffer.indexOf("\n");
+        if (newline === -1) return;
+        let response: DaemonResponse;
+        try {
+          response = handleRequest(JSON.parse(socket.data.buffer.slice(0, newline)));
+        } catch (error) {
+          response = { ok: false, error: String(error) };
+        }
+        socket.write(JSON.stringify(response) + "\n");
+        socket.end();
+      },
+    },
+  });
+
+  const drainTimer = setInterval(() => drain(), DRAIN_INTERVAL_MS);
+  const gitTimer = setInterval(() => {
+    pollGit().catch((error) => logFlow("daemon", `Git poll failed: ${error}`));
+  }, GIT_POLL_INTERVAL_MS);
+
+  function shutdown(): void {
+    clearInterval(drainTimer);
+    clearInterval(gitTimer);
+    server.stop(true);
+    for (const file of [DAEMON_SOCKET, DAEMON_PID_FILE]) {
+      try { unlinkSync(file); } catch { /* already gone */ }
+    }
+    logFlow("daemon", "Daemon stopped");
+    process.exit(0);
+  }
+
+  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", shutdown);
+
+  logFlow("daemon", `Daemon started (pid ${process.pid})`);
+  drain();
+}
@@ -0,0 +1,591 @@
+/**
+ * SQLite-backed local store (optional)
+ *
+ * Enabled with `"storage": { "backend": "sqlite" }` in config.json.
+ * Replaces the whole-file JSON/JSONL rewrites with row-level updates:
+ * - queued_messages:   local message queue, keyed by idempotency key (msg_id)
+ * - id_mappings:       workspace / peer / session / instance IDs, transcript cursors,
+ *                      per-turn exploration, file heat, todo lists
+ * - context_snapshots: per-session context cache
+ * - git_snapshots:     git state per directory
+ * - log_entries:       activity log
+ *
+ * cache.ts and log.ts call into here when the backend is active, so the
+ * rest of the codebase keeps using the same exported functions.
+ */
+
+import { Database } from "bun:sqlite";
+import { join } from "path";
+import { randomUUID } from "crypto";
+import { existsSync, mkdirSync, renameSync } from "fs";
+import { getConfigDir, getStorageConfig } from "./config.js";
+import { readJsonFile, readJsonLines } from "./storage.js";
+
+const CACHE_DIR = getConfigDir();
+const DB_FILE = join(CACHE_DIR, "honcho-clawd.db");
+
+// Bump when the JSON import logic changes
+const JSON_IMPORT_VERSION = "4";
+
+let db: Database | null = null;
+let sqliteEnabled: boolean | null = null;
+let jsonImportChecked = false;
+
+/**
+ * Whether the SQLite backend is active (resolved once per process)
+ */
+export function isSqliteBackend(): boolean {
+  if (sqliteEnabled === null) {
+    sqliteEnabled = getStorageConfig().backend === "sqlite";
+  }
+  return sqliteEnabled;
+}
+
+export function getDbPath(): string {
+  return DB_FILE;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS queued_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  msg_id TEXT,
+  cwd TEXT NOT NULL,
+  uploaded INTEGER NOT NULL DEFAULT 0,
+  uploaded_at INTEGER,
+  created_at TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_queued_messages_cwd ON queued_messages (cwd, uploaded);
+CREATE TABLE IF NOT EXISTS id_mappings (
+  kind TEXT NOT NULL,
+  key TEXT NOT NULL,
+  data TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (kind, key)
+);
+CREATE TABLE IF NOT EXISTS context_snapshots (
+  session_key TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  last_accessed_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS git_snapshots (
+  cwd TEXT PRIMARY KEY,
+  data TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS log_entries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp TEXT NOT NULL,
+  level TEXT NOT NULL,
+  source TEXT NOT NULL,
+  cwd TEXT,
+  session TEXT,
+  entry TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_log_entries_cwd ON log_entries (cwd);
+`;
+
+// Created after upgradeQueuedMessages, which adds their columns to older databases
+const QUEUED_MESSAGE_INDEXES = `
+CREATE UNIQUE INDEX IF NOT EXISTS idx_queued_messages_msg_id ON queued_messages (msg_id);
+CREATE INDEX IF NOT EXISTS idx_queued_messages_uploaded_at ON queued_messages (uploaded, uploaded_at);
+`;
+
+/**
+ * Give a queued_messages table from before msg_id and uploaded_at those
+ * columns, filled in from each row's data (keeping the first row per key)
+ */
+function upgradeQueuedMessages(database: Database): void {
+  const columns = database.query<{ name: string }, []>("PRAGMA table_info(queued_messages)").all().map((c) => c.name);
+  if (columns.includes("msg_id") && columns.includes("uploaded_at")) return;
+  database.transaction(() => {
+    if (!columns.includes("msg_id")) database.run("ALTER TABLE queued_messages ADD COLUMN msg_id TEXT");
+    if (!columns.includes("uploaded_at")) database.run("ALTER TABLE queued_messages ADD COLUMN uploaded_at INTEGER");
+    database.run(
+      "UPDATE queued_messages SET msg_id = json_extract(data, '$.id'), uploaded_at = json_extract(data, '$.uploadedAt')"
+    );
+    database.run(
+      "DELETE FROM queued_messages WHERE msg_id IS NOT NULL AND id NOT IN (SELECT MIN(id) FROM queued_messages GROUP BY msg_id)"
+    );
+  }).immediate();
+}
+
+function openDb(): Database {
+  if (db) return db;
+
+  if (!existsSync(CACHE_DIR)) {
+    mkdirSync(CACHE_DIR, { recursive: true });
+  }
+
+  db = new Database(DB_FILE, { create: true });
+  // WAL + busy timeout: concurrent hooks wait for each other instead of failing
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA busy_timeout = 3000");
+  db.exec(SCHEMA);
+  upgradeQueuedMessages(db);
+  db.exec(QUEUED_MESSAGE_INDEXES);
+  return db;
+}
+
+/**
+ * Open the database, importing existing JSON files on first use
+ */
+export function getDb(): Database {
+  const database = openDb();
+  if (!jsonImportChecked) {
+    jsonImportChecked = true;
+    if (getMeta(database, "json_import_version") !== JSON_IMPORT_VERSION) {
+      importJsonFiles(database);
+    }
+  }
+  return database;
+}
+
+/**
+ * Run fn in a single write transaction (nested calls become savepoints).
+ * BEGIN IMMEDIATE so concurrent hooks queue on busy_timeout instead of
+ * failing when a read lock is upgraded.
+ */
+export function dbTransaction<T>(fn: () => T): T {
+  return getDb().transaction(fn).immediate();
+}
+
+function getMeta(database: Database, key: string): string | null {
+  const row = database.query<{ value: string }, [string]>("SELECT value FROM meta WHERE key = ?").get(key);
+  return row?.value ?? null;
+}
+
+// ============================================
+// Migration - import existing JSON/JSONL files
+// ============================================
+
+export interface ImportResult {
+  idMappings: number;
+  contextSnapshots: number;
+  gitSnapshots: number;
+  queuedMessages: number;
+  logEntries: number;
+}
+
+/**
+ * Import cache.json, context-cache.json, git-state.json, message-queue.jsonl
+ * and activity.log into the database. Imported files are renamed to
+ * <file>.imported so they're kept as a backup but never imported twice.
+ */
+function importJsonFiles(database: Database): ImportResult {
+  const result: ImportResult = { idMappings: 0, contextSnapshots: 0, gitSnapshots: 0, queuedMessages: 0, logEntries: 0 };
+  const now = new Date().toISOString();
+
+  const files = {
+    ids: join(CACHE_DIR, "cache.json"),
+    cursors: join(CACHE_DIR, "transcript-cursors.json"),
+    heat: join(CACHE_DIR, "file-heat.json"),
+    todos: join(CACHE_DIR, "todos.json"),
+    context: join(CACHE_DIR, "context-cache.json"),
+    git: join(CACHE_DIR, "git-state.json"),
+    queue: join(CACHE_DIR, "message-queue.jsonl"),
+    log: join(CACHE_DIR, "activity.log"),
+  };
+
+  const run = database.transaction(() => {
+    const upsertId = database.prepare(
+      "INSERT OR REPLACE INTO id_mappings (kind, key, data, updated_at) VALUES (?, ?, ?, ?)"
+    );
+    const ids = readJsonFile<any>(files.ids, {});
+    if (ids.workspace) {
+      upsertId.run("workspace", ids.workspace.name, JSON.stringify(ids.workspace), now);
+      result.idMappings++;
+    }
+    for (const [peerName, peerId] of Object.entries(ids.peers || {})) {
+      upsertId.run("peer", peerName, JSON.stringify(peerId), now);
+      result.idMappings++;
+    }
+    for (const [cwd, session] of Object.entries<any>(ids.sessions || {})) {
+      upsertId.run("session", cwd, JSON.stringify(session), session.updatedAt || now);
+      result.idMappings++;
+    }
+    for (const [cwd, record] of Object.entries<any>(ids.instances?.byCwd || {})) {
+      upsertId.run("instance_cwd", cwd, JSON.stringify(record), record.updatedAt || now);
+      result.idMappings++;
+    }
+    for (const [path, record] of Object.entries<any>(ids.instances?.byTranscript || {})) {
+      upsertId.run("instance_transcript", path, JSON.stringify(record), record.updatedAt || now);
+      result.idMappings++;
+    }
+    for (const [path, cursor] of Object.entries<any>(readJsonFile<any>(files.cursors, {}))) {
+      upsertId.run("transcript_cursor", path, JSON.stringify(cursor), cursor.updatedAt || now);
+      result.idMappings++;
+    }
+    for (const [cwd, heat] of Object.entries<any>(readJsonFile<any>(files.heat, {}))) {
+      upsertId.run("file_heat", cwd, JSON.stringify(heat), heat.updatedAt || now);
+      result.idMappings++;
+    }
+    for (const [key, list] of Object.entries<any>(readJsonFile<any>(files.todos, {}))) {
+      upsertId.run("todos", key, JSON.stringify(list), list.updatedAt || now);
+      result.idMappings++;
+    }
+
+    const context = readJsonFile<any>(files.context, {});
+    const upsertContext = database.prepare(
+      "INSERT OR REPLACE INTO context_snapshots (session_key, data, last_accessed_at) VALUES (?, ?, ?)"
+    );
+    for (const [key, entry] of Object.entries<any>(context.sessions || {})) {
+      upsertContext.run(key, JSON.stringify(entry), entry.lastAccessedAt || Date.now());
+      result.contextSnapshots++;
+    }
+
+    const git = readJsonFile<Record<string, any>>(files.git, {});
+    const upsertGit = database.prepare(
+      "INSERT OR REPLACE INTO git_snapshots (cwd, data, updated_at) VALUES (?, ?, ?)"
+    );
+    for (const [cwd, state] of Object.entries(git)) {
+      upsertGit.run(cwd, JSON.stringify(state), state.timestamp || now);
+      result.gitSnapshots++;
+    }
+
+    const insertQueued = database.prepare(
+      "INSERT INTO queued_messages (msg_id, cwd, uploaded, created_at, data) VALUES (?, ?, ?, ?, ?) ON CONFLICT(msg_id) DO NOTHING"
+    );
+    for (const msg of readJsonLines<any>(files.queue)) {
+      if (msg.uploaded || msg.state === "uploaded") continue;
+      // Messages queued before idempotency keys existed get one now
+      const message = { id: randomUUID(), state: "pending", attempts: 0, ...msg };
+      insertQueued.run(message.id, msg.cwd, 0, msg.timestamp || now, JSON.stringify(message));
+      result.queuedMessages++;
+    }
+
+    const insertLog = database.prepare(
+      "INSERT INTO log_entries (timestamp, level, source, cwd, session, entry) VALUES (?, ?, ?, ?, ?, ?)"
+    );
+    for (const entry of readJsonLines<any>(files.log)) {
+      insertLog.run(entry.timestamp, entry.level, entry.source, entry.cwd ?? null, entry.session ?? null, JSON.stringify(entry));
+      result.logEntries++;
+    }
+
+    database.run(
+      "INSERT INTO meta (key, value) VALUES ('json_import_version', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value",
+      [JSON_IMPORT_VERSION]
+    );
+  });
+  run.immediate();
+
+  for (const file of Object.values(files)) {
+    if (existsSync(file)) {
+      try {
+        renameSync(file, `${file}.imported`);
+      } catch {
+        // Leave it; the meta flag prevents a second import
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Import any JSON files still on disk (for `honcho-clawd storage migrate`)
+ */
+export function migrateJsonFiles(): ImportResult {
+  jsonImportChecked = true;
+  return importJsonFiles(openDb());
+}
+
+// ============================================
+// ID Mappings
+// ============================================
+
+export type IdMappingKind =
+  | "workspace"
+  | "peer"
+  | "session"
+  | "instance_cwd"
+  | "instance_transcript"
+  | "transcript_cursor"
+  | "exploration"
+  | "file_heat"
+  | "todos";
+
+export function dbGetIdMapping<T>(kind: IdMappingKind, key: string): T | null {
+  const row = getDb()
+    .query<{ data: string }, [string, string]>("SELECT data FROM id_mappings WHERE kind = ? AND key = ?")
+    .get(kind, key);
+  return row ? JSON.parse(row.data) : null;
+}
+
+export function dbSetIdMapping(kind: IdMappingKind, key: string, data: unknown): void {
+  getDb().run(
+    "INSERT OR REPLACE INTO id_mappings (kind, key, data, updated_at) VALUES (?, ?, ?, ?)",
+    [kind, key, JSON.stringify(data), new Date().toISOString()]
+  );
+}
+
+export function dbListIdMappings<T>(kind: IdMappingKind): Record<string, T> {
+  const rows = getDb()
+    .query<{ key: string; data: string }, [string]>("SELECT key, data FROM id_mappings WHERE kind = ? ORDER BY updated_at DESC")
+    .all(kind);
+  return Object.fromEntries(rows.map((r) => [r.key, JSON.parse(r.data)]));
+}
+
+/**
+ * Keep only the most recent `keep` mappings of a kind
+ */
+export function dbPruneIdMappings(kind: IdMappingKind, keep: number): void {
+  getDb().run(
+    `DELETE FROM id_mappings WHERE kind = ? AND key NOT IN (
+      SELECT key FROM id_mappings WHERE kind = ? ORDER BY updated_at DESC LIMIT ?
+    )`,
+    [kind, kind, keep]
+  );
+}
+
+export function dbDeleteIdMapping(kind: IdMappingKind, key: string): void {
+  getDb().run("DELETE FROM id_mappings WHERE kind = ? AND key = ?", [kind, key]);
+}
+
+/**
+ * Latest workspace mapping (the ID cache only ever holds one workspace)
+ */
+export function dbGetWorkspaceMapping(): { name: string; id: string } | null {
+  const row = getDb()
+    .query<{ data: string }, []>("SELECT data FROM id_mappings WHERE kind = 'workspace' ORDER BY updated_at DESC LIMIT 1")
+    .get();
+  return row ? JSON.parse(row.data) : null;
+}
+
+/**
+ * Delete every mapping of the given kinds
+ */
+export function dbClearIdMappings(kinds: IdMappingKind[]): void {
+  if (kinds.length === 0) return;
+  getDb().run(`DELETE FROM id_mappings WHERE kind IN (${kinds.map(() => "?").join(", ")})`, kinds);
+}
+
+// ============================================
+// Context Snapshots
+// ============================================
+
+export function dbGetContextSnapshot<T>(sessionKey: string): T | null {
+  const row = getDb()
+    .query<{ data: string }, [string]>("SELECT data FROM context_snapshots WHERE session_key = ?")
+    .get(sessionKey);
+  return row ? JSON.parse(row.data) : null;
+}
+
+export function dbListContextSnapshots<T>(): Record<string, T> {
+  const rows = getDb()
+    .query<{ session_key: string; data: string }, []>("SELECT session_key, data FROM context_snapshots ORDER BY last_accessed_at DESC")
+    .all();
+  return Object.fromEntries(rows.map((r) => [r.session_key, JSON.parse(r.data)]));
+}
+
+/**
+ * Read-modify-write one session's snapshot inside a transaction
+ */
+export function dbUpdateContextSnapshot<T extends object>(sessionKey: string, mutate: (entry: T) => void): T {
+  const database = getDb();
+  return dbTransaction(() => {
+    const entry = dbGetContextSnapshot<T>(sessionKey) ?? ({} as T);
+    mutate(entry);
+    const accessedAt = (entry as { lastAccessedAt?: number }).lastAccessedAt ?? Date.now();
+    database.run(
+      "INSERT OR REPLACE INTO context_snapshots (session_key, data, last_accessed_at) VALUES (?, ?, ?)",
+      [sessionKey, JSON.stringify(entry), accessedAt]
+    );
+    return entry;
+  });
+}
+
+/**
+ * Evict snapshots older than maxAgeMs, then cap the table at maxEntries
+ */
+export function dbEvictContextSnapshots(maxAgeMs: number, maxEntries: number): number {
+  const database = getDb();
+  const byAge = database.run("DELETE FROM context_snapshots WHERE last_accessed_at < ?", [Date.now() - maxAgeMs]);
+  const byCount = database.run(
+    `DELETE FROM context_snapshots WHERE session_key NOT IN (
+      SELECT session_key FROM context_snapshots ORDER BY last_accessed_at DESC LIMIT ?
+    )`,
+    [maxEntries]
+  );
+  return byAge.changes + byCount.changes;
+}
+
+export function dbClearContextSnapshots(): void {
+  getDb().run("DELETE FROM context_snapshots");
+}
+
+// ============================================
+// Git Snapshots
+// ============================================
+
+export function dbGetGitSnapshot<T>(cwd: string): T | null {
+  const row = getDb().query<{ data: string }, [string]>("SELECT data FROM git_snapshots WHERE cwd = ?").get(cwd);
+  return row ? JSON.parse(row.data) : null;
+}
+
+export function dbSetGitSnapshot(cwd: string, state: unknown): void {
+  getDb().run(
+    "INSERT OR REPLACE INTO git_snapshots (cwd, data, updated_at) VALUES (?, ?, ?)",
+    [cwd, JSON.stringify(state), new Date().toISOString()]
+  );
+}
+
+export function dbListGitSnapshots<T>(): Record<string, T> {
+  const rows = getDb().query<{ cwd: string; data: string }, []>("SELECT cwd, data FROM git_snapshots").all();
+  return Object.fromEntries(rows.map((r) => [r.cwd, JSON.parse(r.data)]));
+}
+
+export function dbClearGitSnapshots(): void {
+  getDb().run("DELETE FROM git_snapshots");
+}
+
+// ============================================
+// Queued Messages
+// ============================================
+
+interface QueuedMessageRow {
+  id: string; // Idempotency key
+  cwd: string;
+  timestamp: string;
+  state?: string;
+  uploadedAt?: number;
+}
+
+export function dbQueueMessage(message: QueuedMessageRow): void {
+  getDb().run(
+    "INSERT INTO queued_messages (msg_id, cwd, uploaded, uploaded_at, created_at, data) VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT(msg_id) DO NOTHING",
+    [message.id, message.cwd, message.state === "uploaded" ? 1 : 0, message.uploadedAt ?? null, message.timestamp, JSON.stringify(message)]
+  );
+}
+
+/**
+ * Look up a queued message by its idempotency key (uploaded ones included)
+ */
+export function dbGetQueuedMessage<T>(id: string): T | null {
+  const row = getDb()
+    .query<{ data: string }, [string]>("SELECT data FROM queued_messages WHERE msg_id = ?")
+    .get(id);
+  return row ? JSON.parse(row.data) : null;
+}
+
+export function dbGetQueuedMessages<T>(forCwd?: string): T[] {
+  const database = getDb();
+  const rows = forCwd
+    ? database
+        .query<{ data: string }, [string]>("SELECT data FROM queued_messages WHERE uploaded = 0 AND cwd = ? ORDER BY id")
+        .all(forCwd)
+    : database.query<{ data: string }, []>("SELECT data FROM queued_messages WHERE uploaded = 0 ORDER BY id").all();
+  return rows.map((r) => JSON.parse(r.data));
+}
+
+export function dbUpdateQueuedMessage(message: Omit<QueuedMessageRow, "cwd" | "timestamp">): void {
+  getDb().run(
+    "UPDATE queued_messages SET data = ?, uploaded = ?, uploaded_at = ? WHERE msg_id = ?",
+    [JSON.stringify(message), message.state === "uploaded" ? 1 : 0, message.uploadedAt ?? null, message.id]
+  );
+}
+
+export function dbDeleteQueuedMessage(id: string): void {
+  getDb().run("DELETE FROM queued_messages WHERE msg_id = ?", [id]);
+}
+
+/**
+ * Drop messages uploaded before the given time (ms), like the JSON queue's
+ * uploadedAt check: when a message was said doesn't matter
+ */
+export function dbPruneUploadedMessages(before: number): void {
+  getDb().run("DELETE FROM queued_messages WHERE uploaded = 1 AND COALESCE(uploaded_at, 0) < ?", [before]);
+}
+
+export function dbDeleteQueuedMessages(forCwd?: string): void {
+  if (forCwd) {
+    getDb().run("DELETE FROM queued_messages WHERE cwd = ?", [forCwd]);
+  } else {
+    getDb().run("DELETE FROM queued_messages");
+  }
+}
+
+// ============================================
+// Log Entries
+// ============================================
+
+// Keep the log table bounded like the 100KB activity.log
+const MAX_LOG_ROWS = 5000;
+
+export function dbAppendLog(entry: { timestamp: string; level: string; source: string; cwd?: string; session?: string }): void {
+  const database = getDb();
+  const { lastInsertRowid } = database.run(
+    "INSERT INTO log_entries (timestamp, level, source, cwd, session, entry) VALUES (?, ?, ?, ?, ?, ?)",
+    [entry.timestamp, entry.level, entry.source, entry.cwd ?? null, entry.session ?? null, JSON.stringify(entry)]
+  );
+  // Trim occasionally rather than on every insert
+  if (Number(lastInsertRowid) % 500 === 0) {
+    database.run("DELETE FROM log_entries WHERE id <= ?", [Number(lastInsertRowid) - MAX_LOG_ROWS]);
+  }
+}
+
+export interface DbLogQuery {
+  cwd?: string;
+  session?: string;
+  levels?: string[];
+  afterId?: number;
+  limit?: number;
+}
+
+/**
+ * Query log entries, oldest first. Returns rows with their ids for tailing.
+ */
+export function dbQueryLogs<T>(query: DbLogQuery): Array<{ id: number; entry: T }> {
+  const where: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (query.cwd) {
+    where.push("cwd = ?");
+    params.push(query.cwd);
+  }
+  if (query.session) {
+    where.push("session = ?");
+    params.push(query.session);
+  }
+  if (query.levels && query.levels.length > 0) {
+    where.push(`level IN (${query.levels.map(() => "?").join(", ")})`);
+    params.push(...query.levels);
+  }
+  if (query.afterId !== undefined) {
+    where.push("id > ?");
+    params.push(query.afterId);
+  }
+
+  const sql = `SELECT id, entry FROM log_entries${where.length ? ` WHERE ${where.join(" AND ")}` : ""} ORDER BY id DESC LIMIT ?`;
+  params.push(query.limit ?? 50);
+
+  const rows = getDb().query<{ id: number; entry: string }, Array<string | number>>(sql).all(...params);
+  return rows.reverse().map((r) => ({ id: r.id, entry: JSON.parse(r.entry) }));
+}
+
+export function dbGetLastLogId(): number {
+  const row = getDb().query<{ id: number | null }, []>("SELECT MAX(id) AS id FROM log_entries").get();
+  return row?.id ?? 0;
+}
+
+export function dbClearLogs(): void {
+  getDb().run("DELETE FROM log_entries");
+}
+
+/**
+ * Row counts per table (for `honcho-clawd storage`)
+ */
+export function dbGetStats(): Record<string, number> {
+  const database = getDb();
+  const tables = ["queued_messages", "id_mappings", "context_snapshots", "git_snapshots", "log_entries"];
+  const stats: Record<string, number> = {};
+  for (const table of tables) {
+    const row = database.query<{ count: number }, []>(`SELECT COUNT(*) AS count FROM ${table}`).get();
+    stats[table] = row?.count ?? 0;
+  }
+  return stats;
+}
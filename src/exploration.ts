@@ -0,0 +1,185 @@
+/**
+ * Exploration tracking - what Claude read and searched, not just what it wrote
+ *
+ * post-tool-use tallies each Read, Grep and Glob (and each edit) into the
+ * current turn's record. The stop hook takes the record, uploads it as one
+ * compact [Exploration] message and adds it to the project's file heat:
+ * a per-file score (a read counts 1, an edit 3) that halves every week.
+ * session-start groups the hottest files by directory and lists them as
+ * the areas you've been working in.
+ *
+ * Paths are kept relative to the project; files outside it are uploaded
+ * but never added to the heat index. .honchoignore'd files, and searches in
+ * .honchoignore'd paths, are never recorded.
+ */
+
+import { dirname, isAbsolute, relative, resolve } from "path";
+import { getFileHeat, updateFileHeat, updateTurnExploration, type FileHeat, type TurnExploration } from "./cache.js";
+import { isFileIgnored, type IgnoreRules } from "./ignore.js";
+
+const READ_WEIGHT = 1;
+const EDIT_WEIGHT = 3;
+const HEAT_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+// Files kept per project; the coldest go first
+const MAX_HEAT_FILES = 300;
+// Below this a directory isn't worth listing (one read, two weeks ago)
+const MIN_AREA_SCORE = 0.5;
+// Files and searches named in an [Exploration] message
+const MAX_LISTED = 8;
+
+const READ_TOOLS = new Set(["Read"]);
+const EDIT_TOOLS = new Set(["Write", "Edit", "NotebookEdit"]);
+const SEARCH_TOOLS = new Set(["Grep", "Glob"]);
+
+export interface HotArea {
+  dir: string; // Relative to the project ("." for the root)
+  score: number;
+  reads: number;
+  edits: number;
+  files: string[]; // Hottest first
+  updatedAt: string;
+}
+
+function toProjectPath(filePath: string, cwd: string): string {
+  const path = relative(cwd, resolve(cwd, filePath));
+  return path.startsWith("..") || isAbsolute(path) ? resolve(cwd, filePath) : path;
+}
+
+function describeSearch(toolName: string, toolInput: Record<string, any>, cwd: string, rules: IgnoreRules): string | null {
+  const pattern = toolInput.pattern;
+  if (!pattern) return null;
+  // A search inside an ignored path would name it (and what was looked for there)
+  if (toolInput.path && isFileIgnored(resolve(cwd, toolInput.path), rules)) return null;
+  if (toolName === "Glob" && isFileIgnored(resolve(cwd, toolInput.path ?? "", String(pattern)), rules)) return null;
+  const scope = toolInput.path ? ` in ${toProjectPath(toolInput.path, cwd) || "."}` : "";
+  const filter = toolInput.glob || toolInput.type ? ` [${toolInput.glob || toolInput.type}]` : "";
+  return `${toolName}: ${String(pattern).slice(0, 80)}${scope}${filter}`;
+}
+
+/**
+ * Add one tool call to the turn's tallies. Tools that don't read, search
+ * or edit are ignored; returns whether anything was recorded.
+ */
+export function recordToolUse(
+  key: string,
+  cwd: string,
+  toolName: string,
+  toolInput: Record<string, any>,
+  rules: IgnoreRules
+): boolean {
+  let field: "reads" | "edits" | "searches";
+  let entry: string | null;
+  if (SEARCH_TOOLS.has(toolName)) {
+    field = "searches";
+    entry = describeSearch(toolName, toolInput, cwd, rules);
+  } else if (READ_TOOLS.has(toolName) || EDIT_TOOLS.has(toolName)) {
+    field = READ_TOOLS.has(toolName) ? "reads" : "edits";
+    const filePath = toolInput.file_path || toolInput.notebook_path;
+    entry = filePath && !isFileIgnored(filePath, rules) ? toProjectPath(filePath, cwd) : null;
+  } else {
+    return false;
+  }
+  if (!entry) return false;
+
+  const now = new Date().toISOString();
+  updateTurnExploration(key, (turn) => {
+    const current = turn ?? { cwd, reads: {}, searches: {}, edits: {}, startedAt: now, updatedAt: now };
+    current[field][entry] = (current[field][entry] ?? 0) + 1;
+    current.updatedAt = now;
+    return current;
+  });
+  return true;
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  const entries = Object.entries(counts).sort(([, a], [, b]) => b - a);
+  const listed = entries
+    .slice(0, MAX_LISTED)
+    .map(([name, count]) => (count > 1 ? `${name} (${count}x)` : name))
+    .join(", ");
+  return entries.length > MAX_LISTED ? `${listed}, +${entries.length - MAX_LISTED} more` : listed;
+}
+
+/**
+ * One-line summary of a turn's reads and searches, or null if there were none
+ * (edits are already uploaded as [Tool] messages)
+ */
+export function formatExploration(turn: TurnExploration): string | null {
+  const parts: string[] = [];
+  const reads = Object.keys(turn.reads).length;
+  const searches = Object.keys(turn.searches).length;
+  if (reads > 0) parts.push(`Read ${reads} file${reads === 1 ? "" : "s"}: ${formatCounts(turn.reads)}`);
+  if (searches > 0) parts.push(`${searches} search${searches === 1 ? "" : "es"}: ${formatCounts(turn.searches)}`);
+  return parts.length > 0 ? parts.join("; ") : null;
+}
+
+function decay(heat: FileHeat, now: number): number {
+  return heat.score * Math.pow(0.5, (now - new Date(heat.updatedAt).getTime()) / HEAT_HALF_LIFE_MS);
+}
+
+/**
+ * Add a turn's reads and edits to its project's file heat
+ */
+export function addTurnHeat(turn: TurnExploration): void {
+  const touched = [
+    ...Object.entries(turn.reads).map(([file, count]) => ({ file, reads: count, edits: 0 })),
+    ...Object.entries(turn.edits).map(([file, count]) => ({ file, reads: 0, edits: count })),
+  ].filter(({ file }) => !isAbsolute(file));
+  if (touched.length === 0) return;
+
+  updateFileHeat(turn.cwd, (files) => {
+    const now = Date.now();
+    const updatedAt = new Date(now).toISOString();
+    for (const { file, reads, edits } of touched) {
+      const previous = files[file];
+      files[file] = {
+        score: (previous ? decay(previous, now) : 0) + reads * READ_WEIGHT + edits * EDIT_WEIGHT,
+        reads: (previous?.reads ?? 0) + reads,
+        edits: (previous?.edits ?? 0) + edits,
+        updatedAt,
+      };
+    }
+    const entries = Object.entries(files);
+    if (entries.length <= MAX_HEAT_FILES) return files;
+    return Object.fromEntries(
+      entries.sort(([, a], [, b]) => decay(b, now) - decay(a, now)).slice(0, MAX_HEAT_FILES)
+    );
+  });
+}
+
+/**
+ * The project's hottest directories, by the decayed heat of their files
+ */
+export function getHotAreas(cwd: string, limit = 5): HotArea[] {
+  const now = Date.now();
+  const areas = new Map<string, HotArea & { fileScores: Array<[string, number]> }>();
+  for (const [file, heat] of Object.entries(getFileHeat(cwd))) {
+    const dir = dirname(file);
+    const area = areas.get(dir) ?? { dir, score: 0, reads: 0, edits: 0, files: [], updatedAt: heat.updatedAt, fileScores: [] };
+    const score = decay(heat, now);
+    area.score += score;
+    area.reads += heat.reads;
+    area.edits += heat.edits;
+    area.fileScores.push([file, score]);
+    if (heat.updatedAt > area.updatedAt) area.updatedAt = heat.updatedAt;
+    areas.set(dir, area);
+  }
+  return [...areas.values()]
+    .filter((area) => area.score >= MIN_AREA_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ fileScores, ...area }) => ({
+      ...area,
+      files: fileScores.sort(([, a], [, b]) => b - a).map(([file]) => file),
+    }));
+}
+
+/**
+ * "- src/hooks/ (12 reads, 4 edits): stop.ts, post-tool-use.ts"
+ */
+export function formatHotArea(area: HotArea): string {
+  const dir = area.dir === "." ? "./" : `${area.dir}/`;
+  const files = area.files.slice(0, 3).map((file) => file.slice(dir === "./" ? 0 : dir.length));
+  const more = area.files.length > 3 ? `, +${area.files.length - 3} more` : "";
+  return `- ${dir} (${area.reads} read${area.reads === 1 ? "" : "s"}, ${area.edits} edit${area.edits === 1 ? "" : "s"}): ${files.join(", ")}${more}`;
+}
@@ -9,6 +9,7 @@ import { execSync } from "child_process";
 import { existsSync } from "fs";
 import { join } from "path";
 import type { GitState, GitFeatureContext } from "./cache.js";
+import { getIgnoreRules, isFileIgnored } from "./ignore.js";
 
 /**
  * Check if a directory is a git repository
@@ -49,12 +50,15 @@ export function captureGitState(cwd: string): GitState | null {
   const statusOutput = gitCommand(cwd, "status --porcelain") || "";
   const isDirty = statusOutput.length > 0;
 
-  // Get list of dirty files (modified, added, deleted)
+  // Get list of dirty files (modified, added, deleted), minus .honchoignore'd ones
+  const topLevel = gitCommand(cwd, "rev-parse --show-toplevel") || cwd;
+  const ignoreRules = getIgnoreRules(cwd);
   const dirtyFiles = isDirty
     ? statusOutput
         .split("\n")
         .filter((line) => line.trim())
         .map((line) => line.slice(3).trim()) // Remove status prefix (e.g., " M ", "?? ")
+        .filter((file) => !isFileIgnored(join(topLevel, file), ignoreRules))
         .slice(0, 20) // Limit to 20 files
     : [];
 
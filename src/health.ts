@@ -0,0 +1,127 @@
+/**
+ * Honcho health - fast probe + circuit breaker for offline mode
+ *
+ * Every upload and context fetch reports success or failure here. After
+ * offline.failureThreshold consecutive network failures the circuit opens:
+ * hooks stop calling Honcho for offline.cooldownSeconds, serve cached
+ * memory marked as stale, and leave writes in the outbox for later replay.
+ * The first call after the cooldown is a trial; success closes the circuit.
+ */
+
+import { join } from "path";
+import { existsSync, mkdirSync } from "fs";
+import { getConfigDir, getEndpointInfo, getOfflineConfig, type HonchoCLAWDConfig } from "./config.js";
+import { readJsonFile, updateJsonFile } from "./storage.js";
+import { logFlow } from "./log.js";
+
+const CACHE_DIR = getConfigDir();
+const HEALTH_FILE = join(CACHE_DIR, "health.json");
+
+export interface HealthState {
+  consecutiveFailures: number;
+  openedAt?: number; // Set while the circuit is open
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+}
+
+export interface HealthCheck {
+  online: boolean;
+  reason?: string; // Why we're offline
+}
+
+export function getHealthPath(): string {
+  return HEALTH_FILE;
+}
+
+export function getHealthState(): HealthState {
+  return readJsonFile<HealthState>(HEALTH_FILE, { consecutiveFailures: 0 });
+}
+
+/**
+ * True while the circuit is open and still cooling down
+ */
+export function isCircuitOpen(): boolean {
+  const { enabled, cooldownSeconds } = getOfflineConfig();
+  if (!enabled) return false;
+  const { openedAt } = getHealthState();
+  return !!openedAt && Date.now() - openedAt < (cooldownSeconds ?? 60) * 1000;
+}
+
+/**
+ * Only network-level failures and 5xx count against the circuit.
+ * A 4xx means Honcho answered.
+ */
+export function isOutageError(error: any): boolean {
+  const status = error?.status;
+  return typeof status !== "number" || status >= 500;
+}
+
+export function recordSuccess(): void {
+  const state = getHealthState();
+  // Skip the write on the common path (already healthy)
+  if (state.consecutiveFailures === 0 && !state.openedAt) return;
+  if (!existsSync(CACHE_DIR)) mkdirSync(CACHE_DIR, { recursive: true });
+  updateJsonFile<HealthState>(HEALTH_FILE, { consecutiveFailures: 0 }, (s) => {
+    if (s.openedAt) logFlow("health", "Honcho reachable again, circuit closed");
+    return { consecutiveFailures: 0, lastSuccessAt: Date.now() };
+  });
+}
+
+/**
+ * Count a failure. `trip` opens the circuit immediately (a failed probe is conclusive).
+ */
+export function recordFailure(error: unknown, trip = false): void {
+  const { failureThreshold } = getOfflineConfig();
+  if (!existsSync(CACHE_DIR)) mkdirSync(CACHE_DIR, { recursive: true });
+  updateJsonFile<HealthState>(HEALTH_FILE, { consecutiveFailures: 0 }, (s) => {
+    s.consecutiveFailures = (s.consecutiveFailures || 0) + 1;
+    s.lastError = String(error);
+    s.lastFailureAt = Date.now();
+    if (trip || s.consecutiveFailures >= (failureThreshold ?? 3)) {
+      if (!s.openedAt) {
+        logFlow("health", `Circuit opened after ${s.consecutiveFailures} failures`, { error: s.lastError });
+      }
+      // A failed trial after the cooldown restarts it
+      s.openedAt = Date.now();
+    }
+  });
+}
+
+/**
+ * Report the outcome of a Honcho call to the circuit breaker
+ */
+export function recordOutcome(error?: unknown): void {
+  if (error === undefined) {
+    recordSuccess();
+  } else if (isOutageError(error)) {
+    recordFailure(error);
+  }
+}
+
+/**
+ * Decide whether to talk to Honcho at all. Skips the network when the
+ * circuit is open; otherwise a fast probe of the endpoint (any HTTP
+ * response counts as reachable). A failed probe trips the circuit at once.
+ */
+export async function checkHonchoHealth(config: HonchoCLAWDConfig): Promise<HealthCheck> {
+  const { enabled, probeTimeoutMs } = getOfflineConfig();
+  if (!enabled) return { online: true };
+
+  if (isCircuitOpen()) {
+    return { online: false, reason: `circuit open: ${getHealthState().lastError ?? "recent failures"}` };
+  }
+
+  const { url } = getEndpointInfo(config);
+  try {
+    await fetch(url, { method: "HEAD", signal: AbortSignal.timeout(probeTimeoutMs ?? 1500) });
+    recordSuccess();
+    return { online: true };
+  } catch (error) {
+    const reason = error instanceof Error && error.name === "TimeoutError"
+      ? `no response from ${url} within ${probeTimeoutMs}ms`
+      : `${url} unreachable: ${error instanceof Error ? error.message : error}`;
+    recordFailure(reason, true);
+    return { online: false, reason };
+  }
+}
@@ -1,37 +1,23 @@
-import Honcho from "@honcho-ai/core";
-import { loadConfig, getSessionForPath, getHonchoClientOptions } from "../config.js";
-import { basename } from "path";
-import {
-  getCachedWorkspaceId,
-  setCachedWorkspaceId,
-  getCachedPeerId,
-  setCachedPeerId,
-  getCachedSessionId,
-  setCachedSessionId,
-  appendClawdWork,
-  getClaudeInstanceId,
-} from "../cache.js";
-import { logHook, logApiCall, setLogContext } from "../log.js";
-
-const WORKSPACE_APP_TAG = "honcho-clawd";
+import { loadConfig, setProjectDir, getSessionName } from "../config.js";
+import { appendClawdWork, queueMessage, resolveClaudeInstanceId } from "../cache.js";
+import { logHook, setLogContext } from "../log.js";
+import { requestFlush } from "../daemon.js";
+import { getIgnoreRules, isFileIgnored } from "../ignore.js";
+import { formatToolResult, getToolOutput, parseToolResult, type ToolResult } from "../tool-results.js";
+import { recordToolUse } from "../exploration.js";
+import { formatTodoUpdate, parseTodos, recordTodos, type TodoUpdate } from "../todos.js";
 
 interface HookInput {
   tool_name?: string;
   tool_input?: Record<string, any>;
   tool_response?: Record<string, any>;
   cwd?: string;
-}
-
-function getSessionName(cwd: string): string {
-  const configuredSession = getSessionForPath(cwd);
-  if (configuredSession) {
-    return configuredSession;
-  }
-  return basename(cwd).toLowerCase().replace(/[^a-z0-9-_]/g, "-");
+  session_id?: string;
+  transcript_path?: string;
 }
 
 function shouldLogTool(toolName: string, toolInput: Record<string, any>): boolean {
-  const significantTools = new Set(["Write", "Edit", "Bash", "Task", "NotebookEdit"]);
+  const significantTools = new Set(["Write", "Edit", "Bash", "Task", "NotebookEdit", "TodoWrite"]);
 
   if (!significantTools.has(toolName)) {
     return false;
@@ -141,7 +127,8 @@ function summarizeEdit(oldStr: string, newStr: string, filePath: string): string
 function formatToolSummary(
   toolName: string,
   toolInput: Record<string, any>,
-  toolResponse: Record<string, any>
+  toolResponse: Record<string, any>,
+  result: ToolResult | null
 ): string {
   switch (toolName) {
     case "Write": {
@@ -160,6 +147,8 @@ function formatToolSummary(
       return `Edited ${fileName}: ${changeSummary}`;
     }
     case "Bash": {
+      // Test runs, type-checks and builds: what they reported
+      if (result) return formatToolResult(result);
       const command = (toolInput.command || "").slice(0, 100);
       const success = !toolResponse.error;
       // Extract meaningful command info
@@ -203,11 +192,6 @@ function formatToolSummary(
 }
 
 export async function handlePostToolUse(): Promise<void> {
-  const config = loadConfig();
-  if (!config) {
-    process.exit(0);
-  }
-
   let hookInput: HookInput = {};
   try {
     const input = await Bun.stdin.text();
@@ -223,73 +207,83 @@ export async function handlePostToolUse(): Promise<void> {
   const toolResponse = hookInput.tool_response || {};
   const cwd = hookInput.cwd || process.cwd();
 
+  // Project .honcho-clawd.json (if any) layers over the user config
+  setProjectDir(cwd);
+  const config = loadConfig();
+  if (!config) {
+    process.exit(0);
+  }
+
+  const instanceId = resolveClaudeInstanceId(hookInput.session_id, cwd, hookInput.transcript_path);
+
   // Set log context
   setLogContext(cwd, getSessionName(cwd));
 
-  if (!shouldLogTool(toolName, toolInput)) {
+  const ignoreRules = getIgnoreRules(cwd);
+  if (ignoreRules.mode === "skip") {
     process.exit(0);
   }
 
-  const summary = formatToolSummary(toolName, toolInput, toolResponse);
-  logHook("post-tool-use", summary, { tool: toolName });
-
-  // INSTANT: Update local clawd context file (~2ms)
-  appendClawdWork(summary);
+  // Reads, searches and edits are tallied for the turn; the stop hook uploads them together
+  recordToolUse(instanceId || cwd, cwd, toolName, toolInput, ignoreRules);
 
-  // Upload to Honcho and wait for completion
-  await logToHonchoAsync(config, cwd, summary).catch((e) => logHook("post-tool-use", `Upload failed: ${e}`, { error: String(e) }));
+  if (!shouldLogTool(toolName, toolInput)) {
+    process.exit(0);
+  }
 
-  process.exit(0);
-}
+  // Changes to .honchoignore'd files aren't summarized anywhere
+  const touchedFile = toolInput.file_path || toolInput.notebook_path;
+  if (touchedFile && isFileIgnored(touchedFile, ignoreRules)) {
+    logHook("post-tool-use", `Skipping ${toolName} (ignored file)`);
+    process.exit(0);
+  }
 
-async function logToHonchoAsync(config: any, cwd: string, summary: string): Promise<void> {
-  // Skip if message saving is disabled
-  if (config.saveMessages === false) {
-    return;
+  // Todo lists are stored for the next session, and only their changes are logged
+  let todoUpdate: TodoUpdate | null = null;
+  if (toolName === "TodoWrite") {
+    const todos = parseTodos(toolInput);
+    if (todos) {
+      todoUpdate = recordTodos(instanceId || cwd, {
+        cwd,
+        sessionName: getSessionName(cwd),
+        instanceId: instanceId || undefined,
+        todos,
+      });
+    }
+    if (!todoUpdate) {
+      logHook("post-tool-use", `Skipping TodoWrite (list unchanged)`);
+      process.exit(0);
+    }
   }
 
-  const client = new Honcho(getHonchoClientOptions(config));
+  let result: ToolResult | null = null;
+  if (toolName === "Bash") {
+    result = parseToolResult(toolInput.command || "", getToolOutput(toolResponse), !!toolResponse.error);
+    // Errors in .honchoignore'd files aren't named either
+    if (result?.firstErrors) {
+      result.firstErrors = result.firstErrors.filter((location) => !isFileIgnored(location.file, ignoreRules));
+      if (result.firstErrors.length === 0) delete result.firstErrors;
+    }
+  }
 
-  // Try to use cached IDs for speed
-  let workspaceId = getCachedWorkspaceId(config.workspace);
-  let sessionId = getCachedSessionId(cwd);
-  let clawdPeerId = getCachedPeerId(config.claudePeer);
-  const sessionName = getSessionName(cwd);
+  const summary = todoUpdate ? formatTodoUpdate(todoUpdate) : formatToolSummary(toolName, toolInput, toolResponse, result);
+  logHook("post-tool-use", summary, { tool: toolName });
 
-  // If we don't have cached IDs, do full setup and cache results
-  if (!workspaceId || !sessionId || !clawdPeerId) {
-    const workspace = await client.workspaces.getOrCreate({
-      id: config.workspace,
-      metadata: { app: WORKSPACE_APP_TAG },
-    });
-    workspaceId = workspace.id;
-    setCachedWorkspaceId(config.workspace, workspaceId);
+  // INSTANT: Update local clawd context file (~2ms)
+  appendClawdWork(summary);
 
-    const session = await client.workspaces.sessions.getOrCreate(workspaceId, {
-      id: sessionName,
-      metadata: { cwd },
+  // Queue for Honcho, then upload it (and anything else due here) before exit
+  if (config.saveMessages !== false && ignoreRules.mode === "upload") {
+    queueMessage(`[Tool] ${summary}`, config.claudePeer, cwd, instanceId || undefined, {
+      sessionName: getSessionName(cwd),
+      metadata: result
+        ? { tool: toolName, result }
+        : todoUpdate
+          ? { tool: toolName, type: "todos", todos: todoUpdate.todos, changes: todoUpdate.changes }
+          : undefined,
     });
-    sessionId = session.id;
-    setCachedSessionId(cwd, sessionName, sessionId);
-
-    const clawdPeer = await client.workspaces.peers.getOrCreate(workspaceId, { id: config.claudePeer });
-    clawdPeerId = clawdPeer.id;
-    setCachedPeerId(config.claudePeer, clawdPeerId);
+    await requestFlush(config, { cwd });
   }
 
-  // Log the tool use with instance_id and session_affinity for project-scoped fact extraction
-  logApiCall("sessions.messages.create", "POST", `tool: ${summary.slice(0, 50)}`);
-  const instanceId = getClaudeInstanceId();
-  await client.workspaces.sessions.messages.create(workspaceId, sessionId, {
-    messages: [
-      {
-        content: `[Tool] ${summary}`,
-        peer_id: config.claudePeer,
-        metadata: {
-          ...(instanceId ? { instance_id: instanceId } : {}),
-          session_affinity: sessionName,  // Tag for project-scoped fact extraction
-        },
-      },
-    ],
-  });
+  process.exit(0);
 }
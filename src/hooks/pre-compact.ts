@@ -1,6 +1,5 @@
 import Honcho from "@honcho-ai/core";
-import { loadConfig, getSessionForPath, getHonchoClientOptions } from "../config.js";
-import { basename } from "path";
+import { loadConfig, setProjectDir, getSessionName, getHonchoClientOptions, getHookOutputFormat } from "../config.js";
 import {
   getCachedWorkspaceId,
   setCachedWorkspaceId,
@@ -8,9 +7,16 @@ import {
   setCachedPeerId,
   getCachedSessionId,
   setCachedSessionId,
+  getContextCacheKey,
+  getLastKnownContext,
+  resolveClaudeInstanceId,
 } from "../cache.js";
 import { Spinner } from "../spinner.js";
 import { logHook, logApiCall, setLogContext } from "../log.js";
+import { isCircuitOpen, recordOutcome } from "../health.js";
+import { renderContext } from "../templates.js";
+import type { ContextSection } from "../budget.js";
+import { getProjectMode } from "../ignore.js";
 
 const WORKSPACE_APP_TAG = "honcho-clawd";
 
@@ -22,107 +28,138 @@ interface HookInput {
   custom_instructions?: string;
 }
 
-function getSessionName(cwd: string): string {
-  const configuredSession = getSessionForPath(cwd);
-  if (configuredSession) {
-    return configuredSession;
-  }
-  return basename(cwd).toLowerCase().replace(/[^a-z0-9-_]/g, "-");
-}
-
 /**
  * Format a compact memory card that survives summarization
  * This is injected RIGHT BEFORE compaction so it becomes part of the summary
+ * Layout comes from the "pre-compact" template (see templates.ts)
  */
 function formatMemoryCard(
   config: { peerName: string; claudePeer: string; workspace: string },
   sessionName: string,
+  cwd: string,
   userContext: any,
   clawdContext: any,
   summaries: any,
   userDialectic: string | null,
-  clawdDialectic: string | null
+  clawdDialectic: string | null,
+  mode = ""
 ): string {
-  const parts: string[] = [];
-
-  // Header - identity anchor
-  parts.push(`## HONCHO MEMORY ANCHOR (Pre-Compaction Injection)
-This context is being injected because the conversation is about to be summarized.
-These facts MUST be preserved in the summary.
-
-### Session Identity
-- User: ${config.peerName}
-- AI: ${config.claudePeer}
-- Workspace: ${config.workspace}
-- Session: ${sessionName}`);
+  const sections: ContextSection[] = [];
+
+  // Identity anchor
+  sections.push({
+    id: "identity",
+    items: [
+      `- User: ${config.peerName}`,
+      `- AI: ${config.claudePeer}`,
+      `- Workspace: ${config.workspace}`,
+      `- Session: ${sessionName}`,
+    ].map((text) => ({ text, source: "header" })),
+  });
 
   // User profile - critical to preserve
   if (userContext?.peer_card?.length > 0) {
-    parts.push(`### ${config.peerName}'s Profile (PRESERVE)
-${userContext.peer_card.join("\n")}`);
+    sections.push({
+      id: "user-profile",
+      items: userContext.peer_card.map((line: string) => ({ text: line, source: "profile" })),
+    });
   }
 
   // Key user facts - explicit knowledge
   if (userContext?.representation?.explicit?.length > 0) {
-    const facts = userContext.representation.explicit
-      .slice(0, 10)
-      .map((e: any) => `- ${e.content || e}`)
-      .join("\n");
-    parts.push(`### Key Facts About ${config.peerName} (PRESERVE)
-${facts}`);
+    sections.push({
+      id: "user-facts",
+      items: userContext.representation.explicit
+        .slice(0, 10)
+        .map((e: any) => ({ text: `- ${e.content || e}`, source: "user" })),
+    });
   }
 
   // User preferences from deductive reasoning
   if (userContext?.representation?.deductive?.length > 0) {
-    const insights = userContext.representation.deductive
-      .slice(0, 5)
-      .map((d: any) => `- ${d.conclusion}`)
-      .join("\n");
-    parts.push(`### ${config.peerName}'s Preferences & Patterns (PRESERVE)
-${insights}`);
+    sections.push({
+      id: "user-insights",
+      items: userContext.representation.deductive
+        .slice(0, 5)
+        .map((d: any) => ({ text: `- ${d.conclusion}`, source: "user-deduced" })),
+    });
   }
 
   // Clawd's self-context - what was I working on
   if (clawdContext?.representation?.explicit?.length > 0) {
-    const clawdFacts = clawdContext.representation.explicit
-      .slice(0, 8)
-      .map((e: any) => `- ${e.content || e}`)
-      .join("\n");
-    parts.push(`### ${config.claudePeer}'s Recent Work (PRESERVE)
-${clawdFacts}`);
+    sections.push({
+      id: "clawd-work",
+      items: clawdContext.representation.explicit
+        .slice(0, 8)
+        .map((e: any) => ({ text: `- ${e.content || e}`, source: "clawd" })),
+    });
   }
 
   // Session summary - what we were doing
   if (summaries?.short_summary?.content) {
-    parts.push(`### Session Context (PRESERVE)
-${summaries.short_summary.content}`);
+    sections.push({ id: "summary", items: [{ text: summaries.short_summary.content, source: "summary" }] });
   }
 
   // Fresh dialectic insights - expensive but worth it at compaction time
   if (userDialectic) {
-    parts.push(`### AI Understanding of ${config.peerName} (PRESERVE)
-${userDialectic}`);
+    sections.push({ id: "user-dialectic", items: [{ text: userDialectic, source: "dialectic" }] });
   }
 
   if (clawdDialectic) {
-    parts.push(`### ${config.claudePeer}'s Self-Reflection (PRESERVE)
-${clawdDialectic}`);
+    sections.push({ id: "clawd-dialectic", items: [{ text: clawdDialectic, source: "dialectic" }] });
   }
 
-  parts.push(`### End Memory Anchor
-The above context represents persistent memory from Honcho.
-When summarizing this conversation, ensure these facts are preserved.`);
+  return renderContext("pre-compact", sections, {
+    peerName: config.peerName,
+    claudePeer: config.claudePeer,
+    workspace: config.workspace,
+    session: sessionName,
+    cwd,
+    mode,
+  });
+}
 
-  return parts.join("\n\n");
+/**
+ * Emit the memory card as hookSpecificOutput JSON, or as plain text
+ * on stdout when hookOutput is "text" (legacy)
+ */
+function outputMemoryCard(memoryCard: string): void {
+  if (getHookOutputFormat() === "text") {
+    console.log(memoryCard);
+    return;
+  }
+  const output = {
+    hookSpecificOutput: {
+      hookEventName: "PreCompact",
+      additionalContext: memoryCard,
+    },
+  };
+  console.log(JSON.stringify(output));
 }
 
-export async function handlePreCompact(): Promise<void> {
-  const config = loadConfig();
-  if (!config) {
-    // No config, nothing to inject
-    process.exit(0);
+function outputOfflineAnchor(config: { peerName: string; claudePeer: string; workspace: string }, cwd: string, hookInput: HookInput): void {
+  const instanceId = resolveClaudeInstanceId(hookInput.session_id, cwd, hookInput.transcript_path);
+  const { userContext, clawdContext } = getLastKnownContext(getContextCacheKey(cwd, instanceId), cwd);
+  if (!userContext && !clawdContext) {
+    logHook("pre-compact", `Offline, no cached memory to anchor`);
+    return;
   }
+  const memoryCard = formatMemoryCard(
+    config,
+    getSessionName(cwd),
+    cwd,
+    userContext?.data ?? null,
+    clawdContext?.data ?? null,
+    null,
+    null,
+    null,
+    " - OFFLINE, cached context may be stale"
+  );
+  logHook("pre-compact", `Offline, anchored cached memory (${memoryCard.length} chars)`);
+  outputMemoryCard(memoryCard);
+}
 
+export async function handlePreCompact(): Promise<void> {
   let hookInput: HookInput = {};
   try {
     const input = await Bun.stdin.text();
@@ -134,13 +171,33 @@ export async function handlePreCompact(): Promise<void> {
   }
 
   const cwd = hookInput.cwd || process.cwd();
+
+  // Project .honcho-clawd.json (if any) layers over the user config
+  setProjectDir(cwd);
+  const config = loadConfig();
+  if (!config) {
+    // No config, nothing to inject
+    process.exit(0);
+  }
+
   const trigger = hookInput.trigger || "auto";
 
   // Set log context
   setLogContext(cwd, getSessionName(cwd));
 
+  // Opted out via .honchoignore / ignore.paths: no Honcho memory to anchor
+  if (getProjectMode(cwd) !== "upload") {
+    process.exit(0);
+  }
+
   logHook("pre-compact", `Compaction triggered (${trigger})`);
 
+  // Offline: anchor the last cached memory instead of waiting on Honcho
+  if (isCircuitOpen()) {
+    outputOfflineAnchor(config, cwd, hookInput);
+    process.exit(0);
+  }
+
   // Show spinner for auto compaction (context window full)
   const spinner = new Spinner({ style: "neural" });
   if (trigger === "auto") {
@@ -163,7 +220,7 @@ export async function handlePreCompact(): Promise<void> {
 
     // Get session ID (use cache)
     const sessionName = getSessionName(cwd);
-    let sessionId = getCachedSessionId(cwd);
+    let sessionId = getCachedSessionId(cwd, sessionName);
     if (!sessionId) {
       const session = await client.workspaces.sessions.getOrCreate(workspaceId, {
         id: sessionName,
@@ -241,6 +298,7 @@ export async function handlePreCompact(): Promise<void> {
     const memoryCard = formatMemoryCard(
       config,
       sessionName,
+      cwd,
       userContext,
       clawdContext,
       summaries,
@@ -256,13 +314,18 @@ export async function handlePreCompact(): Promise<void> {
 
     // Output the memory card - this gets included in pre-compaction context
     // and will be preserved in the summary
-    console.log(`[${config.claudePeer}/Honcho Memory Anchor]\n\n${memoryCard}`);
+    outputMemoryCard(memoryCard);
     process.exit(0);
   } catch (error) {
     logHook("pre-compact", `Error: ${error}`, { error: String(error) });
+    recordOutcome(error);
     if (trigger === "auto") {
       spinner.fail("memory anchor failed");
     }
+    if (isCircuitOpen()) {
+      outputOfflineAnchor(config, cwd, hookInput);
+      process.exit(0);
+    }
     // Don't block compaction on failure
     console.error(`[honcho-clawd] Pre-compact warning: ${error}`);
     process.exit(0);
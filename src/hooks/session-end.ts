@@ -1,25 +1,18 @@
-import Honcho from "@honcho-ai/core";
-import { loadConfig, getSessionForPath, getHonchoClientOptions } from "../config.js";
-import { existsSync, readFileSync } from "fs";
-import { basename } from "path";
+import { loadConfig, setProjectDir, getSessionName } from "../config.js";
 import {
-  getCachedWorkspaceId,
-  setCachedWorkspaceId,
-  getCachedPeerId,
-  setCachedPeerId,
-  getCachedSessionId,
-  setCachedSessionId,
-  getQueuedMessages,
-  markMessagesUploaded,
+  queueMessage,
   generateClawdSummary,
   saveClawdLocalContext,
   loadClawdLocalContext,
-  getClaudeInstanceId,
+  resolveClaudeInstanceId,
+  takeTurnExploration,
 } from "../cache.js";
 import { playCooldown } from "../spinner.js";
-import { logHook, logApiCall, setLogContext } from "../log.js";
-
-const WORKSPACE_APP_TAG = "honcho-clawd";
+import { logHook, setLogContext } from "../log.js";
+import { requestFlush } from "../daemon.js";
+import { getProjectMode } from "../ignore.js";
+import { ingestTranscript, readTranscriptMessages } from "../transcript.js";
+import { addTurnHeat, formatExploration } from "../exploration.js";
 
 interface HookInput {
   session_id?: string;
@@ -28,145 +21,6 @@ interface HookInput {
   reason?: string;
 }
 
-interface TranscriptEntry {
-  type: string;
-  message?: {
-    role?: string;
-    content: string | Array<{ type: string; text?: string; name?: string; input?: any }>;
-  };
-  // Alternative format sometimes seen
-  role?: string;
-  content?: string | Array<{ type: string; text?: string }>;
-}
-
-function getSessionName(cwd: string): string {
-  const configuredSession = getSessionForPath(cwd);
-  if (configuredSession) {
-    return configuredSession;
-  }
-  return basename(cwd).toLowerCase().replace(/[^a-z0-9-_]/g, "-");
-}
-
-/**
- * Check if assistant content is meaningful prose vs just tool acknowledgment
- * We want to capture explanations, summaries, recommendations - not "I'll run git status"
- */
-function isMeaningfulAssistantContent(content: string): boolean {
-  // Skip very short responses
-  if (content.length < 50) return false;
-
-  // Skip responses that are mostly tool invocation announcements
-  const toolAnnouncements = [
-    /^(I'll|Let me|I'm going to|I will|Now I'll|First,? I'll)\s+(run|use|execute|check|read|look at|search|edit|write|create)/i,
-    /^Running\s+/i,
-    /^Checking\s+/i,
-    /^Looking at\s+/i,
-  ];
-  for (const pattern of toolAnnouncements) {
-    if (pattern.test(content.trim()) && content.length < 200) {
-      return false;
-    }
-  }
-
-  // Skip if it's just acknowledging tool results without explanation
-  if (/^(The command|The file|The output|This shows|Here's what)/i.test(content.trim()) && content.length < 150) {
-    return false;
-  }
-
-  // Keep: explanations, summaries, recommendations, analysis
-  const meaningfulPatterns = [
-    /\b(because|since|therefore|however|although|this means|in summary|to summarize|the issue is|the problem is|I recommend|you should|we should|this approach|the solution|key point|important|note that)\b/i,
-    /\b(implemented|fixed|resolved|completed|added|created|updated|changed|modified|refactored)\b/i,
-    /\b(error|bug|issue|problem|solution|fix|improvement|optimization)\b/i,
-  ];
-  for (const pattern of meaningfulPatterns) {
-    if (pattern.test(content)) {
-      return true;
-    }
-  }
-
-  // If it's long enough, probably meaningful
-  return content.length >= 200;
-}
-
-function parseTranscript(transcriptPath: string): Array<{ role: string; content: string; isMeaningful?: boolean }> {
-  const messages: Array<{ role: string; content: string; isMeaningful?: boolean }> = [];
-
-  if (!transcriptPath || !existsSync(transcriptPath)) {
-    return messages;
-  }
-
-  try {
-    const content = readFileSync(transcriptPath, "utf-8");
-    const lines = content.split("\n").filter((line) => line.trim());
-
-    for (const line of lines) {
-      try {
-        const entry: TranscriptEntry = JSON.parse(line);
-
-        // Handle different transcript formats
-        const entryType = entry.type || entry.role;
-        const messageContent = entry.message?.content || entry.content;
-
-        if (entryType === "user" && messageContent) {
-          const userContent =
-            typeof messageContent === "string"
-              ? messageContent
-              : messageContent
-                  .filter((p) => p.type === "text")
-                  .map((p) => p.text || "")
-                  .join("\n");
-          if (userContent && userContent.trim()) {
-            messages.push({ role: "user", content: userContent });
-          }
-        } else if (entryType === "assistant" && messageContent) {
-          let assistantContent = "";
-
-          if (typeof messageContent === "string") {
-            assistantContent = messageContent;
-          } else if (Array.isArray(messageContent)) {
-            // Extract text blocks (skip tool_use blocks - those are captured by PostToolUse)
-            const textBlocks = messageContent
-              .filter((p) => p.type === "text" && p.text)
-              .map((p) => p.text!)
-              .join("\n\n");
-
-            // Also note what tools were used for context
-            const toolUses = messageContent
-              .filter((p) => p.type === "tool_use")
-              .map((p: any) => p.name)
-              .filter(Boolean);
-
-            assistantContent = textBlocks;
-
-            // If there were tool uses but minimal text, note what tools were used
-            if (toolUses.length > 0 && textBlocks.length < 100) {
-              assistantContent = textBlocks + (textBlocks ? "\n" : "") + `[Used tools: ${toolUses.join(", ")}]`;
-            }
-          }
-
-          if (assistantContent && assistantContent.trim()) {
-            const isMeaningful = isMeaningfulAssistantContent(assistantContent);
-            // Truncate but keep more of meaningful content
-            const maxLen = isMeaningful ? 3000 : 1500;
-            messages.push({
-              role: "assistant",
-              content: assistantContent.slice(0, maxLen),
-              isMeaningful,
-            });
-          }
-        }
-      } catch {
-        continue;
-      }
-    }
-  } catch {
-    // Failed to read transcript
-  }
-
-  return messages;
-}
-
 function extractWorkItems(assistantMessages: string[]): string[] {
   const workItems: string[] = [];
   const actionPatterns = [
@@ -192,11 +46,6 @@ function extractWorkItems(assistantMessages: string[]): string[] {
 }
 
 export async function handleSessionEnd(): Promise<void> {
-  const config = loadConfig();
-  if (!config) {
-    process.exit(0);
-  }
-
   let hookInput: HookInput = {};
   try {
     const input = await Bun.stdin.text();
@@ -208,8 +57,22 @@ export async function handleSessionEnd(): Promise<void> {
   }
 
   const cwd = hookInput.cwd || process.cwd();
+
+  // Project .honcho-clawd.json (if any) layers over the user config
+  setProjectDir(cwd);
+  const config = loadConfig();
+  if (!config) {
+    process.exit(0);
+  }
+
+  // Opted out via .honchoignore / ignore.paths: skip does nothing, local-only keeps clawd-context.md
+  const projectMode = getProjectMode(cwd);
+  if (projectMode === "skip") {
+    process.exit(0);
+  }
   const reason = hookInput.reason || "unknown";
   const transcriptPath = hookInput.transcript_path;
+  const instanceId = resolveClaudeInstanceId(hookInput.session_id, cwd, transcriptPath);
 
   // Set log context
   setLogContext(cwd, getSessionName(cwd));
@@ -220,121 +83,47 @@ export async function handleSessionEnd(): Promise<void> {
   logHook("session-end", `Session ending`, { reason });
 
   try {
-    const client = new Honcho(getHonchoClientOptions(config));
-
-    // Get or create workspace (use cache)
-    let workspaceId = getCachedWorkspaceId(config.workspace);
-    if (!workspaceId) {
-      const workspace = await client.workspaces.getOrCreate({
-        id: config.workspace,
-        metadata: { app: WORKSPACE_APP_TAG },
-      });
-      workspaceId = workspace.id;
-      setCachedWorkspaceId(config.workspace, workspaceId);
-    }
-
-    // Get or create session (use cache)
     const sessionName = getSessionName(cwd);
-    let sessionId = getCachedSessionId(cwd);
-    if (!sessionId) {
-      const session = await client.workspaces.sessions.getOrCreate(workspaceId, {
-        id: sessionName,
-        metadata: { cwd },
-      });
-      sessionId = session.id;
-      setCachedSessionId(cwd, sessionName, sessionId);
-    }
-
-    // Ensure peers exist (use cache)
-    let userPeerId = getCachedPeerId(config.peerName);
-    let clawdPeerId = getCachedPeerId(config.claudePeer);
-
-    if (!userPeerId) {
-      const peer = await client.workspaces.peers.getOrCreate(workspaceId, { id: config.peerName });
-      userPeerId = peer.id;
-      setCachedPeerId(config.peerName, peer.id);
-    }
-    if (!clawdPeerId) {
-      const peer = await client.workspaces.peers.getOrCreate(workspaceId, { id: config.claudePeer });
-      clawdPeerId = peer.id;
-      setCachedPeerId(config.claudePeer, peer.id);
-    }
-
-    // Parse transcript
-    const transcriptMessages = transcriptPath ? parseTranscript(transcriptPath) : [];
-
-    // =====================================================
-    // Step 1: Upload queued user messages (backup for failed fire-and-forget)
-    // Only upload messages for THIS session (by cwd), not other sessions
-    // =====================================================
-    const instanceId = getClaudeInstanceId();
-    const queuedMessages = getQueuedMessages(cwd);  // Filter by current session's cwd
-    logHook("session-end", `Processing ${queuedMessages.length} queued messages`);
-    if (queuedMessages.length > 0) {
-      // Skip oversized messages (likely pastes/dumps, not useful observations)
-      const validMessages = queuedMessages.filter((msg) => msg.content.length < 5000);
-      if (validMessages.length > 0) {
-        logApiCall("sessions.messages.create", "POST", `${validMessages.length} queued user messages`);
-        const userMessages = validMessages.map((msg) => ({
-          content: msg.content,
-          peer_id: config.peerName,
-          metadata: {
-            ...(msg.instanceId ? { instance_id: msg.instanceId } : {}),
-            session_affinity: sessionName,  // Tag for project-scoped fact extraction
-          },
-        }));
-        await client.workspaces.sessions.messages.create(workspaceId, sessionId, {
-          messages: userMessages,
-        });
-      }
-      markMessagesUploaded(cwd);  // Only clear this session's messages
-    }
 
     // =====================================================
-    // Step 2: Save assistant messages that weren't captured by post-tool-use
+    // Step 1: Queue assistant prose not yet ingested by the stop hook
     // post-tool-use only logs tool activity, not Claude's prose responses
     // This captures: explanations, summaries, recommendations, analysis
+    // Only entries past the transcript cursor are read, each uploaded once
     // =====================================================
-    let assistantMessages: Array<{ role: string; content: string; isMeaningful?: boolean }> = [];
-    if (config.saveMessages !== false && transcriptMessages.length > 0) {
-      // Extract assistant prose - prioritize meaningful content
-      const allAssistant = transcriptMessages.filter((msg) => msg.role === "assistant");
-
-      // Prioritize meaningful messages (explanations, summaries, etc.)
-      const meaningful = allAssistant.filter((msg) => msg.isMeaningful);
-      const other = allAssistant.filter((msg) => !msg.isMeaningful);
-
-      // Take all meaningful + recent others, up to 40 total
-      assistantMessages = [
-        ...meaningful.slice(-25),  // Keep more meaningful content
-        ...other.slice(-15),       // Keep some context
-      ].slice(-40);
-
-      // Upload assistant messages for clawd peer knowledge extraction
-      // This is the KEY fix: capturing actual reasoning, not just tool calls
-      if (assistantMessages.length > 0) {
-        const meaningfulCount = assistantMessages.filter(m => m.isMeaningful).length;
-        logApiCall("sessions.messages.create", "POST", `${assistantMessages.length} assistant msgs (${meaningfulCount} meaningful)`);
-
-        const messagesToSend = assistantMessages.map((msg) => ({
-          content: msg.content,
-          peer_id: config.claudePeer,
-          metadata: {
-            ...(instanceId ? { instance_id: instanceId } : {}),
-            type: msg.isMeaningful ? 'assistant_prose' : 'assistant_brief',
-            meaningful: msg.isMeaningful || false,
-            session_affinity: sessionName,  // Tag for project-scoped fact extraction
-          },
-        }));
-
-        await client.workspaces.sessions.messages.create(workspaceId, sessionId, {
-          messages: messagesToSend,
+    const ingested = ingestTranscript(transcriptPath, {
+      peerId: config.claudePeer,
+      cwd,
+      instanceId,
+      sessionName,
+      upload: projectMode === "upload" && config.saveMessages !== false,
+    });
+    const newAssistant = ingested.filter((msg) => msg.role === "assistant");
+
+    // Reads and searches from a turn the stop hook didn't finish
+    const turn = takeTurnExploration(instanceId || cwd);
+    if (turn) {
+      addTurnHeat(turn);
+      const exploration = formatExploration(turn);
+      if (exploration && projectMode === "upload" && config.saveMessages !== false) {
+        queueMessage(`[Exploration] ${exploration}`, config.claudePeer, cwd, instanceId || undefined, {
+          sessionName,
+          metadata: { type: "exploration", reads: turn.reads, searches: turn.searches },
         });
       }
     }
 
+    // The local summary still looks at the whole session
+    const transcriptMessages = transcriptPath ? readTranscriptMessages(transcriptPath) : [];
+    const allAssistant = transcriptMessages.filter((msg) => msg.role === "assistant");
+    // Prioritize meaningful messages (explanations, summaries, etc.)
+    const assistantMessages = [
+      ...allAssistant.filter((msg) => msg.isMeaningful).slice(-25),
+      ...allAssistant.filter((msg) => !msg.isMeaningful).slice(-15),
+    ].slice(-40);
+
     // =====================================================
-    // Step 3: Generate and save clawd self-summary
+    // Step 2: Generate and save clawd self-summary
     // =====================================================
     const workItems = extractWorkItems(assistantMessages.map((m) => m.content));
     const existingContext = loadClawdLocalContext();
@@ -357,25 +146,44 @@ export async function handleSessionEnd(): Promise<void> {
     // Append preserved activity
     saveClawdLocalContext(newSummary + recentActivity);
 
+    if (projectMode === "local-only") {
+      logHook("session-end", `Local-only project: saved clawd-context.md, nothing uploaded`);
+      process.exit(0);
+    }
+
     // =====================================================
-    // Step 4: Log session end marker
+    // Step 3: Queue session end marker
     // =====================================================
-    await client.workspaces.sessions.messages.create(workspaceId, sessionId, {
-      messages: [
-        {
-          content: `[Session ended] Reason: ${reason}, Messages: ${transcriptMessages.length}, Time: ${new Date().toISOString()}`,
-          peer_id: config.claudePeer,
-          metadata: {
-            ...(instanceId ? { instance_id: instanceId } : {}),
-            session_affinity: sessionName,  // Tag for project-scoped fact extraction
-          },
-        },
-      ],
-    });
+    queueMessage(
+      `[Session ended] Reason: ${reason}, Messages: ${transcriptMessages.length}, Time: ${new Date().toISOString()}`,
+      config.claudePeer,
+      cwd,
+      instanceId || undefined,
+      { sessionName }
+    );
+
+    // =====================================================
+    // Step 4: Flush everything queued from this directory
+    // Includes user prompts and tool logs whose earlier uploads failed (backoff is skipped)
+    // =====================================================
+    const result = await requestFlush(config, { cwd, force: true });
 
-    const meaningfulCount = assistantMessages.filter(m => m.isMeaningful).length;
-    logHook("session-end", `Session saved: ${assistantMessages.length} assistant msgs (${meaningfulCount} meaningful), ${queuedMessages.length} queued msgs`);
-    console.log(`[honcho-clawd] Session saved: ${assistantMessages.length} assistant messages (${meaningfulCount} with meaningful prose), ${queuedMessages.length} queued messages`);
+    const meaningfulCount = newAssistant.filter(m => m.isMeaningful).length;
+    if (!result) {
+      logHook("session-end", `Session saved: ${newAssistant.length} new assistant msgs (${meaningfulCount} meaningful), upload handed to daemon`);
+      console.log(`[honcho-clawd] Session saved: ${newAssistant.length} new assistant messages (${meaningfulCount} with meaningful prose), uploading in background`);
+      process.exit(0);
+    }
+    if (result.offline) {
+      logHook("session-end", `Session saved locally: Honcho offline, messages queued for replay`);
+      console.log(`[honcho-clawd] Session saved: ${newAssistant.length} new assistant messages (${meaningfulCount} with meaningful prose), Honcho offline - queued for upload`);
+      process.exit(0);
+    }
+    logHook("session-end", `Session saved: ${newAssistant.length} new assistant msgs (${meaningfulCount} meaningful), ${result.uploaded} uploaded, ${result.retrying} retrying`);
+    console.log(`[honcho-clawd] Session saved: ${newAssistant.length} new assistant messages (${meaningfulCount} with meaningful prose), ${result.uploaded} messages uploaded`);
+    if (result.retrying > 0 || result.deadLettered > 0) {
+      console.error(`[honcho-clawd] Warning: ${result.retrying} messages will retry, ${result.deadLettered} moved to dead-letter queue (see: honcho-clawd queue)`);
+    }
     process.exit(0);
   } catch (error) {
     logHook("session-end", `Error: ${error}`, { error: String(error) });
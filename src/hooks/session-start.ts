@@ -1,6 +1,5 @@
 import Honcho from "@honcho-ai/core";
-import { loadConfig, getSessionForPath, setSessionForPath, getHonchoClientOptions } from "../config.js";
-import { basename } from "path";
+import { loadConfig, setProjectDir, getConfigProblem, getSessionForPath, getSessionName, setSessionForPath, getHonchoClientOptions, getOfflineConfig, getHookOutputFormat, type HonchoCLAWDConfig } from "../config.js";
 import {
   getCachedWorkspaceId,
   setCachedWorkspaceId,
@@ -10,19 +9,32 @@ import {
   setCachedSessionId,
   setCachedUserContext,
   setCachedClawdContext,
+  getContextCacheKey,
   loadClawdLocalContext,
   resetMessageCount,
   setClaudeInstanceId,
+  queueMessage,
   getCachedGitState,
   setCachedGitState,
   detectGitChanges,
+  getLastKnownContext,
+  getLatestTodos,
   type GitState,
   type GitStateChange,
+  type CachedContextSnapshot,
+  type GitFeatureContext,
 } from "../cache.js";
 import { Spinner } from "../spinner.js";
-import { displayHonchoStartup } from "../pixel.js";
+import { displayHonchoStartup, displayHonchoStartupTTY } from "../pixel.js";
 import { captureGitState, getRecentCommits, formatGitContext, isGitRepo, inferFeatureContext, formatFeatureContext } from "../git.js";
 import { logHook, logApiCall, logCache, logFlow, logAsync, setLogContext } from "../log.js";
+import { requestFlush, watchSession } from "../daemon.js";
+import { checkHonchoHealth, recordOutcome } from "../health.js";
+import { assembleContext, type ContextItem, type ContextSection } from "../budget.js";
+import { loadTemplate, applyTemplate, renderTemplate } from "../templates.js";
+import { getProjectMode } from "../ignore.js";
+import { formatHotArea, getHotAreas } from "../exploration.js";
+import { formatUnfinishedTodos } from "../todos.js";
 
 const WORKSPACE_APP_TAG = "honcho-clawd";
 
@@ -33,14 +45,6 @@ interface HookInput {
   source?: string;
 }
 
-function getSessionName(cwd: string): string {
-  const configuredSession = getSessionForPath(cwd);
-  if (configuredSession) {
-    return configuredSession;
-  }
-  return basename(cwd).toLowerCase().replace(/[^a-z0-9-_]/g, "-");
-}
-
 /**
  * Sort facts by recency (most recent first)
  * Falls back to original order if no timestamps available
@@ -56,39 +60,272 @@ function sortByRecency<T extends { created_at?: string; metadata?: { created_at?
   });
 }
 
-function formatRepresentation(rep: any): string {
-  const parts: string[] = [];
-
-  if (rep?.explicit?.length > 0) {
-    // Sort by recency - recent facts are more relevant
-    const sorted = sortByRecency(rep.explicit);
-    const explicit = sorted
-      .slice(0, 12)  // Reduced from 15 for less noise
-      .map((e: any) => `- ${e.content || e}`)
-      .join("\n");
-    parts.push(`### Explicit Facts\n${explicit}`);
+/**
+ * One budget item per fact, newest first. How many make it in is up to the budget.
+ */
+function representationItems(rep: any, source: "user" | "clawd"): ContextItem[] {
+  const items: ContextItem[] = [];
+  for (const e of sortByRecency<any>(rep?.explicit || [])) {
+    items.push({
+      text: `- ${e.content || e}`,
+      source,
+      group: "### Explicit Facts",
+      timestamp: e.created_at || e.metadata?.created_at,
+    });
+  }
+  for (const d of sortByRecency<any>(rep?.deductive || [])) {
+    items.push({
+      text: `- ${d.conclusion} (from: ${d.premises?.join(", ") || "prior observations"})`,
+      source: source === "user" ? "user-deduced" : "clawd",
+      group: "### Deduced Insights",
+      timestamp: d.created_at || d.metadata?.created_at,
+    });
   }
+  return items;
+}
+
+// Profile as compact lines, then key facts (session-scoped, so should be relevant)
+function profileSection(context: any): ContextSection {
+  const items: ContextItem[] = (context?.peer_card || []).map((line: string) => ({ text: line, source: "profile" }));
+  return { id: "user-profile", items: [...items, ...representationItems(context?.representation, "user")] };
+}
+
+function workHistorySection(context: any): ContextSection {
+  return { id: "clawd-history", items: representationItems(context?.representation, "clawd") };
+}
+
+/**
+ * What the current work is about, for scoring relevance
+ */
+function budgetKeywords(currentGitState: GitState | null, featureContext: GitFeatureContext | null): string[] {
+  return [
+    ...(currentGitState ? [currentGitState.branch] : []),
+    ...(featureContext?.keywords || []),
+    ...(featureContext?.areas || []),
+  ];
+}
 
-  if (rep?.deductive?.length > 0) {
-    // Sort by recency
-    const sorted = sortByRecency(rep.deductive);
-    const deductive = sorted
-      .slice(0, 8)  // Reduced from 10 for less noise
-      .map((d: any) => `- ${d.conclusion} (from: ${d.premises?.join(", ") || "prior observations"})`)
-      .join("\n");
-    parts.push(`### Deduced Insights\n${deductive}`);
+/**
+ * {{variables}} for the session-start template
+ */
+function templateVars(config: HonchoCLAWDConfig, sessionName: string, cwd: string, extra: Record<string, string> = {}): Record<string, string> {
+  return {
+    peerName: config.peerName,
+    claudePeer: config.claudePeer,
+    workspace: config.workspace,
+    session: sessionName,
+    cwd,
+    status: "Active",
+    mode: "",
+    userStale: "",
+    clawdStale: "",
+    ...extra,
+  };
+}
+
+/**
+ * Order and title sections per the template, fit them into the token budget, render
+ */
+function renderSessionContext(sections: ContextSection[], vars: Record<string, string>, keywords: string[]): { text: string; sectionCount: number } {
+  const template = loadTemplate("session-start");
+  const { sections: kept } = assembleContext(applyTemplate(template, sections, vars), keywords);
+  return { text: renderTemplate(template, kept, vars), sectionCount: kept.length };
+}
+
+/**
+ * Hand the context to Claude as hookSpecificOutput JSON, with the pixel art
+ * on the terminal only. hookOutput: "text" keeps the legacy stdout output.
+ */
+function outputContext(text: string, label: string): void {
+  if (getHookOutputFormat() === "text") {
+    console.log(displayHonchoStartup(label));
+    console.log(text);
+    return;
   }
+  displayHonchoStartupTTY(label);
+  const output = {
+    hookSpecificOutput: {
+      hookEventName: "SessionStart",
+      additionalContext: text.trim(),
+    },
+  };
+  console.log(JSON.stringify(output));
+}
 
-  return parts.join("\n\n");
+/**
+ * Sections that need no API call: header, feature, git activity, local clawd context
+ */
+function buildLocalSections(
+  config: HonchoCLAWDConfig,
+  sessionName: string,
+  cwd: string,
+  currentGitState: GitState | null,
+  featureContext: GitFeatureContext | null,
+  gitChanges: GitStateChange[]
+): ContextSection[] {
+  const sections: ContextSection[] = [];
+
+  // Header with git context
+  const header = [
+    `- User: ${config.peerName}`,
+    `- AI: ${config.claudePeer}`,
+    `- Workspace: ${config.workspace}`,
+    `- Session: ${sessionName}`,
+    `- Directory: ${cwd}`,
+  ];
+
+  if (currentGitState) {
+    header.push(`- Git Branch: ${currentGitState.branch}`);
+    header.push(`- Git HEAD: ${currentGitState.commit}`);
+    if (currentGitState.isDirty) {
+      header.push(`- Working Tree: ${currentGitState.dirtyFiles.length} uncommitted changes`);
+    }
+  }
+
+  // Add inferred feature context to header
+  if (featureContext && featureContext.confidence !== "low") {
+    header.push(`- Feature: ${featureContext.type} - ${featureContext.description}`);
+    if (featureContext.areas.length > 0) {
+      header.push(`- Areas: ${featureContext.areas.join(", ")}`);
+    }
+  }
+
+  sections.push({ id: "header", items: header.map((text) => ({ text, source: "header", required: true })) });
+
+  // Add inferred feature context section
+  if (featureContext) {
+    const featureSection = [
+      `- Type: ${featureContext.type}`,
+      `- Description: ${featureContext.description}`,
+    ];
+    if (featureContext.keywords.length > 0) {
+      featureSection.push(`- Keywords: ${featureContext.keywords.join(", ")}`);
+    }
+    if (featureContext.areas.length > 0) {
+      featureSection.push(`- Code Areas: ${featureContext.areas.join(", ")}`);
+    }
+    featureSection.push(`- Confidence: ${featureContext.confidence}`);
+    sections.push({
+      id: "feature",
+      items: featureSection.map((text) => ({ text, source: "feature" })),
+    });
+  }
+
+  // Add git changes section if external changes detected
+  if (gitChanges.length > 0) {
+    sections.push({
+      id: "git-activity",
+      items: gitChanges.map((c) => ({ text: `- ${c.description}`, source: "git" })),
+    });
+  }
+
+  // Load local clawd context immediately (instant, no API call)
+  const localClawdContext = loadClawdLocalContext();
+  if (localClawdContext) {
+    sections.push({
+      id: "local-context",
+      items: [{ text: localClawdContext, source: "local", truncatable: true }],
+    });
+  }
+
+  // Where the last session's plan stopped
+  const lastTodos = getLatestTodos(cwd);
+  const unfinished = lastTodos ? formatUnfinishedTodos(lastTodos.todos) : [];
+  if (lastTodos && unfinished.length > 0) {
+    sections.push({
+      id: "todos",
+      items: unfinished.map((text) => ({ text, source: "local", timestamp: lastTodos.updatedAt })),
+    });
+  }
+
+  // Directories whose files were read and edited most, recently
+  const hotAreas = getHotAreas(cwd);
+  if (hotAreas.length > 0) {
+    sections.push({
+      id: "file-heat",
+      items: hotAreas.map((area) => ({ text: formatHotArea(area), source: "local", timestamp: area.updatedAt })),
+    });
+  }
+
+  return sections;
 }
 
-export async function handleSessionStart(): Promise<void> {
-  const config = loadConfig();
-  if (!config) {
-    console.error("[honcho-clawd] Not configured. Run: honcho-clawd init");
-    process.exit(1);
+function formatAge(fetchedAt: number): string {
+  const minutes = Math.round((Date.now() - fetchedAt) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h`;
+  return `${Math.round(minutes / (24 * 60))}d`;
+}
+
+/**
+ * Offline mode: Honcho is unreachable, so inject the last cached
+ * user/clawd context (marked stale) plus everything local. Writes
+ * were already queued and replay once Honcho is back.
+ */
+function outputOfflineContext(
+  config: HonchoCLAWDConfig,
+  sessionName: string,
+  cwd: string,
+  contextKey: string,
+  currentGitState: GitState | null,
+  featureContext: GitFeatureContext | null,
+  gitChanges: GitStateChange[],
+  reason?: string
+): void {
+  logFlow("offline", `Honcho unreachable, using cached memory`, { reason });
+  const sections = buildLocalSections(config, sessionName, cwd, currentGitState, featureContext, gitChanges);
+
+  const { userContext, clawdContext } = getLastKnownContext(contextKey, cwd);
+  const staleNote = (snapshot?: CachedContextSnapshot) =>
+    snapshot ? ` (STALE: cached ${formatAge(snapshot.fetchedAt)} ago, Honcho offline)` : "";
+
+  if (userContext?.data) {
+    sections.push(profileSection(userContext.data));
   }
+  if (clawdContext?.data) {
+    sections.push(workHistorySection(clawdContext.data));
+  }
+  if (!userContext && !clawdContext) {
+    sections.push({
+      id: "cached-memory",
+      items: [{ text: `No cached Honcho context for this directory yet. Messages are queued and will upload when Honcho is reachable.`, source: "header", required: true }],
+    });
+  }
+
+  const vars = templateVars(config, sessionName, cwd, {
+    status: "OFFLINE (showing cached memory)",
+    mode: " - OFFLINE, cached context may be stale",
+    userStale: staleNote(userContext),
+    clawdStale: staleNote(clawdContext),
+  });
+  const { text, sectionCount } = renderSessionContext(sections, vars, budgetKeywords(currentGitState, featureContext));
+  logFlow("complete", `Offline memory: ${sectionCount} sections (cached user: ${!!userContext}, clawd: ${!!clawdContext})`);
+  outputContext(text, "Honcho Memory (offline)");
+}
+
+/**
+ * Local-only project (.honchoignore / ignore.paths): no Honcho calls at all,
+ * just the header, git state and local clawd context
+ */
+function outputLocalOnlyContext(
+  config: HonchoCLAWDConfig,
+  sessionName: string,
+  cwd: string,
+  currentGitState: GitState | null,
+  featureContext: GitFeatureContext | null,
+  gitChanges: GitStateChange[]
+): void {
+  const sections = buildLocalSections(config, sessionName, cwd, currentGitState, featureContext, gitChanges);
+  const vars = templateVars(config, sessionName, cwd, {
+    status: "LOCAL-ONLY (project opted out of Honcho)",
+    mode: " - local only",
+  });
+  const { text, sectionCount } = renderSessionContext(sections, vars, budgetKeywords(currentGitState, featureContext));
+  logFlow("complete", `Local-only memory: ${sectionCount} sections, nothing sent to Honcho`);
+  outputContext(text, "Honcho Memory (local only)");
+}
 
+export async function handleSessionStart(): Promise<void> {
   let hookInput: HookInput = {};
   try {
     const input = await Bun.stdin.text();
@@ -100,19 +337,41 @@ export async function handleSessionStart(): Promise<void> {
   }
 
   const cwd = hookInput.cwd || process.cwd();
+
+  // Project .honcho-clawd.json (if any) layers over the user config
+  setProjectDir(cwd);
+  const config = loadConfig();
+  if (!config) {
+    console.error(`[honcho-clawd] ${getConfigProblem()}`);
+    process.exit(1);
+  }
+
   const claudeInstanceId = hookInput.session_id;
 
   // Store Claude's instance ID for parallel session support
   if (claudeInstanceId) {
-    setClaudeInstanceId(claudeInstanceId);
+    setClaudeInstanceId(claudeInstanceId, cwd, hookInput.transcript_path);
   }
 
   // Set log context early so all logs include cwd/session
   const sessionName = getSessionName(cwd);
   setLogContext(cwd, sessionName);
 
+  // Opted out via .honchoignore / ignore.paths
+  const projectMode = getProjectMode(cwd);
+  if (projectMode === "skip") {
+    logHook("session-start", `Skipping (project ignored)`);
+    process.exit(0);
+  }
+
   // Reset message count for this session (for threshold-based knowledge graph refresh)
-  resetMessageCount();
+  const contextKey = getContextCacheKey(cwd, claudeInstanceId);
+  resetMessageCount(contextKey);
+
+  // Let a running daemon prefetch context here when git state changes
+  if (projectMode === "upload") {
+    await watchSession(cwd, contextKey, sessionName);
+  }
 
   // Capture git state (before any API calls for speed)
   const previousGitState = getCachedGitState(cwd);
@@ -128,6 +387,28 @@ export async function handleSessionStart(): Promise<void> {
     setCachedGitState(cwd, currentGitState);
   }
 
+  // Queue git changes as observations
+  // These capture external activity that happened OUTSIDE of Claude sessions
+  if (gitChanges.length > 0 && config.saveMessages !== false && projectMode === "upload") {
+    for (const change of gitChanges.filter((c) => c.type !== "initial")) { // Don't log initial state as observation
+      queueMessage(`[Git External] ${change.description}`, config.peerName, cwd, claudeInstanceId || undefined, {
+        sessionName,
+        metadata: {
+          type: "git_change",
+          change_type: change.type,
+          from: change.from,
+          to: change.to,
+          external: true, // Mark as external activity (not from Claude)
+        },
+      });
+    }
+  }
+
+  if (projectMode === "local-only") {
+    outputLocalOnlyContext(config, sessionName, cwd, currentGitState, featureContext, gitChanges);
+    process.exit(0);
+  }
+
   // Start loading animation with neural style
   const spinner = new Spinner({ style: "neural" });
   spinner.start("loading memory");
@@ -135,6 +416,16 @@ export async function handleSessionStart(): Promise<void> {
   try {
     logHook("session-start", `Starting session in ${cwd}`, { branch: currentGitState?.branch });
     logFlow("init", `workspace: ${config.workspace}, peers: ${config.peerName}/${config.claudePeer}`);
+
+    // Step 0: Fast health probe - fall back to cached memory if Honcho is down
+    spinner.update("Checking Honcho");
+    const health = await checkHonchoHealth(config);
+    if (!health.online) {
+      spinner.stop();
+      outputOfflineContext(config, sessionName, cwd, contextKey, currentGitState, featureContext, gitChanges, health.reason);
+      process.exit(0);
+    }
+
     const client = new Honcho(getHonchoClientOptions(config));
 
     // Step 1: Get or create workspace (use cache if available)
@@ -157,8 +448,7 @@ export async function handleSessionStart(): Promise<void> {
 
     // Step 2: Get or create session (use cache if available)
     spinner.update("Loading session");
-    const sessionName = getSessionName(cwd);
-    let sessionId = getCachedSessionId(cwd);
+    let sessionId = getCachedSessionId(cwd, sessionName);
 
     // Build session metadata with git info and inferred feature context
     const sessionMetadata: Record<string, any> = { cwd };
@@ -244,95 +534,13 @@ export async function handleSessionStart(): Promise<void> {
       setSessionForPath(cwd, sessionName);
     }
 
-    // Upload git changes as observations (fire-and-forget)
-    // These capture external activity that happened OUTSIDE of Claude sessions
-    if (gitChanges.length > 0 && userPeerId) {
-      const gitObservations = gitChanges
-        .filter((c) => c.type !== "initial") // Don't log initial state as observation
-        .map((change) => ({
-          content: `[Git External] ${change.description}`,
-          metadata: {
-            type: "git_change",
-            change_type: change.type,
-            from: change.from,
-            to: change.to,
-            external: true, // Mark as external activity (not from Claude)
-          },
-        }));
-
-      if (gitObservations.length > 0) {
-        Promise.all(
-          gitObservations.map((obs) =>
-            client.workspaces.sessions.messages.create(workspaceId, sessionId, {
-              peer_id: userPeerId!,
-              is_user: true,
-              content: obs.content,
-              metadata: obs.metadata,
-            })
-          )
-        ).catch((e) => logHook("session-start", `Git observations upload failed: ${e}`));
-      }
-    }
+    // Upload those, plus anything a previous session in this directory left queued
+    const flushPromise = requestFlush(config, { cwd });
 
     // Step 5: PARALLEL fetch all context (the big optimization!)
     spinner.update("Fetching memory context");
     logAsync("context-fetch", "Starting 5 parallel context fetches");
-    const contextParts: string[] = [];
-
-    // Header with git context
-    let headerContent = `## Honcho Memory System Active
-- User: ${config.peerName}
-- AI: ${config.claudePeer}
-- Workspace: ${config.workspace}
-- Session: ${sessionName}
-- Directory: ${cwd}`;
-
-    if (currentGitState) {
-      headerContent += `\n- Git Branch: ${currentGitState.branch}`;
-      headerContent += `\n- Git HEAD: ${currentGitState.commit}`;
-      if (currentGitState.isDirty) {
-        headerContent += `\n- Working Tree: ${currentGitState.dirtyFiles.length} uncommitted changes`;
-      }
-    }
-
-    // Add inferred feature context to header
-    if (featureContext && featureContext.confidence !== "low") {
-      headerContent += `\n- Feature: ${featureContext.type} - ${featureContext.description}`;
-      if (featureContext.areas.length > 0) {
-        headerContent += `\n- Areas: ${featureContext.areas.join(", ")}`;
-      }
-    }
-
-    contextParts.push(headerContent);
-
-    // Add inferred feature context section
-    if (featureContext) {
-      const featureSection = [
-        `## Inferred Feature Context`,
-        `- Type: ${featureContext.type}`,
-        `- Description: ${featureContext.description}`,
-      ];
-      if (featureContext.keywords.length > 0) {
-        featureSection.push(`- Keywords: ${featureContext.keywords.join(", ")}`);
-      }
-      if (featureContext.areas.length > 0) {
-        featureSection.push(`- Code Areas: ${featureContext.areas.join(", ")}`);
-      }
-      featureSection.push(`- Confidence: ${featureContext.confidence}`);
-      contextParts.push(featureSection.join("\n"));
-    }
-
-    // Add git changes section if external changes detected
-    if (gitChanges.length > 0) {
-      const changeDescriptions = gitChanges.map((c) => `- ${c.description}`).join("\n");
-      contextParts.push(`## Git Activity Since Last Session\n${changeDescriptions}`);
-    }
-
-    // Load local clawd context immediately (instant, no API call)
-    const localClawdContext = loadClawdLocalContext();
-    if (localClawdContext) {
-      contextParts.push(`## CLAWD Local Context (What I Was Working On)\n${localClawdContext.slice(0, 2000)}`);
-    }
+    const sections = buildLocalSections(config, sessionName, cwd, currentGitState, featureContext, gitChanges);
 
     // Build context-aware dialectic queries
     const branchContext = currentGitState ? ` They are currently on git branch '${currentGitState.branch}'.` : "";
@@ -394,27 +602,10 @@ export async function handleSessionStart(): Promise<void> {
     // Skips redundant "AI Summary" dialectic if we have good facts
     if (userContextResult.status === "fulfilled" && userContextResult.value) {
       const context = userContextResult.value;
-      setCachedUserContext(context); // Cache for user-prompt hook
+      setCachedUserContext(contextKey, context); // Cache for user-prompt hook
       logCache("write", "userContext", `${context.representation?.explicit?.length || 0} facts`);
 
-      const userSection: string[] = [];
-
-      // Profile as a compact line (not a whole section)
-      if (context.peer_card && context.peer_card.length > 0) {
-        userSection.push(context.peer_card.join("\n"));
-      }
-
-      // Add key facts (session-scoped, so should be relevant)
-      if (context.representation) {
-        const repText = formatRepresentation(context.representation);
-        if (repText) {
-          userSection.push(repText);
-        }
-      }
-
-      if (userSection.length > 0) {
-        contextParts.push(`## ${config.peerName}'s Profile\n${userSection.join("\n\n")}`);
-      }
+      sections.push(profileSection(context));
     }
 
     // Section 2: Recent Work (CONSOLIDATED)
@@ -422,22 +613,20 @@ export async function handleSessionStart(): Promise<void> {
     // Prioritizes concrete work items over vague summaries
     if (clawdContextResult.status === "fulfilled" && clawdContextResult.value) {
       const context = clawdContextResult.value;
-      setCachedClawdContext(context); // Cache
+      setCachedClawdContext(contextKey, context); // Cache
       logCache("write", "clawdContext", `${context.representation?.explicit?.length || 0} facts`);
 
-      if (context.representation) {
-        const repText = formatRepresentation(context.representation);
-        if (repText) {
-          contextParts.push(`## ${config.claudePeer}'s Work History (Self-Context)\n${repText}`);
-        }
-      }
+      sections.push(workHistorySection(context));
     }
 
     // Session summary - only include SHORT summary (skip Extended History to reduce noise)
     if (summariesResult.status === "fulfilled" && summariesResult.value) {
       const s = summariesResult.value as any;
       if (s.short_summary?.content) {
-        contextParts.push(`## Recent Session Summary\n${s.short_summary.content}`);
+        sections.push({
+          id: "summary",
+          items: [{ text: s.short_summary.content, source: "summary", truncatable: true }],
+        });
       }
       // Skip long_summary - it overlaps with facts and adds too many tokens
     }
@@ -451,27 +640,45 @@ export async function handleSessionStart(): Promise<void> {
 
     // Only show AI Summary if we don't have enough facts
     if (!hasGoodUserFacts && userChatResult.status === "fulfilled" && userChatResult.value?.content) {
-      contextParts.push(`## AI Summary of ${config.peerName}\n${userChatResult.value.content}`);
+      sections.push({
+        id: "user-dialectic",
+        items: [{ text: userChatResult.value.content, source: "dialectic", truncatable: true }],
+      });
     }
 
     // Only show AI Self-Reflection if we don't have enough clawd facts
     if (!hasGoodClawdFacts && clawdChatResult.status === "fulfilled" && clawdChatResult.value?.content) {
-      contextParts.push(`## AI Self-Reflection (What ${config.claudePeer} Has Been Doing)\n${clawdChatResult.value.content}`);
+      sections.push({
+        id: "clawd-dialectic",
+        items: [{ text: clawdChatResult.value.content, source: "dialectic", truncatable: true }],
+      });
     }
 
+    // Fit everything into the token budget, best items first
+    const { text, sectionCount } = renderSessionContext(
+      sections,
+      templateVars(config, sessionName, cwd),
+      budgetKeywords(currentGitState, featureContext)
+    );
+
     // Stop spinner and display pixel art
     spinner.stop();
 
-    logFlow("complete", `Memory loaded: ${contextParts.length} sections, ${successCount}/5 API calls succeeded`);
-
-    // Display Honcho pixel character with startup message
-    console.log(displayHonchoStartup("Honcho Memory"));
+    logFlow("complete", `Memory loaded: ${sectionCount} sections, ${successCount}/5 API calls succeeded`);
 
-    // Output all context
-    console.log(`\n[${config.claudePeer}/Honcho Memory Loaded]\n\n${contextParts.join("\n\n")}`);
+    // Output all context, with the Honcho pixel character and startup message
+    outputContext(text, "Honcho Memory");
+    await flushPromise;
     process.exit(0);
   } catch (error) {
     logHook("session-start", `Error: ${error}`, { error: String(error) });
+    recordOutcome(error);
+    if (getOfflineConfig().enabled) {
+      // Still give Claude its memory - just the cached copy
+      spinner.stop();
+      outputOfflineContext(config, sessionName, cwd, contextKey, currentGitState, featureContext, gitChanges, String(error));
+      process.exit(0);
+    }
     spinner.fail("memory load failed");
     console.error(`[honcho-clawd] ${error}`);
     process.exit(1);
@@ -1,17 +1,10 @@
-import Honcho from "@honcho-ai/core";
-import { loadConfig, getSessionForPath, getHonchoClientOptions } from "../config.js";
-import { basename } from "path";
-import { existsSync, readFileSync } from "fs";
-import {
-  getCachedWorkspaceId,
-  setCachedWorkspaceId,
-  getCachedPeerId,
-  setCachedPeerId,
-  getCachedSessionId,
-  setCachedSessionId,
-  getClaudeInstanceId,
-} from "../cache.js";
-import { logHook, logApiCall, setLogContext } from "../log.js";
+import { loadConfig, setProjectDir, getSessionName } from "../config.js";
+import { queueMessage, resolveClaudeInstanceId, takeTurnExploration } from "../cache.js";
+import { logHook, setLogContext } from "../log.js";
+import { requestFlush } from "../daemon.js";
+import { getProjectMode } from "../ignore.js";
+import { ingestTranscript } from "../transcript.js";
+import { addTurnHeat, formatExploration } from "../exploration.js";
 
 interface HookInput {
   session_id?: string;
@@ -20,104 +13,7 @@ interface HookInput {
   stop_hook_active?: boolean;
 }
 
-interface TranscriptEntry {
-  type?: string;
-  role?: string;
-  message?: {
-    role?: string;
-    content: string | Array<{ type: string; text?: string; name?: string; input?: any }>;
-  };
-  content?: string | Array<{ type: string; text?: string }>;
-}
-
-function getSessionName(cwd: string): string {
-  const configuredSession = getSessionForPath(cwd);
-  if (configuredSession) {
-    return configuredSession;
-  }
-  return basename(cwd).toLowerCase().replace(/[^a-z0-9-_]/g, "-");
-}
-
-/**
- * Check if content is meaningful (not just tool announcements)
- */
-function isMeaningfulContent(content: string): boolean {
-  if (content.length < 50) return false;
-
-  // Skip pure tool invocation announcements
-  const toolAnnouncements = [
-    /^(I'll|Let me|I'm going to|I will|Now I'll|First,? I'll)\s+(run|use|execute|check|read|look at|search|edit|write|create)/i,
-  ];
-  for (const pattern of toolAnnouncements) {
-    if (pattern.test(content.trim()) && content.length < 200) {
-      return false;
-    }
-  }
-
-  return content.length >= 100;
-}
-
-/**
- * Extract the last assistant message from the transcript
- */
-function getLastAssistantMessage(transcriptPath: string): string | null {
-  if (!transcriptPath || !existsSync(transcriptPath)) {
-    return null;
-  }
-
-  try {
-    const content = readFileSync(transcriptPath, "utf-8");
-    const lines = content.trim().split("\n").filter((line) => line.trim());
-
-    // Read from the end to find the last assistant message
-    for (let i = lines.length - 1; i >= 0; i--) {
-      try {
-        const entry: TranscriptEntry = JSON.parse(lines[i]);
-
-        const entryType = entry.type || entry.role;
-        const messageContent = entry.message?.content || entry.content;
-
-        if (entryType === "assistant" && messageContent) {
-          let assistantContent = "";
-
-          if (typeof messageContent === "string") {
-            assistantContent = messageContent;
-          } else if (Array.isArray(messageContent)) {
-            // Extract text blocks only (skip tool_use blocks)
-            const textBlocks = messageContent
-              .filter((p) => p.type === "text" && p.text)
-              .map((p) => p.text!)
-              .join("\n\n");
-
-            assistantContent = textBlocks;
-          }
-
-          if (assistantContent && assistantContent.trim()) {
-            return assistantContent;
-          }
-        }
-      } catch {
-        continue;
-      }
-    }
-  } catch {
-    // Failed to read transcript
-  }
-
-  return null;
-}
-
 export async function handleStop(): Promise<void> {
-  const config = loadConfig();
-  if (!config) {
-    process.exit(0);
-  }
-
-  // Skip if message saving is disabled
-  if (config.saveMessages === false) {
-    process.exit(0);
-  }
-
   let hookInput: HookInput = {};
   try {
     const input = await Bun.stdin.text();
@@ -135,72 +31,65 @@ export async function handleStop(): Promise<void> {
   }
 
   const cwd = hookInput.cwd || process.cwd();
+
+  // Project .honcho-clawd.json (if any) layers over the user config
+  setProjectDir(cwd);
+  const config = loadConfig();
+  if (!config) {
+    process.exit(0);
+  }
+
+  // Opted out via .honchoignore / ignore.paths: skip does nothing, local-only uploads nothing
+  const projectMode = getProjectMode(cwd);
+  if (projectMode === "skip") {
+    process.exit(0);
+  }
+  // With message saving off the transcript is still read, so turning it on doesn't upload the backlog
+  const upload = projectMode === "upload" && config.saveMessages !== false;
   const transcriptPath = hookInput.transcript_path;
   const sessionName = getSessionName(cwd);
+  const instanceId = resolveClaudeInstanceId(hookInput.session_id, cwd, transcriptPath);
 
   // Set log context
   setLogContext(cwd, sessionName);
 
-  // Get the last assistant message from the transcript
-  const lastMessage = getLastAssistantMessage(transcriptPath || "");
+  // Everything Claude wrote since the last turn, not just the final answer.
+  // The transcript cursor moves past it, so session-end won't upload it again.
+  const ingested = ingestTranscript(transcriptPath, {
+    peerId: config.claudePeer,
+    cwd,
+    instanceId,
+    sessionName,
+    upload,
+  }).filter((msg) => msg.role === "assistant");
+
+  // What Claude read and searched this turn: one message, and heat for session-start
+  const turn = takeTurnExploration(instanceId || cwd);
+  const exploration = turn ? formatExploration(turn) : null;
+  if (turn) addTurnHeat(turn);
+  if (upload && turn && exploration) {
+    queueMessage(`[Exploration] ${exploration}`, config.claudePeer, cwd, instanceId || undefined, {
+      sessionName,
+      metadata: { type: "exploration", reads: turn.reads, searches: turn.searches },
+    });
+  }
 
-  if (!lastMessage || !isMeaningfulContent(lastMessage)) {
-    logHook("stop", `Skipping (no meaningful content)`);
+  if (!upload || (ingested.length === 0 && !exploration)) {
+    logHook("stop", upload ? `Skipping (no new assistant content)` : `Read ${ingested.length} assistant messages, not uploading`);
     process.exit(0);
   }
 
-  logHook("stop", `Capturing assistant response (${lastMessage.length} chars)`);
-
-  try {
-    const client = new Honcho(getHonchoClientOptions(config));
-
-    // Get cached IDs
-    let workspaceId = getCachedWorkspaceId(config.workspace);
-    let sessionId = getCachedSessionId(cwd);
-    let clawdPeerId = getCachedPeerId(config.claudePeer);
-
-    // If we don't have cached IDs, fetch them
-    if (!workspaceId || !sessionId || !clawdPeerId) {
-      const workspace = await client.workspaces.getOrCreate({
-        id: config.workspace,
-        metadata: { app: "honcho-clawd" },
-      });
-      workspaceId = workspace.id;
-      setCachedWorkspaceId(config.workspace, workspaceId);
-
-      const session = await client.workspaces.sessions.getOrCreate(workspaceId, {
-        id: sessionName,
-        metadata: { cwd },
-      });
-      sessionId = session.id;
-      setCachedSessionId(cwd, sessionName, sessionId);
-
-      const clawdPeer = await client.workspaces.peers.getOrCreate(workspaceId, { id: config.claudePeer });
-      clawdPeerId = clawdPeer.id;
-      setCachedPeerId(config.claudePeer, clawdPeerId);
-    }
-
-    // Upload the assistant response
-    const instanceId = getClaudeInstanceId();
-    logApiCall("sessions.messages.create", "POST", `assistant response (${lastMessage.length} chars)`);
-
-    await client.workspaces.sessions.messages.create(workspaceId, sessionId, {
-      messages: [
-        {
-          content: lastMessage.slice(0, 3000), // Limit to avoid huge messages
-          peer_id: config.claudePeer,
-          metadata: {
-            ...(instanceId ? { instance_id: instanceId } : {}),
-            type: "assistant_response",
-            session_affinity: sessionName,
-          },
-        },
-      ],
-    });
+  logHook("stop", `Capturing ${ingested.length} assistant messages (${ingested.reduce((sum, msg) => sum + msg.content.length, 0)} chars)${exploration ? ", plus exploration" : ""}`);
 
+  const result = await requestFlush(config, { cwd });
+  if (!result) {
+    logHook("stop", `Assistant response handed to daemon`);
+  } else if (result.offline) {
+    logHook("stop", `Honcho offline, queued for replay`);
+  } else if (result.uploaded > 0) {
     logHook("stop", `Assistant response saved`);
-  } catch (error) {
-    logHook("stop", `Upload failed: ${error}`, { error: String(error) });
+  } else if (result.retrying > 0 || result.deadLettered > 0) {
+    logHook("stop", `Upload failed, queued for retry`);
   }
 
   process.exit(0);
@@ -1,9 +1,7 @@
 import Honcho from "@honcho-ai/core";
-import { loadConfig, getSessionForPath, getHonchoClientOptions } from "../config.js";
-import { basename } from "path";
+import { loadConfig, setProjectDir, getSessionName, getHonchoClientOptions, getRankingConfig, type HonchoCLAWDConfig } from "../config.js";
 import {
   getCachedWorkspaceId,
-  setCachedWorkspaceId,
   getCachedPeerId,
   getCachedSessionId,
   setCachedSessionId,
@@ -14,14 +12,25 @@ import {
   incrementMessageCount,
   shouldRefreshKnowledgeGraph,
   markKnowledgeGraphRefreshed,
-  getClaudeInstanceId,
+  setClaudeInstanceId,
+  resolveClaudeInstanceId,
+  getContextCacheKey,
+  getLastKnownContext,
 } from "../cache.js";
 import { logHook, logApiCall, logCache, logFlow, setLogContext } from "../log.js";
+import { type FlushResult } from "../outbox.js";
+import { requestFlush, watchSession } from "../daemon.js";
+import { isCircuitOpen, recordOutcome } from "../health.js";
+import { renderContext } from "../templates.js";
+import type { ContextSection } from "../budget.js";
+import { rankByRelevance } from "../rank.js";
+import { getProjectMode } from "../ignore.js";
 
 interface HookInput {
   prompt?: string;
   cwd?: string;
   session_id?: string;
+  transcript_path?: string;
 }
 
 // Patterns to skip heavy context retrieval
@@ -84,20 +93,7 @@ function sortByRecency<T extends { created_at?: string; metadata?: { created_at?
   });
 }
 
-function getSessionName(cwd: string): string {
-  const configuredSession = getSessionForPath(cwd);
-  if (configuredSession) {
-    return configuredSession;
-  }
-  return basename(cwd).toLowerCase().replace(/[^a-z0-9-_]/g, "-");
-}
-
 export async function handleUserPrompt(): Promise<void> {
-  const config = loadConfig();
-  if (!config) {
-    process.exit(0);
-  }
-
   let hookInput: HookInput = {};
   try {
     const input = await Bun.stdin.text();
@@ -111,9 +107,33 @@ export async function handleUserPrompt(): Promise<void> {
   const prompt = hookInput.prompt || "";
   const cwd = hookInput.cwd || process.cwd();
 
+  // Project .honcho-clawd.json (if any) layers over the user config
+  setProjectDir(cwd);
+  const config = loadConfig();
+  if (!config) {
+    process.exit(0);
+  }
+
+  const instanceId = resolveClaudeInstanceId(hookInput.session_id, cwd, hookInput.transcript_path);
+  const contextKey = getContextCacheKey(cwd, instanceId);
+
+  // Keep the cwd/transcript -> instance mapping fresh (the user is typing here right now)
+  if (hookInput.session_id) {
+    setClaudeInstanceId(hookInput.session_id, cwd, hookInput.transcript_path);
+  }
+
   // Set log context for this hook
   setLogContext(cwd, getSessionName(cwd));
 
+  // Opted out via .honchoignore / ignore.paths: don't upload or fetch anything
+  if (getProjectMode(cwd) !== "upload") {
+    logHook("user-prompt", "Skipping (project ignored)");
+    process.exit(0);
+  }
+
+  // Let a running daemon prefetch context here when git state changes
+  await watchSession(cwd, contextKey, getSessionName(cwd));
+
   // Skip empty prompts
   if (!prompt.trim()) {
     process.exit(0);
@@ -121,20 +141,18 @@ export async function handleUserPrompt(): Promise<void> {
 
   logHook("user-prompt", `Prompt received (${prompt.length} chars)`);
 
-  // CRITICAL: Save message to local queue FIRST (instant, ~1-3ms)
+  // CRITICAL: Save message to the outbox FIRST (instant, ~1-3ms)
   // This survives ctrl+c, network failures, everything
+  // Then start uploading it, plus anything else due from this directory (we'll await before exit)
+  // If the daemon is running it uploads in the background instead
+  let uploadPromise: Promise<FlushResult | null> | null = null;
   if (config.saveMessages !== false) {
-    queueMessage(prompt, config.peerName, cwd);
-  }
-
-  // Start upload immediately (we'll await before exit)
-  let uploadPromise: Promise<void> | null = null;
-  if (config.saveMessages !== false) {
-    uploadPromise = uploadMessageAsync(config, cwd, prompt);
+    queueMessage(prompt, config.peerName, cwd, instanceId || undefined, { sessionName: getSessionName(cwd) });
+    uploadPromise = requestFlush(config, { cwd });
   }
 
   // Track message count for threshold-based knowledge graph refresh
-  const messageCount = incrementMessageCount();
+  const messageCount = incrementMessageCount(contextKey);
 
   // For trivial prompts, skip heavy context retrieval but still upload
   if (shouldSkipContextRetrieval(prompt)) {
@@ -144,36 +162,47 @@ export async function handleUserPrompt(): Promise<void> {
   }
 
   // Determine if we should refresh: either cache is stale OR message threshold reached
-  const forceRefresh = shouldRefreshKnowledgeGraph();
-  const cachedContext = getCachedUserContext();
-  const cacheIsStale = isContextCacheStale();
+  const forceRefresh = shouldRefreshKnowledgeGraph(contextKey);
+  const cachedContext = getCachedUserContext(contextKey);
+  const cacheIsStale = isContextCacheStale(contextKey);
 
   if (cachedContext && !cacheIsStale && !forceRefresh) {
     // Use cached context - instant response
     logCache("hit", "userContext", "using cached");
-    const contextParts = formatCachedContext(cachedContext, config.peerName);
-    if (contextParts.length > 0) {
-      outputContext(config.peerName, contextParts);
+    const sections = formatCachedContext(cachedContext, extractTopics(prompt));
+    if (sections.length > 0) {
+      outputContext(config, cwd, sections);
     }
     if (uploadPromise) await uploadPromise.catch((e) => logHook("user-prompt", `Upload failed: ${e}`, { error: String(e) }));
     process.exit(0);
   }
 
+  // Offline (circuit open): don't wait on Honcho, serve the last cached context however old
+  if (isCircuitOpen()) {
+    logCache("hit", "userContext", "offline, using stale cache");
+    outputStaleContext(config, contextKey, cwd, prompt);
+    if (uploadPromise) await uploadPromise.catch((e) => logHook("user-prompt", `Upload failed: ${e}`, { error: String(e) }));
+    process.exit(0);
+  }
+
   // Fetch fresh context when:
   // 1. Cache is stale (>60s old), OR
   // 2. Message threshold reached (every 10 messages)
   logCache("miss", "userContext", forceRefresh ? "threshold refresh" : "stale cache");
   try {
-    const contextParts = await fetchFreshContext(config, cwd, prompt);
-    if (contextParts.length > 0) {
-      outputContext(config.peerName, contextParts);
+    const sections = await fetchFreshContext(config, cwd, prompt, contextKey);
+    recordOutcome();
+    if (sections.length > 0) {
+      outputContext(config, cwd, sections);
     }
     // Mark that we refreshed the knowledge graph
     if (forceRefresh) {
-      markKnowledgeGraphRefreshed();
+      markKnowledgeGraphRefreshed(contextKey);
     }
-  } catch {
-    // Context fetch failed, continue without
+  } catch (error) {
+    // Context fetch failed, fall back to whatever we have cached
+    recordOutcome(error);
+    outputStaleContext(config, contextKey, cwd, prompt);
   }
 
   // Ensure upload completes before exit
@@ -181,75 +210,51 @@ export async function handleUserPrompt(): Promise<void> {
   process.exit(0);
 }
 
-async function uploadMessageAsync(config: any, cwd: string, prompt: string): Promise<void> {
-  logApiCall("sessions.messages.create", "POST", `user prompt (${prompt.length} chars)`);
-  const client = new Honcho(getHonchoClientOptions(config));
-
-  // Try to use cached IDs for speed
-  let workspaceId = getCachedWorkspaceId(config.workspace);
-  let sessionId = getCachedSessionId(cwd);
-  const sessionName = getSessionName(cwd);
-
-  if (!workspaceId || !sessionId) {
-    // No cache - need full setup and cache the results
-    const workspace = await client.workspaces.getOrCreate({ id: config.workspace });
-    workspaceId = workspace.id;
-    setCachedWorkspaceId(config.workspace, workspaceId);
-
-    const session = await client.workspaces.sessions.getOrCreate(workspaceId, {
-      id: sessionName,
-      metadata: { cwd },
-    });
-    sessionId = session.id;
-    setCachedSessionId(cwd, sessionName, sessionId);
-  }
-
-  // Include instance_id and session_affinity in metadata
-  // session_affinity helps Honcho's deriver tag extracted facts with their source project
-  const instanceId = getClaudeInstanceId();
-  await client.workspaces.sessions.messages.create(workspaceId, sessionId, {
-    messages: [{
-      content: prompt,
-      peer_id: config.peerName,
-      metadata: {
-        ...(instanceId ? { instance_id: instanceId } : {}),
-        session_affinity: sessionName,  // Tag for project-scoped fact extraction
-      },
-    }],
-  });
-}
-
-function formatCachedContext(context: any, peerName: string): string[] {
-  const parts: string[] = [];
+/**
+ * Facts, insights and profile as template sections ("facts", "insights", "profile").
+ * With topics, facts are ranked locally against them (see rank.ts) and only
+ * relevant ones are kept; without, the most recent ones are.
+ */
+function formatCachedContext(context: any, topics: string[] = []): ContextSection[] {
+  const sections: ContextSection[] = [];
+  const ranking = getRankingConfig();
+
+  // Sort by recency first - recent facts win ties
+  const pick = (items: any[], getText: (item: any) => string, limit: number): any[] => {
+    const sorted = sortByRecency(items);
+    if (!ranking.enabled || topics.length === 0) return sorted.slice(0, limit);
+    return rankByRelevance(sorted, getText, topics, { limit, minScore: ranking.minScore, embeddings: ranking.embeddings });
+  };
 
   if (context?.representation?.explicit?.length) {
-    // Sort by recency - recent facts are more relevant
-    const sorted = sortByRecency(context.representation.explicit);
-    const explicit = sorted
-      .slice(0, 5)
-      .map((e: any) => e.content || e)
-      .join("; ");
-    parts.push(`Relevant facts: ${explicit}`);
+    const facts = pick(context.representation.explicit, (e) => e.content || String(e), ranking.maxFacts ?? 5);
+    if (facts.length > 0) {
+      sections.push({ id: "facts", items: facts.map((e: any) => ({ text: e.content || e, source: "user" })) });
+    }
   }
 
   if (context?.representation?.deductive?.length) {
-    // Sort by recency
-    const sorted = sortByRecency(context.representation.deductive);
-    const deductive = sorted
-      .slice(0, 3)
-      .map((d: any) => d.conclusion)
-      .join("; ");
-    parts.push(`Insights: ${deductive}`);
+    const insights = pick(context.representation.deductive, (d) => d.conclusion || "", ranking.maxInsights ?? 3);
+    if (insights.length > 0) {
+      sections.push({ id: "insights", items: insights.map((d: any) => ({ text: d.conclusion, source: "user-deduced" })) });
+    }
+  }
+
+  if (ranking.enabled && topics.length > 0) {
+    logFlow("rank", `Kept ${sections.reduce((n, section) => n + section.items.length, 0)} facts/insights for: ${topics.join(", ")}`);
   }
 
   if (context?.peer_card?.length) {
-    parts.push(`Profile: ${context.peer_card.join("; ")}`);
+    sections.push({
+      id: "profile",
+      items: context.peer_card.map((line: string) => ({ text: line, source: "profile" })),
+    });
   }
 
-  return parts;
+  return sections;
 }
 
-async function fetchFreshContext(config: any, cwd: string, prompt: string): Promise<string[]> {
+async function fetchFreshContext(config: any, cwd: string, prompt: string, contextKey: string): Promise<ContextSection[]> {
   const client = new Honcho(getHonchoClientOptions(config));
 
   // Try to use cached IDs
@@ -266,14 +271,13 @@ async function fetchFreshContext(config: any, cwd: string, prompt: string): Prom
   }
 
   const sessionName = getSessionName(cwd);
-  let sessionId = getCachedSessionId(cwd);
+  let sessionId = getCachedSessionId(cwd, sessionName);
   if (!sessionId) {
     const session = await client.workspaces.sessions.getOrCreate(workspaceId, { id: sessionName });
     sessionId = session.id;
+    setCachedSessionId(cwd, sessionName, sessionId);
   }
 
-  const contextParts: string[] = [];
-
   // Only use getContext() here - it's free/cheap and returns pre-computed knowledge
   // Skip chat() ($0.03 per call) - only use at session-start
   const startTime = Date.now();
@@ -294,42 +298,39 @@ async function fetchFreshContext(config: any, cwd: string, prompt: string): Prom
   logApiCall("peers.getContext", "GET", `search query`, Date.now() - startTime, true);
 
   if (contextResult) {
-    setCachedUserContext(contextResult); // Update cache
+    setCachedUserContext(contextKey, contextResult); // Update cache
     logCache("write", "userContext", `${contextResult.representation?.explicit?.length || 0} facts`);
 
-    if (contextResult.representation?.explicit?.length) {
-      // Sort by recency - recent facts are more relevant
-      const sorted = sortByRecency(contextResult.representation.explicit);
-      const explicit = sorted
-        .slice(0, 5)
-        .map((e: any) => e.content || e)
-        .join("; ");
-      contextParts.push(`Relevant facts: ${explicit}`);
-    }
-
-    if (contextResult.representation?.deductive?.length) {
-      // Sort by recency
-      const sorted = sortByRecency(contextResult.representation.deductive);
-      const deductive = sorted
-        .slice(0, 3)
-        .map((d: any) => d.conclusion)
-        .join("; ");
-      contextParts.push(`Insights: ${deductive}`);
-    }
-
-    if (contextResult.peer_card?.length) {
-      contextParts.push(`Profile: ${contextResult.peer_card.join("; ")}`);
-    }
+    return formatCachedContext(contextResult, topics);
   }
 
-  return contextParts;
+  return [];
 }
 
-function outputContext(peerName: string, contextParts: string[]): void {
+function outputStaleContext(config: HonchoCLAWDConfig, contextKey: string, cwd: string, prompt: string): void {
+  const { userContext } = getLastKnownContext(contextKey, cwd);
+  if (!userContext?.data) return;
+  const sections = formatCachedContext(userContext.data, extractTopics(prompt));
+  if (sections.length === 0) return;
+  const minutes = Math.round((Date.now() - userContext.fetchedAt) / 60000);
+  outputContext(config, cwd, [
+    { id: "stale", items: [{ text: `(Honcho offline - cached ${minutes}m ago, may be stale)`, source: "header" }] },
+    ...sections,
+  ]);
+}
+
+function outputContext(config: HonchoCLAWDConfig, cwd: string, sections: ContextSection[]): void {
+  const additionalContext = renderContext("user-prompt", sections, {
+    peerName: config.peerName,
+    claudePeer: config.claudePeer,
+    workspace: config.workspace,
+    session: getSessionName(cwd),
+    cwd,
+  });
   const output = {
     hookSpecificOutput: {
       hookEventName: "UserPromptSubmit",
-      additionalContext: `[Honcho Memory for ${peerName}]: ${contextParts.join(" | ")}`,
+      additionalContext,
     },
   };
   console.log(JSON.stringify(output));
@@ -0,0 +1,140 @@
+/**
+ * Ignore rules - per-project opt-out (.honchoignore) and file patterns
+ *
+ * A `.honchoignore` at the project root (or any parent of cwd) controls
+ * what honcho-clawd may send from that project:
+ *
+ *   # Comments and blank lines are ignored
+ *   mode: local-only      # upload (default) | local-only | skip
+ *   .env*                 # Files never named in uploads (gitignore-style globs)
+ *   secrets/
+ *   /config/prod.json     # Leading slash: relative to the project root only
+ *
+ * An empty .honchoignore means `mode: skip`. In config, `ignore.paths`
+ * opts whole directories out (`ignore.mode` for them, default "skip") and
+ * `ignore.files` adds file patterns for every project (or, from a
+ * project's .honcho-clawd.json, for that project).
+ *
+ * - upload:     normal behaviour, minus ignored files
+ * - local-only: clawd-context.md and git state only; no Honcho calls at all
+ * - skip:       hooks do nothing
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { dirname, join, relative, resolve, isAbsolute } from "path";
+import { getIgnoreConfig, matchesDirectory } from "./config.js";
+
+export type ProjectMode = "upload" | "local-only" | "skip";
+
+export interface IgnoreRules {
+  mode: ProjectMode;
+  root: string; // Patterns are relative to this directory
+  patterns: string[];
+  source: string | null; // .honchoignore path, "config", or null when nothing applies
+}
+
+export const IGNORE_FILE = ".honchoignore";
+
+const MODE_STRICTNESS: Record<ProjectMode, number> = { upload: 0, "local-only": 1, skip: 2 };
+
+/**
+ * Nearest .honchoignore in cwd or one of its parents
+ */
+export function findIgnoreFile(cwd: string): string | null {
+  let dir = resolve(cwd);
+  while (true) {
+    const candidate = join(dir, IGNORE_FILE);
+    if (existsSync(candidate)) return candidate;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+export function parseIgnoreFile(content: string): { mode?: ProjectMode; patterns: string[] } {
+  let mode: ProjectMode | undefined;
+  const patterns: string[] = [];
+  for (const raw of content.split("\n")) {
+    const line = raw.replace(/\s+#.*$/, "").trim();
+    if (!line || line.startsWith("#")) continue;
+    const modeMatch = line.match(/^mode:\s*(upload|local-only|skip)$/);
+    if (modeMatch) {
+      mode = modeMatch[1] as ProjectMode;
+    } else {
+      patterns.push(line);
+    }
+  }
+  // An empty file is an opt-out
+  if (!mode && patterns.length === 0) mode = "skip";
+  return { mode, patterns };
+}
+
+function stricter(a: ProjectMode, b: ProjectMode): ProjectMode {
+  return MODE_STRICTNESS[a] >= MODE_STRICTNESS[b] ? a : b;
+}
+
+/**
+ * Everything that applies to cwd: config ignore list plus .honchoignore
+ */
+export function getIgnoreRules(cwd: string): IgnoreRules {
+  const config = getIgnoreConfig(cwd);
+  const rules: IgnoreRules = { mode: "upload", root: resolve(cwd), patterns: [...(config.files ?? [])], source: null };
+
+  if ((config.paths ?? []).some((pattern) => matchesDirectory(pattern, cwd))) {
+    rules.mode = config.mode ?? "skip";
+    rules.source = "config";
+  }
+
+  const ignoreFile = findIgnoreFile(cwd);
+  if (ignoreFile) {
+    try {
+      const parsed = parseIgnoreFile(readFileSync(ignoreFile, "utf-8"));
+      rules.mode = stricter(rules.mode, parsed.mode ?? "upload");
+      rules.root = dirname(ignoreFile);
+      rules.patterns.push(...parsed.patterns);
+      rules.source = ignoreFile;
+    } catch {
+      // Unreadable - fail closed rather than upload what the user meant to hide
+      rules.mode = "skip";
+      rules.source = ignoreFile;
+    }
+  }
+  return rules;
+}
+
+export function getProjectMode(cwd: string): ProjectMode {
+  return getIgnoreRules(cwd).mode;
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  let glob = pattern;
+  if (glob.startsWith("/")) {
+    glob = glob.slice(1); // Anchored to the root
+  } else if (!glob.replace(/\/$/, "").includes("/")) {
+    glob = `**/${glob}`; // Bare names match at any depth
+  }
+  glob = glob.replace(/\/$/, "");
+  // A match on a directory covers everything inside it
+  return new Bun.Glob(glob).match(path) || new Bun.Glob(`${glob}/**`).match(path);
+}
+
+/**
+ * Is the file covered by the ignore patterns? "!pattern" re-includes, as in .gitignore.
+ */
+export function isFileIgnored(filePath: string, rules: IgnoreRules): boolean {
+  if (rules.patterns.length === 0) return false;
+  const absolute = isAbsolute(filePath) ? filePath : join(rules.root, filePath);
+  let path = relative(rules.root, absolute);
+  // Outside the project: match on the path as given
+  if (path.startsWith("..")) path = filePath.replace(/^\/+/, "");
+
+  let ignored = false;
+  for (const pattern of rules.patterns) {
+    if (pattern.startsWith("!")) {
+      if (matchesPattern(pattern.slice(1), path)) ignored = false;
+    } else if (matchesPattern(pattern, path)) {
+      ignored = true;
+    }
+  }
+  return ignored;
+}
@@ -0,0 +1,185 @@
+/**
+ * Transcript import - backfill Claude Code history into Honcho
+ *
+ * Claude Code keeps every session as ~/.claude/projects/<project>/<session>.jsonl.
+ * `honcho-clawd import transcripts` parses them the way the hooks do
+ * (transcript.ts) and queues user prompts and assistant prose with their
+ * original timestamps and session IDs (as instance IDs), to the session
+ * each cwd maps to. The outbox then uploads them in batches.
+ *
+ * An import leaves a transcript cursor behind (marked `imported`), so a
+ * re-run only reads what was written since and an interrupted run picks
+ * up where it stopped. Transcripts with a cursor from the hooks were
+ * captured live and are skipped. Messages are keyed by entry UUID, so a
+ * message is never queued twice.
+ */
+
+import { existsSync, readdirSync, statSync } from "fs";
+import { join, relative, resolve, isAbsolute } from "path";
+import { getClaudeSettingsDir, getSessionName, loadConfig, type HonchoCLAWDConfig } from "./config.js";
+import { getQueuedMessages, getTranscriptCursor, queueMessages, setTranscriptCursor, type TranscriptCursor } from "./cache.js";
+import { flushOutbox, type FlushResult } from "./outbox.js";
+import { getProjectMode } from "./ignore.js";
+import { readNewTranscriptEntries, transcriptMessageKey, type TranscriptMessage } from "./transcript.js";
+
+// Messages handed to each flushOutbox call (it uploads them 100 at a time)
+const UPLOAD_CHUNK_SIZE = 500;
+
+export interface ImportOptions {
+  project?: string; // Only transcripts whose cwd is this directory or below it
+  since?: Date; // Only entries from this date on
+}
+
+export interface TranscriptImport {
+  path: string;
+  cwd?: string;
+  sessionId?: string;
+  messages: TranscriptMessage[]; // New user and assistant messages to import
+  cursor: TranscriptCursor | null; // Where the next import starts
+  skipped?: string; // Why the transcript is left alone
+}
+
+export interface ImportProgress {
+  uploaded: number;
+  total: number;
+}
+
+export function getTranscriptsDir(): string {
+  return join(getClaudeSettingsDir(), "projects");
+}
+
+function isWithin(dir: string, root: string): boolean {
+  const path = relative(resolve(root), resolve(dir));
+  return !path.startsWith("..") && !isAbsolute(path);
+}
+
+/**
+ * Every transcript under ~/.claude/projects, oldest first.
+ * Files last written before `since` are left out.
+ */
+export function findTranscripts(since?: Date): string[] {
+  const root = getTranscriptsDir();
+  if (!existsSync(root)) return [];
+  const transcripts: Array<{ path: string; mtime: number }> = [];
+  for (const project of readdirSync(root, { withFileTypes: true })) {
+    if (!project.isDirectory()) continue;
+    for (const file of readdirSync(join(root, project.name))) {
+      if (!file.endsWith(".jsonl")) continue;
+      const path = join(root, project.name, file);
+      const mtime = statSync(path).mtimeMs;
+      if (since && mtime < since.getTime()) continue;
+      transcripts.push({ path, mtime });
+    }
+  }
+  return transcripts.sort((a, b) => a.mtime - b.mtime).map((t) => t.path);
+}
+
+/**
+ * What importing would do, transcript by transcript. Reads only; nothing is queued.
+ */
+export function planImport(options: ImportOptions = {}): TranscriptImport[] {
+  const plan: TranscriptImport[] = [];
+  for (const path of findTranscripts(options.since)) {
+    const previous = getTranscriptCursor(path);
+    if (previous && !previous.imported) {
+      plan.push({ path, messages: [], cursor: null, skipped: "captured live by the hooks" });
+      continue;
+    }
+
+    const { messages, cursor, cwd, sessionId } = readNewTranscriptEntries(path, previous);
+    if (messages.length === 0 && !cursor) continue; // Already imported
+    if (previous && options.since) {
+      // Entries between the cursor and `since` would be passed over for good
+      plan.push({ path, messages: [], cursor: null, skipped: "partly imported already (run without --since to resume)" });
+      continue;
+    }
+    if (!cwd) {
+      plan.push({ path, messages: [], cursor, skipped: "no working directory recorded" });
+      continue;
+    }
+    if (options.project && !isWithin(cwd, options.project)) continue;
+
+    const mode = getProjectMode(cwd);
+    if (mode !== "upload") {
+      plan.push({ path, cwd, sessionId, messages: [], cursor: null, skipped: `project is ${mode}` });
+      continue;
+    }
+    // Older entries are passed over for good: the cursor still moves past them
+    const since = options.since?.toISOString();
+    const wanted = since ? messages.filter((msg) => !msg.timestamp || msg.timestamp >= since) : messages;
+    plan.push({ path, cwd, sessionId, messages: wanted, cursor });
+  }
+  return plan;
+}
+
+/**
+ * Queue one transcript's messages, then move its cursor (marked as imported).
+ * Returns the IDs still to upload.
+ */
+export function queueTranscript(transcript: TranscriptImport, config: HonchoCLAWDConfig): string[] {
+  if (transcript.skipped || !transcript.cwd) return [];
+  const cwd = transcript.cwd;
+  // The project's .honcho-clawd.json may name other peers
+  const projectConfig = loadConfig(cwd) ?? config;
+  const sessionName = getSessionName(cwd);
+
+  const queued = queueMessages(
+    transcript.messages.map((msg) => {
+      const peerId = msg.role === "user" ? projectConfig.peerName : projectConfig.claudePeer;
+      return {
+        content: msg.content,
+        peerId,
+        cwd,
+        instanceId: transcript.sessionId,
+        options: {
+          // Same key the stop hook uses, in case both see an entry
+          key: transcriptMessageKey(transcript.sessionId, peerId, msg),
+          sessionName,
+          timestamp: msg.timestamp,
+          metadata: {
+            source: "import",
+            ...(msg.role === "assistant"
+              ? { type: msg.isMeaningful ? "assistant_prose" : "assistant_brief", meaningful: msg.isMeaningful || false }
+              : {}),
+          },
+        },
+      };
+    })
+  );
+  // Queued before the cursor moves: if we die in between, the re-run is deduped by key
+  if (transcript.cursor) setTranscriptCursor(transcript.path, { ...transcript.cursor, imported: true });
+  return queued.filter((msg) => msg.state !== "uploaded").map((msg) => msg.id);
+}
+
+/**
+ * Imported messages still waiting in the outbox (from this run or an interrupted one)
+ */
+export function getPendingImports(): string[] {
+  return getQueuedMessages()
+    .filter((msg) => msg.metadata?.source === "import")
+    .map((msg) => msg.id);
+}
+
+/**
+ * Upload queued imports in chunks, reporting progress after each.
+ * Stops early when Honcho is unreachable; what's left stays queued.
+ */
+export async function uploadImports(
+  config: HonchoCLAWDConfig,
+  ids: string[],
+  onProgress?: (progress: ImportProgress) => void
+): Promise<FlushResult> {
+  const total: FlushResult = { uploaded: 0, retrying: 0, deadLettered: 0 };
+  for (let i = 0; i < ids.length; i += UPLOAD_CHUNK_SIZE) {
+    const result = await flushOutbox(config, { ids: ids.slice(i, i + UPLOAD_CHUNK_SIZE), force: true, probe: true });
+    total.uploaded += result.uploaded;
+    total.retrying += result.retrying;
+    total.deadLettered += result.deadLettered;
+    onProgress?.({ uploaded: total.uploaded, total: ids.length });
+    if (result.offline || (result.uploaded === 0 && result.retrying > 0)) {
+      total.offline = true;
+      break;
+    }
+  }
+  return total;
+}
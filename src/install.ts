@@ -150,7 +150,7 @@ function getHonchoCLAWDHooks(): ClaudeSettings["hooks"] {
     ],
     PostToolUse: [
       {
-        matcher: "Write|Edit|Bash|Task",
+        matcher: "Write|Edit|Bash|Task|Read|Grep|Glob|TodoWrite",
         hooks: [
           {
             type: "command",
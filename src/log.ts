@@ -7,12 +7,14 @@
  * - Useful: Real-time debugging and demo capabilities
  */
 
-import { homedir } from "os";
 import { join } from "path";
-import { existsSync, appendFileSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { existsSync, appendFileSync, mkdirSync, readFileSync, statSync } from "fs";
 import { symbols, arrows, box } from "./unicode.js";
+import { withFileLock, writeFileAtomic } from "./storage.js";
+import { getConfigDir } from "./config.js";
+import { isSqliteBackend, getDbPath, dbAppendLog, dbQueryLogs, dbGetLastLogId, dbClearLogs } from "./db.js";
 
-const CACHE_DIR = join(homedir(), ".honcho-clawd");
+const CACHE_DIR = getConfigDir();
 const LOG_FILE = join(CACHE_DIR, "activity.log");
 const MAX_LOG_SIZE = 100 * 1024; // 100KB max log size
 
@@ -134,17 +136,20 @@ export function logActivity(
   };
 
   try {
-    // Check file size and truncate if needed
-    if (existsSync(LOG_FILE)) {
-      const stats = Bun.file(LOG_FILE).size;
-      if (stats > MAX_LOG_SIZE) {
+    if (isSqliteBackend()) {
+      dbAppendLog(entry);
+      return;
+    }
+    withFileLock(LOG_FILE, () => {
+      // Check file size and truncate if needed (atomically, on a line boundary)
+      if (existsSync(LOG_FILE) && statSync(LOG_FILE).size > MAX_LOG_SIZE) {
         const content = readFileSync(LOG_FILE, "utf-8");
-        const truncated = content.slice(-50 * 1024);
-        Bun.write(LOG_FILE, truncated);
+        const tail = content.slice(-50 * 1024);
+        writeFileAtomic(LOG_FILE, tail.slice(tail.indexOf("\n") + 1));
       }
-    }
 
-    appendFileSync(LOG_FILE, JSON.stringify(entry) + "\n");
+      appendFileSync(LOG_FILE, JSON.stringify(entry) + "\n");
+    });
   } catch {
     // Ignore logging errors
   }
@@ -208,9 +213,10 @@ export function startTimed(source: string, operation: string): (success?: boolea
 // ============================================
 
 /**
- * Get the log file path
+ * Get the log file path (the database when using the sqlite backend)
  */
 export function getLogPath(): string {
+  if (isSqliteBackend()) return getDbPath();
   return LOG_FILE;
 }
 
@@ -226,6 +232,19 @@ export interface LogFilter {
 export function getRecentLogs(count: number = 50, filter?: LogFilter): LogEntry[] {
   ensureLogDir();
 
+  if (isSqliteBackend()) {
+    try {
+      return dbQueryLogs<LogEntry>({
+        cwd: filter?.cwd,
+        session: filter?.session,
+        levels: filter?.level,
+        limit: count,
+      }).map((row) => row.entry);
+    } catch {
+      return [];
+    }
+  }
+
   if (!existsSync(LOG_FILE)) {
     return [];
   }
@@ -346,6 +365,10 @@ export function formatLogGroup(entries: LogEntry[], title?: string): string[] {
 export function watchLogs(callback: (entries: LogEntry[]) => void): () => void {
   ensureLogDir();
 
+  if (isSqliteBackend()) {
+    return watchLogsDb(callback);
+  }
+
   // Track by line count, not byte size (more reliable)
   let lastLineCount = 0;
   if (existsSync(LOG_FILE)) {
@@ -397,13 +420,40 @@ export function watchLogs(callback: (entries: LogEntry[]) => void): () => void {
   };
 }
 
+/**
+ * Tail the log_entries table by row id
+ */
+function watchLogsDb(callback: (entries: LogEntry[]) => void): () => void {
+  let lastId = dbGetLastLogId();
+
+  const interval = setInterval(() => {
+    try {
+      const rows = dbQueryLogs<LogEntry>({ afterId: lastId, limit: 500 });
+      if (rows.length > 0) {
+        lastId = rows[rows.length - 1].id;
+        callback(rows.map((row) => row.entry));
+      }
+    } catch {
+      // Ignore read errors during polling
+    }
+  }, 200);
+
+  return () => {
+    clearInterval(interval);
+  };
+}
+
 /**
  * Clear the log file
  */
 export function clearLogs(): void {
   ensureLogDir();
+  if (isSqliteBackend()) {
+    dbClearLogs();
+    return;
+  }
   if (existsSync(LOG_FILE)) {
-    writeFileSync(LOG_FILE, "");
+    withFileLock(LOG_FILE, () => writeFileAtomic(LOG_FILE, ""));
   }
 }
 
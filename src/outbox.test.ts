@@ -0,0 +1,85 @@
+import { TEST_HOME } from "./test-setup.js";
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  claimQueuedMessages,
+  clearMessageQueue,
+  dropDeadLetters,
+  getDeadLetters,
+  getQueuedMessages,
+  markMessagesFailed,
+  markMessagesUploaded,
+  queueMessage,
+  retryDeadLetters,
+} from "./cache.js";
+import { getRetryDelayMs } from "./outbox.js";
+
+const CWD = `${TEST_HOME}/project`;
+
+function queue(key: string) {
+  return queueMessage(`message ${key}`, "alice", CWD, "instance-1", { key, sessionName: "project" });
+}
+
+beforeEach(() => {
+  clearMessageQueue();
+  dropDeadLetters();
+});
+
+describe("outbox queue", () => {
+  test("a message is claimed once", () => {
+    const msg = queue("a");
+    const claimed = claimQueuedMessages();
+    expect(claimed.map((m) => m.id)).toEqual([msg.id]);
+    expect(claimed[0].state).toBe("uploading");
+    expect(claimQueuedMessages()).toEqual([]);
+  });
+
+  test("a key already queued or uploaded is not queued again", () => {
+    const first = queue("a");
+    expect(queue("a").id).toBe(first.id);
+    expect(getQueuedMessages()).toHaveLength(1);
+
+    markMessagesUploaded(claimQueuedMessages().map((m) => m.id));
+    expect(queue("a").state).toBe("uploaded");
+    expect(getQueuedMessages()).toEqual([]);
+  });
+
+  test("a failed upload backs off, then is retried", () => {
+    queue("a");
+    const ids = claimQueuedMessages().map((m) => m.id);
+    expect(markMessagesFailed(ids, "503", () => Date.now() + 60_000)).toBe(0);
+
+    const [msg] = getQueuedMessages();
+    expect(msg).toMatchObject({ state: "pending", attempts: 1, lastError: "503" });
+    expect(claimQueuedMessages()).toEqual([]);
+    expect(claimQueuedMessages({ force: true }).map((m) => m.id)).toEqual(ids);
+  });
+
+  test("a message out of retries moves to the dead letters and can be requeued", () => {
+    queue("a");
+    const ids = claimQueuedMessages().map((m) => m.id);
+    expect(markMessagesFailed(ids, "400 bad request", () => null)).toBe(1);
+
+    expect(getQueuedMessages()).toEqual([]);
+    expect(getDeadLetters()).toMatchObject([{ id: ids[0], attempts: 1, lastError: "400 bad request" }]);
+
+    expect(retryDeadLetters()).toBe(1);
+    expect(getDeadLetters()).toEqual([]);
+    expect(getQueuedMessages()).toMatchObject([{ id: ids[0], state: "pending", attempts: 0 }]);
+  });
+
+  test("only the given ids are claimed", () => {
+    queue("a");
+    const b = queue("b");
+    expect(claimQueuedMessages({ ids: [b.id] }).map((m) => m.id)).toEqual([b.id]);
+    expect(claimQueuedMessages()).toHaveLength(1);
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  test("doubles from the base delay and gives up after maxAttempts", () => {
+    expect(getRetryDelayMs(1)).toBe(5_000);
+    expect(getRetryDelayMs(2)).toBe(10_000);
+    expect(getRetryDelayMs(7)).toBe(320_000);
+    expect(getRetryDelayMs(8)).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Outbox - durable uploads to Honcho
+ *
+ * Hooks never call sessions.messages.create directly. They queue the
+ * message locally (queueMessage, ~1-3ms) and then flush:
+ * - Each message has an idempotency key, sent as metadata.idempotency_key
+ * - Messages are claimed before upload so parallel hooks never double-send
+ * - Failures back off exponentially (outbox.backoffBaseSeconds, doubled per attempt)
+ * - After outbox.maxAttempts, or on a non-retryable error, the message
+ *   moves to dead-letter.jsonl (see `honcho-clawd queue`)
+ * - While Honcho is unreachable (circuit open, see health.ts) nothing is
+ *   sent, and messages are never dead-lettered for being offline
+ */
+
+import Honcho from "@honcho-ai/core";
+import { createHash } from "crypto";
+import { getHonchoClientOptions, getOutboxConfig, getSessionName, loadConfig, type HonchoCLAWDConfig } from "./config.js";
+import {
+  getCachedWorkspaceId,
+  setCachedWorkspaceId,
+  getCachedSessionId,
+  setCachedSessionId,
+  claimQueuedMessages,
+  markMessagesUploaded,
+  markMessagesFailed,
+  type QueuedMessage,
+} from "./cache.js";
+import { logApiCall, logFlow } from "./log.js";
+import { isCircuitOpen, recordOutcome } from "./health.js";
+
+const WORKSPACE_APP_TAG = "honcho-clawd";
+// Max messages per sessions.messages.create call
+const MAX_BATCH_SIZE = 100;
+
+// Clients by endpoint and API key, kept warm for the life of the process (the daemon)
+const clients = new Map<string, Honcho>();
+
+export interface FlushOptions {
+  cwd?: string; // Only flush messages queued from this directory
+  ids?: string[]; // Only flush these messages
+  force?: boolean; // Ignore backoff (retry now)
+  client?: Honcho; // Use this client for every message (tests); by default each cwd's config picks one
+  probe?: boolean; // Try even while the circuit is open (manual flush)
+}
+
+export interface FlushResult {
+  uploaded: number;
+  retrying: number;
+  deadLettered: number;
+  offline?: boolean; // Skipped because Honcho is unreachable; everything stays queued
+}
+
+/**
+ * Build a deterministic idempotency key, so the same message queued
+ * by two hooks (e.g. stop and session-end) is uploaded once.
+ */
+export function outboxKey(...parts: Array<string | null | undefined>): string {
+  return createHash("sha256").update(parts.map((p) => p ?? "").join("\0")).digest("hex").slice(0, 32);
+}
+
+/**
+ * Delay before retry number `attempts`, or null once retries are exhausted
+ */
+export function getRetryDelayMs(attempts: number): number | null {
+  const { maxAttempts, backoffBaseSeconds, backoffMaxSeconds } = getOutboxConfig();
+  if (attempts >= (maxAttempts ?? 8)) return null;
+  const delaySeconds = Math.min((backoffBaseSeconds ?? 5) * 2 ** (attempts - 1), backoffMaxSeconds ?? 3600);
+  return delaySeconds * 1000;
+}
+
+/**
+ * Client for a config's endpoint and API key (profiles may differ), reused once built
+ */
+export function getHonchoClient(config: HonchoCLAWDConfig): Honcho {
+  const options = getHonchoClientOptions(config);
+  const key = JSON.stringify(options);
+  let client = clients.get(key);
+  if (!client) {
+    client = new Honcho(options);
+    clients.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * Client errors (bad request, auth, not found) won't succeed on retry.
+ * Timeouts, rate limits, 5xx and network errors will.
+ */
+function isRetryableError(error: any): boolean {
+  const status = error?.status;
+  if (typeof status !== "number") return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+async function resolveSessionId(
+  client: Honcho,
+  config: HonchoCLAWDConfig,
+  cwd: string,
+  sessionName: string
+): Promise<{ workspaceId: string; sessionId: string }> {
+  let workspaceId = getCachedWorkspaceId(config.workspace, cwd);
+  if (!workspaceId) {
+    const workspace = await client.workspaces.getOrCreate({
+      id: config.workspace,
+      metadata: { app: WORKSPACE_APP_TAG },
+    });
+    workspaceId = workspace.id;
+    setCachedWorkspaceId(config.workspace, workspaceId, cwd);
+  }
+
+  let sessionId = getCachedSessionId(cwd, sessionName);
+  if (!sessionId) {
+    const session = await client.workspaces.sessions.getOrCreate(workspaceId, {
+      id: sessionName,
+      metadata: { cwd },
+    });
+    sessionId = session.id;
+    setCachedSessionId(cwd, sessionName, sessionId);
+  }
+
+  return { workspaceId, sessionId };
+}
+
+function toMessageCreate(msg: QueuedMessage, sessionName: string) {
+  return {
+    content: msg.content,
+    peer_id: msg.peerId,
+    created_at: msg.timestamp, // Keep original time even when uploaded late
+    metadata: {
+      ...msg.metadata,
+      ...(msg.instanceId ? { instance_id: msg.instanceId } : {}),
+      session_affinity: sessionName, // Tag for project-scoped fact extraction
+      idempotency_key: msg.id,
+    },
+  };
+}
+
+/**
+ * Upload due messages. Never throws: failures are recorded on each message.
+ */
+export async function flushOutbox(config: HonchoCLAWDConfig, options: FlushOptions = {}): Promise<FlushResult> {
+  const result: FlushResult = { uploaded: 0, retrying: 0, deadLettered: 0 };
+  if (!options.probe && isCircuitOpen()) {
+    result.offline = true;
+    return result;
+  }
+  const claimed = claimQueuedMessages(options);
+  if (claimed.length === 0) return result;
+
+  // One batch per target session
+  const groups = new Map<string, QueuedMessage[]>();
+  for (const msg of claimed) {
+    const key = `${msg.cwd}\0${msg.sessionName ?? ""}`;
+    groups.set(key, [...(groups.get(key) ?? []), msg]);
+  }
+
+  for (const messages of groups.values()) {
+    const cwd = messages[0].cwd;
+    // The cwd's profile or .honcho-clawd.json may point it at another workspace, endpoint or key
+    const projectConfig = loadConfig(cwd) ?? config;
+    const client = options.client ?? getHonchoClient(projectConfig);
+    const sessionName = messages[0].sessionName || getSessionName(cwd);
+    for (let i = 0; i < messages.length; i += MAX_BATCH_SIZE) {
+      const batch = messages.slice(i, i + MAX_BATCH_SIZE);
+      const ids = batch.map((msg) => msg.id);
+      const startTime = Date.now();
+      try {
+        const { workspaceId, sessionId } = await resolveSessionId(client, projectConfig, cwd, sessionName);
+        await client.workspaces.sessions.messages.create(workspaceId, sessionId, {
+          messages: batch.map((msg) => toMessageCreate(msg, sessionName)),
+        });
+        markMessagesUploaded(ids);
+        recordOutcome();
+        result.uploaded += batch.length;
+        logApiCall("sessions.messages.create", "POST", `${batch.length} queued messages`, Date.now() - startTime, true);
+      } catch (error: any) {
+        const retryable = isRetryableError(error);
+        const unreachable = typeof error?.status !== "number";
+        recordOutcome(error);
+        const dead = markMessagesFailed(ids, String(error?.message ?? error), (attempts) => {
+          if (!retryable) return null;
+          // Offline: keep retrying at the max delay rather than dead-lettering
+          const delay = getRetryDelayMs(attempts) ?? (unreachable ? (getOutboxConfig().backoffMaxSeconds ?? 3600) * 1000 : null);
+          return delay === null ? null : Date.now() + delay;
+        });
+        result.deadLettered += dead;
+        result.retrying += batch.length - dead;
+        logApiCall("sessions.messages.create", "POST", `${batch.length} queued messages`, Date.now() - startTime, false);
+        logFlow("outbox", `Upload failed: ${batch.length - dead} will retry, ${dead} dead-lettered`, { error: String(error) });
+      }
+    }
+  }
+
+  return result;
+}
@@ -226,8 +226,9 @@ export function renderHonchoAsciiCompact(): string[] {
 /**
  * Write directly to TTY with explicit UTF-8 encoding
  * Includes escape sequence to ensure terminal is in UTF-8 mode
+ * Without a TTY, falls back to `fallback` (stdout unless a hook needs stdout clean)
  */
-function writeTTY(text: string, switchToUtf8 = false): void {
+function writeTTY(text: string, switchToUtf8 = false, fallback: NodeJS.WriteStream = process.stdout): void {
   try {
     const fd = openSync("/dev/tty", "w");
     // Optionally switch terminal to UTF-8 mode (ESC % G)
@@ -239,11 +240,11 @@ function writeTTY(text: string, switchToUtf8 = false): void {
     writeSync(fd, buffer);
     closeSync(fd);
   } catch {
-    // Fallback to stdout with UTF-8 buffer
+    // Fallback with UTF-8 buffer
     if (switchToUtf8) {
-      process.stdout.write(Buffer.from("\x1b%G", "utf8"));
+      fallback.write(Buffer.from("\x1b%G", "utf8"));
     }
-    process.stdout.write(Buffer.from(text, "utf8"));
+    fallback.write(Buffer.from(text, "utf8"));
   }
 }
 
@@ -292,9 +293,10 @@ export function displayHonchoStartup(label?: string, subtitle?: string, extra?:
 /**
  * Display honcho startup with direct TTY output
  * This ensures Unicode renders properly like Claude Code
+ * Falls back to stderr, so it never ends up in a hook's stdout (Claude's context)
  */
 export function displayHonchoStartupTTY(label?: string, subtitle?: string, extra?: string): void {
-  writeTTY(displayHonchoStartup(label, subtitle, extra) + "\n");
+  writeTTY(displayHonchoStartup(label, subtitle, extra) + "\n", false, process.stderr);
 }
 
 /**
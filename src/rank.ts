@@ -0,0 +1,155 @@
+/**
+ * Local re-ranking - score cached facts against the current prompt
+ *
+ * user-prompt often answers from the context cache, which holds whatever
+ * session-start or the last fetch returned. Instead of injecting the most
+ * recent facts, rank them against the prompt's topics:
+ * - BM25 over fact text (exact terms: file names, tools, errors)
+ * - Optionally, cosine similarity of hashed character-trigram vectors
+ *   ("cache" matches "caching", "auth" matches "oauth") - a local
+ *   stand-in for embeddings that needs no model or network call
+ *
+ * Ties keep the input order, so callers pass facts sorted by recency.
+ */
+
+import { getRankingConfig } from "./config.js";
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Hashed vector size; collisions are rare enough at this size for a few dozen facts
+const EMBEDDING_DIMS = 512;
+// Share of the final score that comes from the embedding similarity
+const EMBEDDING_WEIGHT = 0.35;
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "that", "this", "with", "from", "are", "was", "were", "has", "have", "had",
+  "does", "did", "will", "would", "could", "should", "can", "its", "into", "about", "what", "when",
+  "where", "which", "who", "how", "why", "not", "but", "use", "uses", "using", "user",
+]);
+
+export interface RankOptions {
+  limit: number;
+  minScore?: number; // 0..1, items below are left out
+  embeddings?: boolean;
+}
+
+/**
+ * Crude suffix stripping so "cache", "caches" and "caching" share a term
+ */
+function stem(word: string): string {
+  if (word.length <= 4 || /[^a-z]/.test(word)) return word;
+  return word.replace(/(ing|ed|es|s|e)$/, "");
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9_.-]*[a-z0-9]|[a-z0-9]/g) || [])
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * BM25 score of each document for the query terms
+ */
+export function bm25Scores(query: string[], docs: string[][]): number[] {
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / Math.max(docs.length, 1) || 1;
+  const docFreq = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of new Set(doc)) docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+  }
+
+  return docs.map((doc) => {
+    const termFreq = new Map<string, number>();
+    for (const term of doc) termFreq.set(term, (termFreq.get(term) ?? 0) + 1);
+    let score = 0;
+    for (const term of new Set(query)) {
+      const tf = termFreq.get(term);
+      if (!tf) continue;
+      const df = docFreq.get(term) ?? 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / avgLength));
+    }
+    return score;
+  });
+}
+
+function hashString(text: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Unit-length vector of hashed words and character trigrams
+ */
+export function embed(text: string): Float32Array {
+  const vector = new Float32Array(EMBEDDING_DIMS);
+  for (const word of tokenize(text)) {
+    vector[hashString(word) % EMBEDDING_DIMS] += 1;
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      vector[hashString(padded.slice(i, i + 3)) % EMBEDDING_DIMS] += 0.5;
+    }
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * How close the text's words come to each query term, averaged over terms.
+ * An exact match scores 1; near spellings ("oauth" for "auth") score partially.
+ */
+function softMatchScore(queryVectors: Float32Array[], text: string): number {
+  const wordVectors = [...new Set(tokenize(text))].map(embed);
+  if (wordVectors.length === 0) return 0;
+  let total = 0;
+  for (const queryVector of queryVectors) {
+    total += Math.max(...wordVectors.map((wordVector) => cosineSimilarity(queryVector, wordVector)), 0);
+  }
+  return total / queryVectors.length;
+}
+
+/**
+ * 0..1 relevance of each text to the query terms
+ */
+export function scoreTexts(query: string[], texts: string[], embeddings = true): number[] {
+  const queryTerms = query.flatMap(tokenize);
+  if (queryTerms.length === 0) return texts.map(() => 0);
+
+  const bm25 = bm25Scores(queryTerms, texts.map(tokenize));
+  const maxBm25 = Math.max(...bm25, 0);
+  const lexical = bm25.map((score) => (maxBm25 > 0 ? score / maxBm25 : 0));
+  if (!embeddings) return lexical;
+
+  const queryVectors = [...new Set(queryTerms)].map(embed);
+  return texts.map((text, i) => (1 - EMBEDDING_WEIGHT) * lexical[i] + EMBEDDING_WEIGHT * softMatchScore(queryVectors, text));
+}
+
+/**
+ * The `limit` items most relevant to the query, best first.
+ * With no usable query terms, the first `limit` items in input order.
+ */
+export function rankByRelevance<T>(items: T[], getText: (item: T) => string, query: string[], options: RankOptions): T[] {
+  if (query.flatMap(tokenize).length === 0) return items.slice(0, options.limit);
+
+  const scores = scoreTexts(query, items.map(getText), options.embeddings ?? getRankingConfig().embeddings);
+  const minScore = options.minScore ?? 0;
+  return items
+    .map((item, i) => ({ item, score: scores[i], index: i }))
+    .filter(({ score }) => score > minScore)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, options.limit)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,190 @@
+/**
+ * Redaction - strip secrets and PII before anything leaves the machine
+ *
+ * Every upload goes through queueMessage (cache.ts), which runs the message
+ * and its metadata through redact() before it is written to the outbox.
+ * Prompts, tool summaries (Bash commands, curl URLs), assistant prose and
+ * git observations are all covered, and secrets never reach the local queue.
+ *
+ * Built-in detectors can be turned off one by one (redaction.disabled) and
+ * extra regexes added (redaction.patterns). Matches become [REDACTED:<name>].
+ * Preview with `honcho-clawd redact test <text>`.
+ */
+
+import { getRedactionConfig, type RedactionConfig } from "./config.js";
+import { logFlow } from "./log.js";
+
+export interface Detector {
+  name: string;
+  description: string;
+  pattern: RegExp;
+  // Replace only part of the match (e.g. keep "password=" and hide the value)
+  replace?: (match: string, ...groups: string[]) => string;
+  // Extra check on each match (e.g. entropy); false leaves it alone
+  accept?: (match: string) => boolean;
+}
+
+export interface Redaction {
+  detector: string;
+  match: string;
+}
+
+export interface RedactResult {
+  text: string;
+  redactions: Redaction[];
+}
+
+function placeholder(name: string): string {
+  return `[REDACTED:${name}]`;
+}
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function looksRandom(token: string): boolean {
+  // Mixed letters and digits, and more varied than hex (git SHAs top out at 4 bits)
+  return /[a-z]/i.test(token) && /[0-9]/.test(token) && shannonEntropy(token) >= 4.2;
+}
+
+// Order matters: specific detectors run first, so a JWT is reported as a
+// JWT rather than as a high-entropy string
+export const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: "private-key",
+    description: "PEM private key blocks",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z ]*PRIVATE KEY-----|$)/g,
+  },
+  {
+    name: "url-credentials",
+    description: "user:password@ in URLs and connection strings",
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/)[^\s:@\/]+:[^\s@\/]+@/gi,
+    replace: (_match, scheme) => `${scheme}${placeholder("url-credentials")}@`,
+  },
+  {
+    name: "jwt",
+    description: "JSON Web Tokens",
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    name: "aws-key",
+    description: "AWS access key IDs and secret keys",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b|(aws_secret_access_key\s*[=:]\s*["']?)[A-Za-z0-9\/+=]{40}/gi,
+    replace: (match, prefix) => (prefix ? `${prefix}${placeholder("aws-key")}` : placeholder("aws-key")),
+  },
+  {
+    name: "api-key",
+    description: "Provider API keys (OpenAI, Anthropic, GitHub, Slack, Stripe, Google...)",
+    pattern:
+      /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|xox[abposr]-[A-Za-z0-9-]{10,}|(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}|AIza[0-9A-Za-z_-]{35}|glpat-[A-Za-z0-9_-]{20,})/g,
+  },
+  {
+    name: "bearer",
+    description: "Authorization: Bearer tokens",
+    pattern: /\b(Bearer\s+)[A-Za-z0-9._~+\/-]{16,}=*/g,
+    replace: (_match, prefix) => `${prefix}${placeholder("bearer")}`,
+  },
+  {
+    name: "secret-assignment",
+    description: "password=, token:, api_key= and similar assignments",
+    pattern: /\b((?:[A-Za-z_]*(?:api[_-]?key|secret|token|passwd|password|pwd|auth[_-]?key))["']?\s*[=:]\s*["']?)([^\s"',;]{6,})/gi,
+    replace: (_match, prefix) => `${prefix}${placeholder("secret")}`,
+    accept: (match) => !match.includes("[REDACTED:"),
+  },
+  {
+    name: "email",
+    description: "Email addresses",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    name: "high-entropy",
+    description: "Long random-looking strings (24+ chars)",
+    pattern: /(?<![\w\/.-])[A-Za-z0-9+_=-]{24,}(?![\w\/.-])/g,
+    accept: looksRandom,
+  },
+];
+
+/**
+ * Built-in detectors minus redaction.disabled, plus redaction.patterns
+ */
+export function getDetectors(config: RedactionConfig = getRedactionConfig()): Detector[] {
+  const disabled = new Set(config.disabled ?? []);
+  const detectors = BUILTIN_DETECTORS.filter((detector) => !disabled.has(detector.name));
+
+  for (const [name, source] of Object.entries(config.patterns ?? {})) {
+    try {
+      detectors.push({ name, description: `Custom: ${source}`, pattern: new RegExp(source, "g") });
+    } catch (error) {
+      logFlow("redact", `Ignoring invalid pattern "${name}": ${error}`);
+    }
+  }
+  return detectors;
+}
+
+/**
+ * The detectors redact() applies: none while redaction.enabled is false.
+ * Resolve them once when redacting many strings (a message and its metadata).
+ */
+export function getActiveDetectors(): Detector[] {
+  const config = getRedactionConfig();
+  return config.enabled ? getDetectors(config) : [];
+}
+
+/**
+ * Replace every detected secret in `text`
+ */
+export function redact(text: string, detectors: Detector[] = getActiveDetectors()): RedactResult {
+  if (detectors.length === 0 || !text) return { text, redactions: [] };
+
+  const redactions: Redaction[] = [];
+  let result = text;
+  for (const detector of detectors) {
+    result = result.replace(detector.pattern, (match: string, ...rest: any[]) => {
+      if (detector.accept && !detector.accept(match)) return match;
+      redactions.push({ detector: detector.name, match });
+      // rest = capture groups, then offset and the whole string
+      const groups = rest.slice(0, -2).map((group) => group ?? "");
+      return detector.replace ? detector.replace(match, ...groups) : placeholder(detector.name);
+    });
+  }
+  return { text: result, redactions };
+}
+
+/**
+ * Redact string values in message metadata (recursively)
+ */
+export function redactMetadata<T>(value: T, redactions: Redaction[] = [], detectors: Detector[] = getActiveDetectors()): T {
+  if (typeof value === "string") {
+    const result = redact(value, detectors);
+    redactions.push(...result.redactions);
+    return result.text as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactMetadata(item, redactions, detectors)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactMetadata(item, redactions, detectors)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Short, safe-to-print version of a match for logs and `redact test`
+ */
+export function maskMatch(match: string): string {
+  const flat = match.replace(/\s+/g, " ");
+  if (flat.length <= 8) return "*".repeat(flat.length);
+  return `${flat.slice(0, 4)}${"*".repeat(Math.min(flat.length - 4, 12))} (${flat.length} chars)`;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+import { CONFIG_VERSION, migrateConfig, resolveSetting, validateConfig } from "./schema.js";
+
+describe("migrateConfig", () => {
+  test("brings an unversioned config to CONFIG_VERSION without changing its settings", () => {
+    const config = { peerName: "alice", workspace: "ws", apiKey: "secret:apiKey", endpoint: { baseUrl: "http://localhost:8000" } };
+    const { config: migrated, applied } = migrateConfig(structuredClone(config));
+    expect(applied.map((m) => m.version)).toEqual([1]);
+    expect(migrated).toEqual({ ...config, configVersion: CONFIG_VERSION });
+  });
+
+  test("leaves a current config alone", () => {
+    const config = { peerName: "alice", configVersion: CONFIG_VERSION };
+    expect(migrateConfig(config)).toEqual({ config, applied: [] });
+  });
+});
+
+describe("validateConfig", () => {
+  test("reports missing, unknown and invalid settings", () => {
+    const issues = validateConfig({ peerName: "alice", workspce: "ws", contextRefresh: { ttlSeconds: "60" }, outbox: { maxAttempts: 0 } });
+    expect(issues).toEqual([
+      { path: ["apiKey"], message: "is required", severity: "error" },
+      { path: ["workspace"], message: "is required", severity: "error" },
+      { path: ["workspce"], message: 'unknown key (did you mean "workspace"?)', severity: "warning" },
+      { path: ["contextRefresh", "ttlSeconds"], message: "expected a number, got string", severity: "error" },
+      { path: ["outbox", "maxAttempts"], message: "must be at least 1, got 0", severity: "error" },
+    ]);
+  });
+
+  test("accepts a complete config", () => {
+    expect(validateConfig({ peerName: "alice", workspace: "ws", apiKey: "secret:apiKey", configVersion: CONFIG_VERSION })).toEqual([]);
+  });
+});
+
+describe("resolveSetting", () => {
+  test("suggests the nearest setting for a typo", () => {
+    expect(resolveSetting("outbox.maxAttempts").path).toEqual(["outbox", "maxAttempts"]);
+    expect(() => resolveSetting("outbox.maxAtempts")).toThrow('did you mean "outbox.maxAttempts"?');
+  });
+});
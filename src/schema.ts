@@ -0,0 +1,443 @@
+/**
+ * Config schema - runtime validation and versioned migrations for config.json
+ *
+ * config.json is hand-edited, so loadConfig() checks it against CONFIG_SCHEMA
+ * instead of trusting the cast:
+ * - Unknown keys are warnings ("did you mean ...?"), never fatal
+ * - A bad optional value is dropped, so its default applies, and reported
+ * - Only a missing or invalid peerName/apiKey/workspace makes the config unusable
+ *
+ * `configVersion` records the layout a file was written in. Older files are
+ * upgraded by CONFIG_MIGRATIONS on load, after a backup is kept alongside.
+ * `honcho-clawd config validate` prints every issue.
+ */
+
+export type SchemaNode =
+  | { type: "string"; description: string; values?: readonly string[]; secret?: boolean }
+  | { type: "number"; description: string; min?: number; max?: number; integer?: boolean; nullable?: boolean }
+  | { type: "boolean"; description: string }
+  | { type: "array"; description: string; items: SchemaNode }
+  | { type: "record"; description: string; values: SchemaNode } // Free-form keys, e.g. sessions
+  | { type: "object"; description: string; fields: Record<string, SchemaNode>; required?: string[] }
+  | { type: "any"; description: string }; // Validated by its own module (templates)
+
+export interface ConfigIssue {
+  path: string[];
+  message: string;
+  severity: "error" | "warning";
+}
+
+export interface ConfigMigration {
+  version: number; // configVersion after this migration
+  description: string;
+  migrate: (config: Record<string, any>) => void;
+}
+
+export const CONFIG_VERSION = 1;
+
+const positiveInt = (description: string): SchemaNode => ({ type: "number", description, min: 1, integer: true });
+const tokenLimit = (description: string): SchemaNode => ({ type: "number", description, min: 1, integer: true, nullable: true });
+const flag = (description: string): SchemaNode => ({ type: "boolean", description });
+const text = (description: string): SchemaNode => ({ type: "string", description });
+const globs = (description: string): SchemaNode => ({ type: "array", description, items: text("Glob") });
+
+export const CONFIG_SCHEMA: SchemaNode = {
+  type: "object",
+  description: "honcho-clawd config",
+  required: ["peerName", "apiKey", "workspace"],
+  fields: {
+    configVersion: { type: "number", description: "Config layout version (set automatically)", min: 0, integer: true },
+    peerName: text("Your identity in Honcho"),
+    apiKey: { type: "string", description: "Honcho API key", secret: true },
+    workspace: text("Honcho workspace name"),
+    claudePeer: text("AI identity in Honcho"),
+    cerebrasKey: { type: "string", description: "Cerebras API key for fast summaries", secret: true },
+    session: text("Session name (normally set by .honcho-clawd.json)"),
+    profile: text("Default profile (`honcho-clawd profile use`)"),
+    profiles: {
+      type: "record",
+      description: "Named identities: profile name -> settings",
+      values: {
+        type: "object",
+        description: "Profile",
+        fields: {
+          peerName: text("Your identity in Honcho"),
+          claudePeer: text("AI identity in Honcho"),
+          workspace: text("Honcho workspace name"),
+          apiKey: { type: "string", description: "Honcho API key", secret: true },
+          endpoint: {
+            type: "object",
+            description: "SaaS vs local instance",
+            fields: {
+              environment: { type: "string", description: "Honcho environment", values: ["production", "local"] },
+              baseUrl: text("Custom URL (overrides environment)"),
+            },
+          },
+          paths: globs("Directories that use this profile"),
+        },
+      },
+    },
+    sessions: { type: "record", description: "Directory -> session name", values: text("Session name") },
+    saveMessages: flag("Save conversation history"),
+    hookOutput: { type: "string", description: "How hooks hand context to Claude", values: ["json", "text"] },
+    messageUpload: {
+      type: "object",
+      description: "Token-based upload limits",
+      fields: {
+        maxUserTokens: tokenLimit("Truncate user messages"),
+        maxAssistantTokens: tokenLimit("Truncate assistant messages"),
+        summarizeAssistant: flag("Summarize instead of full text"),
+      },
+    },
+    contextRefresh: {
+      type: "object",
+      description: "Context retrieval settings",
+      fields: {
+        messageThreshold: positiveInt("Refresh every N messages"),
+        ttlSeconds: { type: "number", description: "Cache TTL in seconds", min: 0, integer: true },
+        skipDialectic: flag("Skip chat() calls in user-prompt"),
+        perInstance: flag("Cache context per Claude instance"),
+      },
+    },
+    endpoint: {
+      type: "object",
+      description: "SaaS vs local instance",
+      fields: {
+        environment: { type: "string", description: "Honcho environment", values: ["production", "local"] },
+        baseUrl: text("Custom URL (overrides environment)"),
+      },
+    },
+    localContext: {
+      type: "object",
+      description: "clawd-context.md settings",
+      fields: { maxEntries: positiveInt("Max entries in clawd-context.md") },
+    },
+    storage: {
+      type: "object",
+      description: "Local state backend",
+      fields: { backend: { type: "string", description: "State backend", values: ["json", "sqlite"] } },
+    },
+    outbox: {
+      type: "object",
+      description: "Upload retry settings",
+      fields: {
+        maxAttempts: positiveInt("Upload attempts before dead-lettering"),
+        backoffBaseSeconds: positiveInt("First retry delay"),
+        backoffMaxSeconds: positiveInt("Cap on retry delay"),
+      },
+    },
+    offline: {
+      type: "object",
+      description: "Offline mode / circuit breaker",
+      fields: {
+        enabled: flag("Fall back to cached memory when Honcho is unreachable"),
+        probeTimeoutMs: positiveInt("Health probe timeout"),
+        failureThreshold: positiveInt("Failures that open the circuit breaker"),
+        cooldownSeconds: positiveInt("How long the circuit stays open"),
+      },
+    },
+    contextBudget: {
+      type: "object",
+      description: "Size limit for injected context",
+      fields: { maxTokens: positiveInt("Token budget for session-start context") },
+    },
+    ranking: {
+      type: "object",
+      description: "Local relevance ranking in user-prompt",
+      fields: {
+        enabled: flag("Rank cached facts against each prompt"),
+        embeddings: flag("Blend in hashed-trigram similarity"),
+        maxFacts: positiveInt("Facts injected per prompt"),
+        maxInsights: positiveInt("Insights injected per prompt"),
+        minScore: { type: "number", description: "Relevance below which a fact is left out", min: 0, max: 1 },
+      },
+    },
+    redaction: {
+      type: "object",
+      description: "Secret/PII stripping for uploads",
+      fields: {
+        enabled: flag("Redact before queueing uploads"),
+        disabled: { type: "array", description: "Built-in detectors to skip", items: text("Detector name") },
+        patterns: { type: "record", description: "Extra detectors: name -> regex", values: text("Regex source") },
+      },
+    },
+    ignore: {
+      type: "object",
+      description: "Global opt-outs",
+      fields: {
+        paths: globs("Directory globs to opt out"),
+        files: globs("File globs never named in uploads"),
+        mode: { type: "string", description: "What opted-out directories do", values: ["local-only", "skip"] },
+      },
+    },
+    templates: { type: "any", description: "Per-project template overrides" },
+  },
+};
+
+// Oldest first. Each runs once, on files whose configVersion is below its version.
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 1,
+    description: "Record configVersion (the layout is unchanged)",
+    migrate: () => {},
+  },
+];
+
+export function formatPath(path: string[]): string {
+  return path
+    .map((key, i) => {
+      if (/^\d+$/.test(key)) return `[${key}]`;
+      if (/^[A-Za-z_$][\w$]*$/.test(key)) return i === 0 ? key : `.${key}`;
+      return `[${JSON.stringify(key)}]`;
+    })
+    .join("");
+}
+
+export function formatIssue(issue: ConfigIssue): string {
+  return `${formatPath(issue.path)}: ${issue.message}`;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestKey(key: string, known: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = Math.max(2, Math.floor(key.length / 4)) + 1;
+  for (const candidate of known) {
+    const distance = editDistance(key, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function validateNode(node: SchemaNode, value: unknown, path: string[], issues: ConfigIssue[]): void {
+  const error = (message: string): void => {
+    issues.push({ path, message, severity: "error" });
+  };
+
+  switch (node.type) {
+    case "any":
+      return;
+    case "string":
+      if (typeof value !== "string") return error(`expected a string, got ${describeType(value)}`);
+      if (node.values && !node.values.includes(value)) {
+        return error(`must be one of ${node.values.map((v) => `"${v}"`).join(", ")}, got "${value}"`);
+      }
+      return;
+    case "number":
+      if (value === null && node.nullable) return;
+      if (typeof value !== "number" || Number.isNaN(value)) return error(`expected a number, got ${describeType(value)}`);
+      if (node.integer && !Number.isInteger(value)) return error(`expected a whole number, got ${value}`);
+      if (node.min !== undefined && value < node.min) return error(`must be at least ${node.min}, got ${value}`);
+      if (node.max !== undefined && value > node.max) return error(`must be at most ${node.max}, got ${value}`);
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") return error(`expected true or false, got ${describeType(value)}`);
+      return;
+    case "array":
+      if (!Array.isArray(value)) return error(`expected an array, got ${describeType(value)}`);
+      value.forEach((item, i) => validateNode(node.items, item, [...path, String(i)], issues));
+      return;
+    case "record":
+      if (!value || typeof value !== "object" || Array.isArray(value)) return error(`expected an object, got ${describeType(value)}`);
+      for (const [key, item] of Object.entries(value)) validateNode(node.values, item, [...path, key], issues);
+      return;
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) return error(`expected an object, got ${describeType(value)}`);
+      const record = value as Record<string, unknown>;
+      for (const key of node.required ?? []) {
+        if (record[key] === undefined || record[key] === "") {
+          issues.push({ path: [...path, key], message: "is required", severity: "error" });
+        }
+      }
+      const known = Object.keys(node.fields);
+      for (const [key, item] of Object.entries(record)) {
+        const field = node.fields[key];
+        if (field) {
+          if (item !== undefined) validateNode(field, item, [...path, key], issues);
+          continue;
+        }
+        const suggestion = suggestKey(key, known);
+        issues.push({
+          path: [...path, key],
+          message: suggestion ? `unknown key (did you mean "${suggestion}"?)` : "unknown key, ignored",
+          severity: "warning",
+        });
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Every problem with a parsed config, in file order
+ */
+export function validateConfig(config: unknown, schema: SchemaNode = CONFIG_SCHEMA): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validateNode(schema, config, [], issues);
+  return issues;
+}
+
+/**
+ * Schema for a subset of the top-level keys (e.g. what .honcho-clawd.json may set)
+ */
+export function pickSchema(keys: string[]): SchemaNode {
+  if (CONFIG_SCHEMA.type !== "object") throw new Error("CONFIG_SCHEMA must be an object");
+  const fields = Object.fromEntries(keys.map((key) => [key, CONFIG_SCHEMA.fields[key]]).filter(([, node]) => node));
+  return { type: "object", description: CONFIG_SCHEMA.description, fields };
+}
+
+/**
+ * Schema node for a dotted setting ("contextRefresh.ttlSeconds").
+ * Throws with a suggestion when the key isn't a known setting.
+ */
+export function resolveSetting(key: string): { path: string[]; node: SchemaNode } {
+  const path = key.split(".").filter(Boolean);
+  let node: SchemaNode = CONFIG_SCHEMA;
+  for (let i = 0; i < path.length; i++) {
+    let next: SchemaNode | undefined;
+    if (node.type === "object") next = node.fields[path[i]];
+    else if (node.type === "record") next = node.values;
+    else if (node.type === "any") return { path, node };
+    if (!next) {
+      const parent = formatPath(path.slice(0, i));
+      const known = node.type === "object" ? Object.keys(node.fields) : [];
+      const suggestion = suggestKey(path[i], known);
+      const hint = suggestion ? ` (did you mean "${parent ? `${parent}.` : ""}${suggestion}"?)` : "";
+      throw new Error(`Unknown setting "${key}"${hint}`);
+    }
+    node = next;
+  }
+  return { path, node };
+}
+
+/**
+ * Every leaf setting (strings, numbers, booleans, lists) with its dotted path
+ */
+export function listSettings(node: SchemaNode = CONFIG_SCHEMA, path: string[] = []): Array<{ path: string[]; node: SchemaNode }> {
+  if (node.type === "object") {
+    return Object.entries(node.fields).flatMap(([key, child]) => listSettings(child, [...path, key]));
+  }
+  if (node.type === "record" || node.type === "any") return [];
+  return [{ path, node }];
+}
+
+/**
+ * Does the setting hold a credential that should never be printed?
+ */
+export function isSecretSetting(key: string): boolean {
+  try {
+    const { node } = resolveSetting(key);
+    return node.type === "string" && !!node.secret;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turn command-line text into the type the schema expects.
+ * Throws with a readable message when it can't.
+ */
+export function coerceValue(node: SchemaNode, raw: string): unknown {
+  switch (node.type) {
+    case "string":
+      return raw;
+    case "number": {
+      if (node.nullable && raw === "null") return null;
+      const value = Number(raw);
+      if (raw.trim() === "" || Number.isNaN(value)) throw new Error(`"${raw}" is not a number`);
+      return value;
+    }
+    case "boolean": {
+      const normalized = raw.toLowerCase();
+      if (["true", "yes", "on", "1"].includes(normalized)) return true;
+      if (["false", "no", "off", "0"].includes(normalized)) return false;
+      throw new Error(`"${raw}" is not true or false`);
+    }
+    case "array":
+      // JSON array, or a comma-separated list
+      if (raw.trim().startsWith("[")) return parseJson(raw);
+      return raw
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map((item) => coerceValue(node.items, item));
+    case "record":
+    case "object":
+    case "any":
+      return parseJson(raw);
+  }
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Expected JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Remove invalid optional values so their defaults apply.
+ * Returns false when a required top-level value is broken (config unusable).
+ */
+export function dropInvalidValues(config: Record<string, any>, issues: ConfigIssue[]): boolean {
+  let usable = true;
+  for (const issue of issues) {
+    if (issue.severity !== "error") continue;
+    if (issue.path.length === 0) return false;
+    if (issue.path.length === 1 && CONFIG_SCHEMA.type === "object" && CONFIG_SCHEMA.required?.includes(issue.path[0])) {
+      usable = false;
+      continue;
+    }
+    let parent: any = config;
+    for (const key of issue.path.slice(0, -1)) parent = parent?.[key];
+    if (parent && typeof parent === "object") {
+      if (Array.isArray(parent)) parent.splice(Number(issue.path[issue.path.length - 1]), 1, undefined);
+      else delete parent[issue.path[issue.path.length - 1]];
+    }
+  }
+  // Holes left by invalid array items
+  const compact = (value: any): void => {
+    if (!value || typeof value !== "object") return;
+    for (const [key, item] of Object.entries(value)) {
+      if (Array.isArray(item)) value[key] = item.filter((entry) => entry !== undefined);
+      else compact(item);
+    }
+  };
+  compact(config);
+  return usable;
+}
+
+/**
+ * Bring a parsed config up to CONFIG_VERSION. Mutates and returns it with the versions applied.
+ */
+export function migrateConfig(config: Record<string, any>): { config: Record<string, any>; applied: ConfigMigration[] } {
+  const from = typeof config.configVersion === "number" ? config.configVersion : 0;
+  const applied = CONFIG_MIGRATIONS.filter((migration) => migration.version > from);
+  for (const migration of applied) {
+    migration.migrate(config);
+    config.configVersion = migration.version;
+  }
+  return { config, applied };
+}
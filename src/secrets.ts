@@ -0,0 +1,252 @@
+/**
+ * Secrets store - API keys encrypted at rest in ~/.honcho-clawd/secrets.json
+ *
+ * config.json holds a reference ("secret:apiKey") in place of each key.
+ * Values are encrypted with AES-256-GCM under a key derived (scrypt) from:
+ * - machine:    this machine's id and the user account. Nothing to type,
+ *               and a copied file is useless anywhere else
+ * - passphrase: HONCHO_CLAWD_PASSPHRASE, which must then be set wherever
+ *               the hooks run
+ *
+ * Both files are written with 0600 permissions. Plaintext keys (an older
+ * config, a hand edit) are moved here the next time config.json is loaded
+ * or written. Manage with `honcho-clawd secrets` (set, rotate, migrate).
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { hostname, userInfo } from "os";
+import { join } from "path";
+import { getConfigDir } from "./config.js";
+import { readJsonFile, withFileLock, writeJsonFileAtomic } from "./storage.js";
+
+export type KeySource = "machine" | "passphrase";
+
+interface EncryptedValue {
+  iv: string; // base64
+  tag: string; // GCM auth tag, base64
+  data: string; // base64
+}
+
+export interface SecretsFile {
+  version: number;
+  keySource: KeySource;
+  salt: string; // base64, new on every rotation
+  check: EncryptedValue; // CHECK_TEXT, to tell a wrong key from a damaged value
+  secrets: Record<string, EncryptedValue>; // Setting path -> value
+}
+
+export const SECRET_REF_PREFIX = "secret:";
+export const PASSPHRASE_ENV = "HONCHO_CLAWD_PASSPHRASE";
+
+const SECRETS_VERSION = 1;
+const CHECK_TEXT = "honcho-clawd";
+const FILE_MODE = 0o600;
+const MACHINE_ID_FILES = ["/etc/machine-id", "/var/lib/dbus/machine-id"];
+// ~50ms per derivation, paid at most once per process
+const SCRYPT_OPTIONS = { N: 16384, r: 8, p: 1 };
+
+// Last derived key; hooks resolve the API key more than once per run
+let keyCache: { id: string; key: Buffer } | null = null;
+
+export function getSecretsPath(): string {
+  return join(getConfigDir(), "secrets.json");
+}
+
+export function isSecretRef(value: unknown): value is `${typeof SECRET_REF_PREFIX}${string}` {
+  return typeof value === "string" && value.startsWith(SECRET_REF_PREFIX);
+}
+
+/**
+ * Settings that hold secrets: apiKey, cerebrasKey and each profile's apiKey
+ */
+export function getSecretPaths(config: Record<string, any>): string[][] {
+  const paths = [["apiKey"], ["cerebrasKey"]];
+  for (const name of Object.keys(config.profiles ?? {})) paths.push(["profiles", name, "apiKey"]);
+  return paths;
+}
+
+function getAt(config: Record<string, any>, path: string[]): unknown {
+  return path.reduce<any>((value, key) => (value && typeof value === "object" ? value[key] : undefined), config);
+}
+
+/**
+ * Copy of the config with plaintext secrets swapped for references, and the values to store
+ */
+export function extractSecrets<T extends Record<string, any>>(config: T): { config: T; secrets: Record<string, string> } {
+  const copy = structuredClone(config) as Record<string, any>;
+  const secrets: Record<string, string> = {};
+  for (const path of getSecretPaths(copy)) {
+    const value = getAt(copy, path);
+    if (typeof value !== "string" || !value || isSecretRef(value)) continue;
+    const name = path.join(".");
+    secrets[name] = value;
+    const parent = getAt(copy, path.slice(0, -1)) as Record<string, any>;
+    parent[path[path.length - 1]] = `${SECRET_REF_PREFIX}${name}`;
+  }
+  return { config: copy as T, secrets };
+}
+
+/**
+ * Names of the secrets a config refers to
+ */
+export function getSecretRefs(config: Record<string, any>): string[] {
+  return getSecretPaths(config)
+    .map((path) => getAt(config, path))
+    .filter(isSecretRef)
+    .map((ref) => ref.slice(SECRET_REF_PREFIX.length));
+}
+
+function getMachineSecret(): string {
+  let machineId = "";
+  for (const path of MACHINE_ID_FILES) {
+    try {
+      machineId = readFileSync(path, "utf-8").trim();
+    } catch {
+      // Not on this OS
+    }
+    if (machineId) break;
+  }
+  const { username, uid } = userInfo();
+  return [machineId || hostname(), username, uid].join(":");
+}
+
+function deriveKey(source: KeySource, salt: string, passphrase?: string): Buffer {
+  let secret: string;
+  if (source === "machine") {
+    secret = getMachineSecret();
+  } else {
+    const fromEnv = passphrase ?? process.env[PASSPHRASE_ENV];
+    if (!fromEnv) throw new Error(`secrets.json is passphrase-protected: set ${PASSPHRASE_ENV}`);
+    secret = fromEnv;
+  }
+  const id = `${source}:${salt}:${secret}`;
+  if (keyCache?.id === id) return keyCache.key;
+  const key = scryptSync(secret, Buffer.from(salt, "base64"), 32, SCRYPT_OPTIONS);
+  keyCache = { id, key };
+  return key;
+}
+
+function encrypt(key: Buffer, text: string): EncryptedValue {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(text, "utf-8"), cipher.final()]);
+  return { iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") };
+}
+
+function decrypt(key: Buffer, value: EncryptedValue): string {
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(value.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(value.tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(value.data, "base64")), decipher.final()]).toString("utf-8");
+}
+
+export function loadSecretsFile(): SecretsFile | null {
+  // Never quarantined: losing this file means re-entering every key
+  return readJsonFile<SecretsFile | null>(getSecretsPath(), null, { quarantine: false });
+}
+
+function createSecretsFile(source: KeySource, passphrase?: string): { file: SecretsFile; key: Buffer } {
+  const salt = randomBytes(16).toString("base64");
+  const key = deriveKey(source, salt, passphrase);
+  return { file: { version: SECRETS_VERSION, keySource: source, salt, check: encrypt(key, CHECK_TEXT), secrets: {} }, key };
+}
+
+/**
+ * The file's key, or an error saying why it can't be derived
+ */
+function unlock(file: SecretsFile): Buffer {
+  const key = deriveKey(file.keySource, file.salt);
+  try {
+    if (decrypt(key, file.check) === CHECK_TEXT) return key;
+  } catch {
+    // A wrong key fails authentication
+  }
+  throw new Error(
+    file.keySource === "passphrase"
+      ? `Wrong ${PASSPHRASE_ENV} for ${getSecretsPath()}`
+      : `${getSecretsPath()} was encrypted on another machine or user account. Delete it, then run: honcho-clawd secrets set apiKey`
+  );
+}
+
+/**
+ * Why stored secrets can't be read right now, or null if they can
+ */
+export function checkSecrets(): string | null {
+  const file = loadSecretsFile();
+  if (!file) return null;
+  try {
+    unlock(file);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function getSecret(name: string): string {
+  const file = loadSecretsFile();
+  const value = file?.secrets?.[name];
+  if (!file || !value) {
+    throw new Error(`${name} is missing from ${getSecretsPath()}. Run: honcho-clawd secrets set ${name}`);
+  }
+  return decrypt(unlock(file), value);
+}
+
+/**
+ * The real value of a setting: references are decrypted, anything else is returned as is
+ */
+export function resolveSecret(value: string): string;
+export function resolveSecret(value: string | undefined): string | undefined;
+export function resolveSecret(value: string | undefined): string | undefined {
+  return isSecretRef(value) ? getSecret(value.slice(SECRET_REF_PREFIX.length)) : value;
+}
+
+/**
+ * Encrypt and store values by name. The first store creates secrets.json,
+ * passphrase-protected if HONCHO_CLAWD_PASSPHRASE is set.
+ */
+export function storeSecrets(values: Record<string, string>): void {
+  const path = getSecretsPath();
+  withFileLock(path, () => {
+    const existing = loadSecretsFile();
+    const { file, key } = existing
+      ? { file: existing, key: unlock(existing) }
+      : createSecretsFile(process.env[PASSPHRASE_ENV] ? "passphrase" : "machine");
+    for (const [name, value] of Object.entries(values)) file.secrets[name] = encrypt(key, value);
+    writeJsonFileAtomic(path, file, FILE_MODE);
+  });
+}
+
+/**
+ * Drop stored secrets nothing refers to any more (unset keys, removed profiles)
+ */
+export function pruneSecrets(keep: string[]): void {
+  const path = getSecretsPath();
+  if (!existsSync(path)) return;
+  const isStale = (name: string) => !keep.includes(name);
+  if (!Object.keys(loadSecretsFile()?.secrets ?? {}).some(isStale)) return;
+  withFileLock(path, () => {
+    const file = loadSecretsFile();
+    if (!file) return;
+    for (const name of Object.keys(file.secrets).filter(isStale)) delete file.secrets[name];
+    writeJsonFileAtomic(path, file, FILE_MODE);
+  });
+}
+
+/**
+ * Re-encrypt everything under a fresh salt, optionally switching key source.
+ * The current key must still work. Returns how many secrets were re-encrypted.
+ */
+export function rotateSecrets(source: KeySource, passphrase?: string): number {
+  const path = getSecretsPath();
+  return withFileLock(path, () => {
+    const current = loadSecretsFile();
+    if (!current) throw new Error(`No secrets stored yet (${path})`);
+    const oldKey = unlock(current);
+    const { file, key } = createSecretsFile(source, passphrase);
+    for (const [name, value] of Object.entries(current.secrets)) {
+      file.secrets[name] = encrypt(key, decrypt(oldKey, value));
+    }
+    writeJsonFileAtomic(path, file, FILE_MODE);
+    return Object.keys(file.secrets).length;
+  });
+}
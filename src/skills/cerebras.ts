@@ -6,6 +6,7 @@
  */
 
 import { loadConfig } from "../config.js";
+import { resolveSecret } from "../secrets.js";
 import * as s from "../styles.js";
 
 const CEREBRAS_API_URL = "https://api.cerebras.ai/v1/chat/completions";
@@ -48,7 +49,7 @@ function getCerebrasKey(): string | null {
   // Check honcho-clawd config
   const config = loadConfig();
   if (config?.cerebrasKey) {
-    return config.cerebrasKey;
+    return resolveSecret(config.cerebrasKey);
   }
 
   return null;
@@ -7,8 +7,7 @@
  */
 
 import Honcho from "@honcho-ai/core";
-import { loadConfig, getSessionForPath, getHonchoClientOptions } from "../config.js";
-import { basename } from "path";
+import { loadConfig, getConfigProblem, getSessionName, getHonchoClientOptions } from "../config.js";
 import {
   getCachedWorkspaceId,
   setCachedWorkspaceId,
@@ -104,14 +103,6 @@ function getGitContext(cwd: string): GitContext {
   return result;
 }
 
-function getSessionName(cwd: string): string {
-  const configuredSession = getSessionForPath(cwd);
-  if (configuredSession) {
-    return configuredSession;
-  }
-  return basename(cwd).toLowerCase().replace(/[^a-z0-9-_]/g, "-");
-}
-
 interface HandoffOptions {
   verbose?: boolean;
   instanceOnly?: boolean;  // Filter to current instance only (default: true)
@@ -233,11 +224,11 @@ function summarizeActivities(messages: Message[], userPeerId: string): { userAct
 export async function generateHandoff(options: HandoffOptions = {}): Promise<string> {
   const config = loadConfig();
   if (!config) {
-    throw new Error("Not configured. Run: honcho-clawd init");
+    throw new Error(getConfigProblem());
   }
 
   const cwd = process.cwd();
-  const instanceId = getClaudeInstanceId();
+  const instanceId = getClaudeInstanceId(cwd);
   const messageCount = options.messageCount ?? DEFAULT_MESSAGE_COUNT;
 
   const client = new Honcho(getHonchoClientOptions(config));
@@ -255,7 +246,7 @@ export async function generateHandoff(options: HandoffOptions = {}): Promise<str
 
   // Get or create session
   const sessionName = getSessionName(cwd);
-  let sessionId = getCachedSessionId(cwd);
+  let sessionId = getCachedSessionId(cwd, sessionName);
   if (!sessionId) {
     const session = await client.workspaces.sessions.getOrCreate(workspaceId, {
       id: sessionName,
@@ -0,0 +1,281 @@
+/**
+ * Crash-safe storage for ~/.honcho-clawd state files
+ *
+ * Hooks fire concurrently (post-tool-use bursts, parallel Claude instances),
+ * so every read-modify-write goes through here:
+ * - Atomic writes: write to a temp file, fsync, rename over the target
+ * - Advisory locking: a sibling .lock file created with O_EXCL
+ * - Corruption detection: unparseable JSON is quarantined, not silently reset
+ */
+
+import { dirname, join } from "path";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  appendFileSync,
+  renameSync,
+  unlinkSync,
+  openSync,
+  closeSync,
+  fsyncSync,
+  writeSync,
+  readdirSync,
+  statSync,
+} from "fs";
+
+// How long to wait for a lock before assuming its holder is gone
+const LOCK_TIMEOUT_MS = 3000;
+// Locks older than this are stale regardless of holder
+const LOCK_STALE_MS = 10000;
+const LOCK_RETRY_MS = 10;
+
+function ensureDir(filePath: string): void {
+  const dir = dirname(filePath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+}
+
+// ============================================
+// Atomic Writes
+// ============================================
+
+/**
+ * Write a file atomically: temp file + fsync + rename.
+ * A killed process leaves either the old file or the new one, never a truncated mix.
+ */
+export function writeFileAtomic(filePath: string, content: string, mode?: number): void {
+  ensureDir(filePath);
+  const tmpPath = `${filePath}.${process.pid}.${Date.now().toString(36)}.tmp`;
+  const fd = openSync(tmpPath, "w", mode);
+  try {
+    writeSync(fd, content);
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+  try {
+    renameSync(tmpPath, filePath);
+  } catch (error) {
+    try { unlinkSync(tmpPath); } catch { /* ignore */ }
+    throw error;
+  }
+}
+
+export function writeJsonFileAtomic(filePath: string, data: unknown, mode?: number): void {
+  writeFileAtomic(filePath, JSON.stringify(data, null, 2), mode);
+}
+
+// ============================================
+// Advisory Locking
+// ============================================
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM means the process exists but belongs to someone else
+    return error?.code === "EPERM";
+  }
+}
+
+function isLockStale(lockPath: string): boolean {
+  try {
+    const [pidStr, createdStr] = readFileSync(lockPath, "utf-8").split(":");
+    const pid = parseInt(pidStr);
+    const createdAt = parseInt(createdStr);
+    if (!Number.isNaN(createdAt) && Date.now() - createdAt > LOCK_STALE_MS) return true;
+    if (!Number.isNaN(pid) && pid !== process.pid && !isProcessAlive(pid)) return true;
+    return false;
+  } catch {
+    // Lock file vanished or is half-written; treat as stale only if it's old
+    try {
+      return Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+    } catch {
+      return true;
+    }
+  }
+}
+
+function acquireLock(lockPath: string): void {
+  ensureDir(lockPath);
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      const fd = openSync(lockPath, "wx");
+      writeSync(fd, `${process.pid}:${Date.now()}`);
+      closeSync(fd);
+      return;
+    } catch (error: any) {
+      if (error?.code !== "EEXIST") throw error;
+    }
+
+    // Holder crashed or timed out: steal the lock rather than block Claude's hooks
+    if (isLockStale(lockPath) || Date.now() > deadline) {
+      try { unlinkSync(lockPath); } catch { /* someone else removed it */ }
+      continue;
+    }
+
+    Bun.sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+function releaseLock(lockPath: string): void {
+  try {
+    unlinkSync(lockPath);
+  } catch {
+    // Already released (or stolen after a timeout)
+  }
+}
+
+/**
+ * Run fn while holding an advisory lock on filePath.
+ * Locks are per-file and not re-entrant.
+ */
+export function withFileLock<T>(filePath: string, fn: () => T): T {
+  const lockPath = `${filePath}.lock`;
+  acquireLock(lockPath);
+  try {
+    return fn();
+  } finally {
+    releaseLock(lockPath);
+  }
+}
+
+// ============================================
+// Corruption Detection & Quarantine
+// ============================================
+
+/**
+ * Move an unreadable file aside so it can be inspected later.
+ * Returns the quarantine path.
+ */
+export function quarantineFile(filePath: string): string | null {
+  if (!existsSync(filePath)) return null;
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const target = `${filePath}.corrupt-${stamp}`;
+  try {
+    renameSync(filePath, target);
+    return target;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List quarantined files in a directory (for `honcho-clawd cache`)
+ */
+export function getQuarantinedFiles(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  try {
+    return readdirSync(dir)
+      .filter((name) => name.includes(".corrupt-"))
+      .map((name) => join(dir, name));
+  } catch {
+    return [];
+  }
+}
+
+export interface ReadJsonOptions {
+  quarantine?: boolean; // Move corrupt files aside (default: true)
+}
+
+/**
+ * Read a JSON file, returning fallback when missing.
+ * Corrupt files are quarantined (unless disabled) and fallback is returned.
+ */
+export function readJsonFile<T>(filePath: string, fallback: T, options?: ReadJsonOptions): T {
+  if (!existsSync(filePath)) {
+    return fallback;
+  }
+  let content: string;
+  try {
+    content = readFileSync(filePath, "utf-8");
+  } catch {
+    return fallback;
+  }
+  if (!content.trim()) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    if (options?.quarantine !== false) {
+      quarantineFile(filePath);
+    }
+    return fallback;
+  }
+}
+
+/**
+ * Locked read-modify-write of a JSON file.
+ * mutate may modify data in place or return a replacement.
+ */
+export function updateJsonFile<T>(filePath: string, fallback: T, mutate: (data: T) => T | void): T {
+  return withFileLock(filePath, () => {
+    const current = readJsonFile<T>(filePath, fallback);
+    const next = mutate(current) ?? current;
+    writeJsonFileAtomic(filePath, next);
+    return next;
+  });
+}
+
+// ============================================
+// JSON Lines
+// ============================================
+
+/**
+ * Read a JSONL file, skipping lines that don't parse
+ * (e.g. a final line truncated by a killed process).
+ */
+export function readJsonLines<T>(filePath: string): T[] {
+  if (!existsSync(filePath)) return [];
+  let content: string;
+  try {
+    content = readFileSync(filePath, "utf-8");
+  } catch {
+    return [];
+  }
+  const entries: T[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip corrupt line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Append one JSON record as a line, under the file's lock
+ * so it can't interleave with a concurrent rewrite.
+ */
+export function appendJsonLine(filePath: string, record: unknown): void {
+  ensureDir(filePath);
+  withFileLock(filePath, () => {
+    appendFileSync(filePath, JSON.stringify(record) + "\n");
+  });
+}
+
+/**
+ * Atomically replace a JSONL file's contents
+ */
+export function writeJsonLinesAtomic(filePath: string, records: unknown[]): void {
+  writeFileAtomic(filePath, records.map((r) => JSON.stringify(r)).join("\n") + (records.length ? "\n" : ""));
+}
+
+/**
+ * Locked read-modify-write of a JSONL file
+ */
+export function updateJsonLines<T>(filePath: string, mutate: (records: T[]) => T[]): T[] {
+  return withFileLock(filePath, () => {
+    const next = mutate(readJsonLines<T>(filePath));
+    writeJsonLinesAtomic(filePath, next);
+    return next;
+  });
+}
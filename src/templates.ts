@@ -0,0 +1,263 @@
+/**
+ * Context templates - how session-start, user-prompt and pre-compact
+ * lay out the context they inject
+ *
+ * Each hook builds id-tagged sections (see budget.ts) and renders them
+ * through a template. A template picks which sections appear, in what
+ * order, under what heading, and whether output is markdown or XML.
+ *
+ * Bundled defaults reproduce the original output. Override any of them by
+ * dropping a JSON file in ~/.honcho-clawd/templates/<name>.json (fields
+ * you leave out keep their default; `honcho-clawd templates init` writes
+ * the defaults there as a starting point). A project can override them
+ * again under "templates" in its .honcho-clawd.json.
+ *
+ * Headings and pre/postambles may use {{variables}}: peerName, claudePeer,
+ * workspace, session, cwd, plus per-hook ones listed in TEMPLATE_VARIABLES.
+ */
+
+import { join } from "path";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { readJsonFile } from "./storage.js";
+import { logFlow } from "./log.js";
+import { getConfigDir, loadProjectConfig, PROJECT_CONFIG_FILE } from "./config.js";
+import type { ContextSection } from "./budget.js";
+
+const TEMPLATES_DIR = join(getConfigDir(), "templates");
+
+export type TemplateName = "session-start" | "user-prompt" | "pre-compact";
+export type TemplateFormat = "markdown" | "xml";
+
+export interface TemplateSection {
+  id: string;
+  heading?: string; // Markdown heading line / XML title attribute
+}
+
+export interface ContextTemplate {
+  format?: TemplateFormat;
+  preamble?: string; // Printed before the sections
+  postamble?: string; // Printed after the sections
+  sections: TemplateSection[]; // Output order; ids not listed are dropped
+  sectionSeparator?: string; // Between sections (default "\n\n")
+  headingSeparator?: string; // Between a heading and its body (default "\n")
+  itemSeparator?: string; // Between items of a section (default "\n")
+  xmlRoot?: string; // Root element for XML output (default "honcho_memory")
+}
+
+export const TEMPLATE_NAMES: TemplateName[] = ["session-start", "user-prompt", "pre-compact"];
+
+// Hook-specific variables, on top of peerName/claudePeer/workspace/session/cwd
+export const TEMPLATE_VARIABLES: Record<TemplateName, string[]> = {
+  "session-start": ["status", "mode", "userStale", "clawdStale"],
+  "user-prompt": [],
+  "pre-compact": ["mode"],
+};
+
+const DEFAULT_TEMPLATES: Record<TemplateName, ContextTemplate> = {
+  "session-start": {
+    format: "markdown",
+    preamble: "\n[{{claudePeer}}/Honcho Memory Loaded{{mode}}]\n\n",
+    sections: [
+      { id: "header", heading: "## Honcho Memory System {{status}}" },
+      { id: "feature", heading: "## Inferred Feature Context" },
+      { id: "git-activity", heading: "## Git Activity Since Last Session" },
+      { id: "local-context", heading: "## CLAWD Local Context (What I Was Working On)" },
+      { id: "todos", heading: "## Unfinished Todos From Last Session" },
+      { id: "file-heat", heading: "## Areas You've Been Working In" },
+      { id: "user-profile", heading: "## {{peerName}}'s Profile{{userStale}}" },
+      { id: "clawd-history", heading: "## {{claudePeer}}'s Work History (Self-Context){{clawdStale}}" },
+      { id: "summary", heading: "## Recent Session Summary" },
+      { id: "user-dialectic", heading: "## AI Summary of {{peerName}}" },
+      { id: "clawd-dialectic", heading: "## AI Self-Reflection (What {{claudePeer}} Has Been Doing)" },
+      { id: "cached-memory", heading: "## Cached Memory" },
+    ],
+  },
+  "user-prompt": {
+    format: "markdown",
+    preamble: "[Honcho Memory for {{peerName}}]: ",
+    sections: [
+      { id: "stale" },
+      { id: "facts", heading: "Relevant facts:" },
+      { id: "insights", heading: "Insights:" },
+      { id: "profile", heading: "Profile:" },
+    ],
+    sectionSeparator: " | ",
+    headingSeparator: " ",
+    itemSeparator: "; ",
+  },
+  "pre-compact": {
+    format: "markdown",
+    preamble:
+      "[{{claudePeer}}/Honcho Memory Anchor{{mode}}]\n\n" +
+      "## HONCHO MEMORY ANCHOR (Pre-Compaction Injection)\n" +
+      "This context is being injected because the conversation is about to be summarized.\n" +
+      "These facts MUST be preserved in the summary.\n\n",
+    sections: [
+      { id: "identity", heading: "### Session Identity" },
+      { id: "user-profile", heading: "### {{peerName}}'s Profile (PRESERVE)" },
+      { id: "user-facts", heading: "### Key Facts About {{peerName}} (PRESERVE)" },
+      { id: "user-insights", heading: "### {{peerName}}'s Preferences & Patterns (PRESERVE)" },
+      { id: "clawd-work", heading: "### {{claudePeer}}'s Recent Work (PRESERVE)" },
+      { id: "summary", heading: "### Session Context (PRESERVE)" },
+      { id: "user-dialectic", heading: "### AI Understanding of {{peerName}} (PRESERVE)" },
+      { id: "clawd-dialectic", heading: "### {{claudePeer}}'s Self-Reflection (PRESERVE)" },
+    ],
+    postamble:
+      "\n\n### End Memory Anchor\n" +
+      "The above context represents persistent memory from Honcho.\n" +
+      "When summarizing this conversation, ensure these facts are preserved.",
+  },
+};
+
+export function getTemplatesDir(): string {
+  return TEMPLATES_DIR;
+}
+
+export function getTemplatePath(name: TemplateName): string {
+  return join(TEMPLATES_DIR, `${name}.json`);
+}
+
+export function hasTemplateOverride(name: TemplateName): boolean {
+  return existsSync(getTemplatePath(name));
+}
+
+export function getDefaultTemplate(name: TemplateName): ContextTemplate {
+  return structuredClone(DEFAULT_TEMPLATES[name]);
+}
+
+function isValidOverride(override: Partial<ContextTemplate> | null, source: string): override is Partial<ContextTemplate> {
+  if (!override || typeof override !== "object") {
+    logFlow("template", `Ignoring unreadable template ${source}`);
+    return false;
+  }
+  if (override.sections && !Array.isArray(override.sections)) {
+    logFlow("template", `Ignoring ${source}: "sections" must be an array`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Bundled default, with the user's override (if any) layered on top,
+ * then the project's `templates.<name>` from .honcho-clawd.json
+ */
+export function loadTemplate(name: TemplateName): ContextTemplate {
+  let template = getDefaultTemplate(name);
+  const path = getTemplatePath(name);
+  if (existsSync(path)) {
+    // Hand-edited, so a broken file is left in place (and ignored) rather than quarantined
+    const override = readJsonFile<Partial<ContextTemplate> | null>(path, null, { quarantine: false });
+    if (isValidOverride(override, path)) template = { ...template, ...override };
+  }
+
+  const projectOverride = loadProjectConfig()?.templates?.[name];
+  if (projectOverride !== undefined && isValidOverride(projectOverride, `${PROJECT_CONFIG_FILE} templates.${name}`)) {
+    template = { ...template, ...projectOverride };
+  }
+  return template;
+}
+
+/**
+ * Write the bundled defaults to ~/.honcho-clawd/templates for editing.
+ * Existing files are kept unless `overwrite` is set. Returns the paths written.
+ */
+export function writeDefaultTemplates(names: TemplateName[] = TEMPLATE_NAMES, overwrite = false): string[] {
+  if (!existsSync(TEMPLATES_DIR)) {
+    mkdirSync(TEMPLATES_DIR, { recursive: true });
+  }
+  const written: string[] = [];
+  for (const name of names) {
+    const path = getTemplatePath(name);
+    if (existsSync(path) && !overwrite) continue;
+    writeFileSync(path, JSON.stringify(DEFAULT_TEMPLATES[name], null, 2) + "\n");
+    written.push(path);
+  }
+  return written;
+}
+
+export function fillTemplate(text: string, vars: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => vars[key] ?? "");
+}
+
+/**
+ * Order, filter and title sections as the template says.
+ * Run this before budgeting so dropped sections cost nothing.
+ */
+export function applyTemplate(template: ContextTemplate, sections: ContextSection[], vars: Record<string, string>): ContextSection[] {
+  const byId = new Map(sections.map((section) => [section.id, section]));
+  const result: ContextSection[] = [];
+  for (const { id, heading } of template.sections) {
+    const section = byId.get(id);
+    if (!section || section.items.length === 0) continue;
+    result.push({ ...section, heading: heading ? fillTemplate(heading, vars) : undefined });
+  }
+  return result;
+}
+
+function xmlName(text: string): string {
+  return text.replace(/^#+\s*/, "").toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "") || "section";
+}
+
+function escapeXmlAttribute(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+/**
+ * Section body: ungrouped items first, then each group under its sub-heading
+ */
+function renderBody(section: ContextSection, template: ContextTemplate): string {
+  const itemSeparator = template.itemSeparator ?? "\n";
+  const plain: string[] = [];
+  const groups = new Map<string, string[]>();
+  for (const item of section.items) {
+    if (item.group) {
+      groups.set(item.group, [...(groups.get(item.group) ?? []), item.text]);
+    } else {
+      plain.push(item.text);
+    }
+  }
+
+  const blocks: string[] = [];
+  if (plain.length > 0) blocks.push(plain.join(itemSeparator));
+  for (const [group, lines] of groups) {
+    if (template.format === "xml") {
+      const tag = xmlName(group);
+      blocks.push(`<${tag}>\n${lines.join(itemSeparator)}\n</${tag}>`);
+    } else {
+      blocks.push(`${group}\n${lines.join(itemSeparator)}`);
+    }
+  }
+  return blocks.join(template.format === "xml" ? "\n" : "\n\n");
+}
+
+/**
+ * Render already-templated (and budgeted) sections to the final text
+ */
+export function renderTemplate(template: ContextTemplate, sections: ContextSection[], vars: Record<string, string>): string {
+  const preamble = fillTemplate(template.preamble ?? "", vars);
+  const postamble = fillTemplate(template.postamble ?? "", vars);
+
+  if (template.format === "xml") {
+    const root = template.xmlRoot ?? "honcho_memory";
+    const rendered = sections.map((section) => {
+      const title = section.heading ? ` title="${escapeXmlAttribute(section.heading.replace(/^#+\s*/, ""))}"` : "";
+      return `<${xmlName(section.id)}${title}>\n${renderBody(section, template)}\n</${xmlName(section.id)}>`;
+    });
+    return `${preamble}<${root}>\n${rendered.join("\n")}\n</${root}>${postamble}`;
+  }
+
+  const headingSeparator = template.headingSeparator ?? "\n";
+  const rendered = sections.map((section) => {
+    const body = renderBody(section, template);
+    return section.heading ? `${section.heading}${headingSeparator}${body}` : body;
+  });
+  return `${preamble}${rendered.join(template.sectionSeparator ?? "\n\n")}${postamble}`;
+}
+
+/**
+ * Load, apply and render in one go (for hooks that don't budget)
+ */
+export function renderContext(name: TemplateName, sections: ContextSection[], vars: Record<string, string>): string {
+  const template = loadTemplate(name);
+  return renderTemplate(template, applyTemplate(template, sections, vars), vars);
+}
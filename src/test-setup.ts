@@ -0,0 +1,21 @@
+/**
+ * Test setup - preloaded by `bun test` (bunfig.toml)
+ *
+ * Points HONCHO_CLAWD_HOME at a throwaway directory before config.ts reads
+ * it, so tests never touch ~/.honcho-clawd, and clears any other
+ * HONCHO_CLAWD_* variables so the environment can't change a setting.
+ */
+
+import { afterAll } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+for (const name of Object.keys(process.env)) {
+  if (name.startsWith("HONCHO_CLAWD_")) delete process.env[name];
+}
+
+export const TEST_HOME = mkdtempSync(join(tmpdir(), "honcho-clawd-test-"));
+process.env.HONCHO_CLAWD_HOME = TEST_HOME;
+
+afterAll(() => rmSync(TEST_HOME, { recursive: true, force: true }));
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { diffTodos, formatTodoUpdate, formatUnfinishedTodos, parseTodos, recordTodos } from "./todos.js";
+import type { TodoItem } from "./cache.js";
+
+const pending = (content: string): TodoItem => ({ content, status: "pending" });
+const started = (content: string): TodoItem => ({ content, status: "in_progress" });
+const done = (content: string): TodoItem => ({ content, status: "completed" });
+
+describe("diffTodos", () => {
+  test("sorts each change by what happened to the item", () => {
+    const previous = [done("Parse"), started("Wire hook"), pending("Docs"), pending("Drop me")];
+    const current = [done("Parse"), done("Wire hook"), started("Docs"), pending("New"), pending("Parse again")];
+    expect(diffTodos(previous, current)).toEqual({
+      added: ["New", "Parse again"],
+      started: ["Docs"],
+      completed: ["Wire hook"],
+      reopened: [],
+      removed: ["Drop me"],
+    });
+  });
+
+  test("reports items set back to pending as reopened", () => {
+    expect(diffTodos([done("A"), started("B")], [pending("A"), pending("B")]).reopened).toEqual(["A", "B"]);
+  });
+
+  test("doesn't report completed items dropped from the list", () => {
+    expect(diffTodos([done("A")], []).removed).toEqual([]);
+  });
+
+  test("reports items new to the list in their current state", () => {
+    expect(diffTodos([], [started("A"), done("B")])).toMatchObject({ added: [], started: ["A"], completed: ["B"] });
+  });
+});
+
+describe("parseTodos", () => {
+  test("keeps items with text and defaults unknown statuses to pending", () => {
+    expect(parseTodos({ todos: [{ content: " A ", status: "blocked" }, { content: "" }, { status: "pending" }] })).toEqual([pending("A")]);
+    expect(parseTodos({ todos: "A" })).toBeNull();
+  });
+});
+
+describe("recordTodos", () => {
+  const list = { cwd: "/p", sessionName: "p" };
+
+  test("logs a first list as a new plan, then only its changes", () => {
+    const first = recordTodos("record-1", { ...list, todos: [pending("A"), pending("B")] })!;
+    expect(formatTodoUpdate(first)).toBe("New plan (0/2 done): A; B");
+
+    const next = recordTodos("record-1", { ...list, todos: [done("A"), started("B")] })!;
+    expect(formatTodoUpdate(next)).toBe("Plan 1/2 done - completed: A; started: B");
+
+    expect(recordTodos("record-1", { ...list, todos: [done("A"), started("B")] })).toBeNull();
+  });
+
+  test("never calls an empty list a new plan", () => {
+    expect(recordTodos("record-2", { ...list, todos: [] })).toBeNull();
+    recordTodos("record-2", { ...list, todos: [pending("A")] });
+    const emptied = recordTodos("record-2", { ...list, todos: [] })!;
+    expect(emptied.isNewPlan).toBe(false);
+    expect(formatTodoUpdate(emptied)).toBe("Plan 0/0 done - removed: A");
+  });
+});
+
+describe("formatUnfinishedTodos", () => {
+  test("lists items in progress first and leaves out completed ones", () => {
+    expect(formatUnfinishedTodos([pending("Docs"), done("Parse"), started("Wire hook")])).toEqual([
+      "- [in progress] Wire hook",
+      "- [ ] Docs",
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Todo capture - Claude's TodoWrite plans and task state across sessions
+ *
+ * Each TodoWrite call replaces Claude's whole list. post-tool-use stores
+ * the list per Claude instance (cache.ts), diffs it against the list it
+ * replaces and uploads what changed as a [Tool] message, with the full list
+ * in its metadata. session-start shows the unfinished items of the last
+ * list written in the directory, so the next session resumes where the
+ * last one stopped.
+ */
+
+import { swapSessionTodos, type SessionTodos, type TodoItem, type TodoStatus } from "./cache.js";
+
+const STATUSES = new Set<TodoStatus>(["pending", "in_progress", "completed"]);
+// Items named per kind of change in a message
+const MAX_LISTED = 5;
+
+export interface TodoChanges {
+  added: string[];
+  started: string[];
+  completed: string[];
+  reopened: string[]; // Back to pending from in progress or completed
+  removed: string[]; // Dropped from the list before completion
+}
+
+export interface TodoUpdate {
+  todos: TodoItem[];
+  changes: TodoChanges;
+  isNewPlan: boolean; // Nothing carried over from this instance's previous list
+}
+
+/**
+ * The list in a TodoWrite call, or null if it doesn't look like one
+ */
+export function parseTodos(toolInput: Record<string, any>): TodoItem[] | null {
+  if (!Array.isArray(toolInput.todos)) return null;
+  return toolInput.todos
+    .filter((todo: any) => typeof todo?.content === "string" && todo.content.trim())
+    .map((todo: any) => ({
+      content: todo.content.trim(),
+      status: STATUSES.has(todo.status) ? todo.status : "pending",
+      ...(typeof todo.activeForm === "string" ? { activeForm: todo.activeForm } : {}),
+    }));
+}
+
+/**
+ * What changed between two lists, matching items by content
+ */
+export function diffTodos(previous: TodoItem[], current: TodoItem[]): TodoChanges {
+  const before = new Map(previous.map((todo) => [todo.content, todo.status]));
+  const after = new Set(current.map((todo) => todo.content));
+  const changes: TodoChanges = { added: [], started: [], completed: [], reopened: [], removed: [] };
+  for (const todo of current) {
+    const was = before.get(todo.content);
+    if (was === todo.status) continue;
+    if (was === undefined && todo.status === "pending") changes.added.push(todo.content);
+    else if (todo.status === "in_progress") changes.started.push(todo.content);
+    else if (todo.status === "completed") changes.completed.push(todo.content);
+    else changes.reopened.push(todo.content);
+  }
+  for (const todo of previous) {
+    if (!after.has(todo.content) && todo.status !== "completed") changes.removed.push(todo.content);
+  }
+  return changes;
+}
+
+function hasChanges(changes: TodoChanges): boolean {
+  return Object.values(changes).some((items) => items.length > 0);
+}
+
+/**
+ * Store a TodoWrite list for a Claude instance (or cwd) and diff it against
+ * the one it replaces. Returns null when nothing changed.
+ */
+export function recordTodos(key: string, list: Omit<SessionTodos, "updatedAt">): TodoUpdate | null {
+  const previous = swapSessionTodos(key, { ...list, updatedAt: new Date().toISOString() });
+  const changes = diffTodos(previous?.todos ?? [], list.todos);
+  if (!hasChanges(changes)) return null; // Also an empty first list
+  const kept = new Set(previous?.todos.map((todo) => todo.content));
+  const isNewPlan = list.todos.length > 0 && !list.todos.some((todo) => kept.has(todo.content));
+  return { todos: list.todos, changes, isNewPlan };
+}
+
+function formatItems(items: string[]): string {
+  const listed = items.slice(0, MAX_LISTED).join("; ");
+  return items.length > MAX_LISTED ? `${listed}; +${items.length - MAX_LISTED} more` : listed;
+}
+
+/**
+ * "Plan 2/5 done - completed: Add parser; started: Wire hook"
+ */
+export function formatTodoUpdate(update: TodoUpdate): string {
+  const done = update.todos.filter((todo) => todo.status === "completed").length;
+  const progress = `${done}/${update.todos.length} done`;
+  if (update.isNewPlan) {
+    return `New plan (${progress}): ${formatItems(update.todos.map((todo) => todo.content))}`;
+  }
+  const parts = (["completed", "started", "added", "reopened", "removed"] as const)
+    .filter((kind) => update.changes[kind].length > 0)
+    .map((kind) => `${kind}: ${formatItems(update.changes[kind])}`);
+  return `Plan ${progress} - ${parts.join("; ")}`;
+}
+
+/**
+ * Unfinished items, in progress first: "- [in progress] Wire hook", "- [ ] Update README"
+ */
+export function formatUnfinishedTodos(todos: TodoItem[]): string[] {
+  return [
+    ...todos.filter((todo) => todo.status === "in_progress").map((todo) => `- [in progress] ${todo.content}`),
+    ...todos.filter((todo) => todo.status === "pending").map((todo) => `- [ ] ${todo.content}`),
+  ];
+}
@@ -0,0 +1,341 @@
+/**
+ * Tool result parsers - what a test run, type-check or build actually said
+ *
+ * post-tool-use used to reduce every Bash call to "Ran: ... (success)".
+ * For common toolchains the output is parsed instead: pass/fail counts,
+ * failing test names and the first error locations. The result is
+ * summarized in the [Tool] message and attached as metadata.result.
+ *
+ * A parser is picked by the command (`vitest run`, `npx tsc`), where the
+ * tool is what runs rather than an argument (`git commit -m "fix tsc"`),
+ * or else by its output, so `npm test` or `make check` are recognized too.
+ */
+
+export type ToolResultKind = "test" | "typecheck" | "lint" | "build";
+
+export interface ErrorLocation {
+  file: string;
+  line?: number;
+  column?: number;
+  message?: string;
+}
+
+export interface ToolResult {
+  parser: string; // Toolchain that produced the output ("vitest", "tsc", ...)
+  kind: ToolResultKind;
+  success: boolean;
+  passed?: number;
+  failed?: number;
+  skipped?: number;
+  errors?: number;
+  warnings?: number;
+  failingTests?: string[];
+  firstErrors?: ErrorLocation[];
+}
+
+type ParsedResult = Partial<Omit<ToolResult, "parser">>;
+
+interface ResultParser {
+  name: string;
+  kind: ToolResultKind;
+  command: RegExp; // Invocations of the tool itself (see invokes())
+  signature: RegExp; // Output only this tool prints
+  parse(output: string): ParsedResult;
+}
+
+const MAX_FAILING_TESTS = 10;
+const MAX_ERROR_LOCATIONS = 5;
+// Summaries come last, so very long output is parsed from the end
+const MAX_OUTPUT_CHARS = 200_000;
+
+// Where an executable starts: the command's start, after && ; | or ||,
+// or after a runner (npx, bunx, pnpm exec, npm/uv/poetry run), skipping
+// VAR=value assignments, runner flags and a path to the binary
+const EXECUTABLE_START = String.raw`(?:^|&&|\|\|?|;|\b(?:npx|bunx|pnpm\s+exec|run)\b(?:\s+-\S+)*)\s*(?:\w+=\S*\s+)*(?:\S*\/)?`;
+
+/**
+ * Matches a command where `tool` is the executable, not an argument to something else
+ */
+function invokes(tool: string): RegExp {
+  return new RegExp(`${EXECUTABLE_START}(?:${tool})(?![\\w./-])`, "m");
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, "");
+}
+
+function firstNumber(text: string, pattern: RegExp): number | undefined {
+  const match = text.match(pattern);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return [...text.matchAll(pattern)].length;
+}
+
+function sumMatches(text: string, pattern: RegExp): number | undefined {
+  const matches = [...text.matchAll(pattern)];
+  return matches.length > 0 ? matches.reduce((sum, m) => sum + parseInt(m[1], 10), 0) : undefined;
+}
+
+function uniqueMatches(text: string, pattern: RegExp, limit = MAX_FAILING_TESTS): string[] {
+  return [...new Set([...text.matchAll(pattern)].map((m) => m[1].trim()))].slice(0, limit);
+}
+
+function toLocation(file: string, line?: string, column?: string, message?: string): ErrorLocation {
+  return {
+    file,
+    ...(line ? { line: parseInt(line, 10) } : {}),
+    ...(column ? { column: parseInt(column, 10) } : {}),
+    ...(message ? { message: message.trim().slice(0, 200) } : {}),
+  };
+}
+
+/**
+ * Locations printed on the same line as their message, from the named groups
+ * file, line, column and message
+ */
+function inlineLocations(text: string, pattern: RegExp): ErrorLocation[] {
+  return [...text.matchAll(pattern)]
+    .slice(0, MAX_ERROR_LOCATIONS)
+    .map(({ groups = {} }) => toLocation(groups.file, groups.line, groups.column, groups.message));
+}
+
+/**
+ * Locations printed on a line after their message (stack frames, "--> file:1:2")
+ */
+function pairedLocations(text: string, message: RegExp, location: RegExp): ErrorLocation[] {
+  const found: ErrorLocation[] = [];
+  let pending: string | undefined;
+  for (const line of text.split("\n")) {
+    const messageMatch = line.match(message);
+    if (messageMatch) {
+      pending = messageMatch[1];
+      continue;
+    }
+    const locationMatch = line.match(location);
+    if (!locationMatch || pending === undefined || locationMatch[1].includes("node_modules")) continue;
+    found.push(toLocation(locationMatch[1], locationMatch[2], locationMatch[3], pending));
+    pending = undefined;
+    if (found.length >= MAX_ERROR_LOCATIONS) break;
+  }
+  return found;
+}
+
+const PARSERS: ResultParser[] = [
+  {
+    name: "bun test",
+    kind: "test",
+    command: invokes(String.raw`bun\s+test`),
+    signature: /^Ran \d+ tests? across \d+ files?/m,
+    parse: (output) => ({
+      passed: firstNumber(output, /^\s*(\d+) pass$/m),
+      failed: firstNumber(output, /^\s*(\d+) fail$/m),
+      skipped: firstNumber(output, /^\s*(\d+) skip$/m),
+      failingTests: uniqueMatches(output, /^\(fail\) (.+?)(?: \[[\d.]+m?s\])?$/gm),
+      firstErrors: pairedLocations(output, /^error: (.+)$/, /^\s+at .*?\(?((?:\/|\.\/)?[^\s()]+):(\d+):(\d+)\)?$/),
+    }),
+  },
+  {
+    name: "vitest",
+    kind: "test",
+    command: invokes("vitest"),
+    signature: /^\s*Test Files\s{2,}/m,
+    parse: (output) => {
+      const tests = output.match(/^\s*Tests\s{2,}(.+)$/m)?.[1] ?? "";
+      return {
+        passed: firstNumber(tests, /(\d+) passed/),
+        failed: firstNumber(tests, /(\d+) failed/) ?? (tests ? 0 : undefined),
+        skipped: firstNumber(tests, /(\d+) skipped/),
+        failingTests: uniqueMatches(output, /^\s*FAIL\s+(\S+ > .+?)$/gm),
+        firstErrors: pairedLocations(output, /^\s*(?:\w*Error|Expected)\b:?\s*(.+)$/, /❯ ([^\s:]+):(\d+):(\d+)/),
+      };
+    },
+  },
+  {
+    name: "jest",
+    kind: "test",
+    command: invokes("jest"),
+    signature: /^Tests:\s+.*\d+ total/m,
+    parse: (output) => {
+      const tests = output.match(/^Tests:\s+(.+)$/m)?.[1] ?? "";
+      return {
+        passed: firstNumber(tests, /(\d+) passed/),
+        failed: firstNumber(tests, /(\d+) failed/) ?? (tests ? 0 : undefined),
+        skipped: firstNumber(tests, /(\d+) skipped/),
+        failingTests: uniqueMatches(output, /^\s*● (?!Console)(.+)$/gm),
+        firstErrors: pairedLocations(output, /^\s*● (.+)$/, /^\s+at .*?\(?([^\s()]+):(\d+):(\d+)\)?$/),
+      };
+    },
+  },
+  {
+    name: "pytest",
+    kind: "test",
+    command: invokes(String.raw`pytest|python\S*\s+-m\s+pytest`),
+    signature: /^=+ .*\b(?:passed|failed|errors?|no tests ran)\b.* in [\d.]+s.*=+$/m,
+    parse: (output) => {
+      const summary = output.match(/^=+ (.*\bin [\d.]+s.*?) =+$/m)?.[1] ?? "";
+      return {
+        passed: firstNumber(summary, /(\d+) passed/),
+        failed: firstNumber(summary, /(\d+) failed/) ?? (summary ? 0 : undefined),
+        skipped: firstNumber(summary, /(\d+) skipped/),
+        errors: firstNumber(summary, /(\d+) errors?/),
+        failingTests: uniqueMatches(output, /^(?:FAILED|ERROR) (\S+)/gm),
+        firstErrors: inlineLocations(output, /^(?<file>[\w./-]+\.py):(?<line>\d+): (?<message>\w+.*)$/gm),
+      };
+    },
+  },
+  {
+    name: "go test",
+    kind: "test",
+    command: invokes(String.raw`go\s+test`),
+    signature: /^(?:--- FAIL: |FAIL\t|ok  \t)/m,
+    parse: (output) => {
+      const failed = countMatches(output, /^\s*--- FAIL: /gm);
+      const passed = countMatches(output, /^\s*--- PASS: /gm);
+      return {
+        passed: passed || undefined,
+        failed,
+        skipped: countMatches(output, /^\s*--- SKIP: /gm) || undefined,
+        // A package that doesn't build fails without any failing test
+        success: failed === 0 && !/^FAIL\b/m.test(output),
+        failingTests: uniqueMatches(output, /^\s*--- FAIL: (\S+)/gm),
+        firstErrors: inlineLocations(output, /^\s*(?<file>[\w./-]+\.go):(?<line>\d+):(?:(?<column>\d+):)? (?<message>.+)$/gm),
+      };
+    },
+  },
+  {
+    name: "tsc",
+    kind: "typecheck",
+    command: invokes("tsc"),
+    signature: /\berror TS\d+:/,
+    parse: (output) => {
+      // file(line,col): error TS... (plain) or file:line:col - error TS... (--pretty)
+      const plain = /^(?<file>.+?)\((?<line>\d+),(?<column>\d+)\): error (?<message>TS\d+: .+)$/gm;
+      const pretty = /^(?<file>.+?):(?<line>\d+):(?<column>\d+) - error (?<message>TS\d+: .+)$/gm;
+      const firstErrors = inlineLocations(output, plain);
+      return {
+        errors: firstNumber(output, /^Found (\d+) errors?/m) ?? countMatches(output, /\berror TS\d+:/g),
+        firstErrors: firstErrors.length > 0 ? firstErrors : inlineLocations(output, pretty),
+      };
+    },
+  },
+  {
+    name: "eslint",
+    kind: "lint",
+    command: invokes("eslint"),
+    signature: /^\s*\d+:\d+\s+(?:error|warning)\s+.+\s{2,}\S+$/m,
+    parse: (output) => {
+      const firstErrors: ErrorLocation[] = [];
+      let file = "";
+      for (const line of output.split("\n")) {
+        if (/^[^\s✖]/.test(line)) file = line.trim();
+        const match = line.match(/^\s+(\d+):(\d+)\s+error\s+(.+?)(?:\s{2,}\S+)?$/);
+        if (match && file && firstErrors.length < MAX_ERROR_LOCATIONS) {
+          firstErrors.push(toLocation(file, match[1], match[2], match[3]));
+        }
+      }
+      return {
+        errors: firstNumber(output, /\((\d+) errors?,/) ?? countMatches(output, /^\s+\d+:\d+\s+error\s/gm),
+        warnings: firstNumber(output, /, (\d+) warnings?\)/) ?? countMatches(output, /^\s+\d+:\d+\s+warning\s/gm),
+        firstErrors,
+      };
+    },
+  },
+  {
+    name: "cargo",
+    kind: "build",
+    command: invokes(String.raw`cargo\s+(?:test|build|check|clippy|run|nextest)`),
+    signature: /^test result: |^\s*--> [^\s:]+\.rs:\d+:\d+$/m,
+    parse: (output) => {
+      const ran = /^test result: /m.test(output);
+      // Compile errors carry a code or a location; "could not compile" only repeats them
+      const firstErrors = pairedLocations(output, /^error(?:\[E\d+\])?: (?!could not compile|aborting)(.+)$/, /^\s*--> ([^\s:]+):(\d+):(\d+)$/);
+      return {
+        kind: ran ? "test" : "build",
+        passed: sumMatches(output, /^test result: \w+\. (\d+) passed/gm),
+        failed: sumMatches(output, /^test result: \w+\. \d+ passed; (\d+) failed/gm),
+        skipped: sumMatches(output, /^test result: \w+\. \d+ passed; \d+ failed; (\d+) ignored/gm),
+        errors: firstNumber(output, /due to (\d+) previous errors?/) ?? (ran ? undefined : firstErrors.length),
+        failingTests: uniqueMatches(output, /^---- (\S+) stdout ----$/gm),
+        firstErrors,
+      };
+    },
+  },
+];
+
+/**
+ * Everything a Bash call printed (stdout, stderr, and any error message)
+ */
+export function getToolOutput(toolResponse: unknown): string {
+  if (typeof toolResponse === "string") return toolResponse;
+  if (!toolResponse || typeof toolResponse !== "object") return "";
+  const response = toolResponse as Record<string, unknown>;
+  return ["stdout", "stderr", "output", "error"]
+    .map((key) => response[key])
+    .filter((value): value is string => typeof value === "string" && value.length > 0)
+    .join("\n");
+}
+
+/**
+ * Parse a command's output, or null if no parser recognizes it
+ * (or it recognizes the command but the output holds nothing to report)
+ */
+export function parseToolResult(command: string, output: string, errored = false): ToolResult | null {
+  const text = stripAnsi(output).slice(-MAX_OUTPUT_CHARS);
+  const parser = PARSERS.find((p) => p.command.test(command)) ?? PARSERS.find((p) => p.signature.test(text));
+  if (!parser) return null;
+
+  const parsed = parser.parse(text);
+  const counts = [parsed.passed, parsed.failed, parsed.skipped, parsed.errors, parsed.warnings];
+  // Without the tool's own output, a zero only means nothing was found
+  const isReal = parser.signature.test(text) ? (n?: number) => n !== undefined : (n?: number) => !!n;
+  if (!counts.some(isReal) && !parsed.failingTests?.length && !parsed.firstErrors?.length) {
+    return null;
+  }
+
+  const result: ToolResult = {
+    parser: parser.name,
+    kind: parsed.kind ?? parser.kind,
+    success: !errored && (parsed.success ?? (!parsed.failed && !parsed.errors)),
+  };
+  for (const key of ["passed", "failed", "skipped", "errors", "warnings"] as const) {
+    if (parsed[key] !== undefined) result[key] = parsed[key];
+  }
+  if (parsed.failingTests?.length) result.failingTests = parsed.failingTests;
+  if (parsed.firstErrors?.length) result.firstErrors = parsed.firstErrors;
+  return result;
+}
+
+function formatLocation(location: ErrorLocation): string {
+  const position = [location.file, location.line, location.column].filter((part) => part !== undefined).join(":");
+  return location.message ? `${position} ${location.message.slice(0, 80)}` : position;
+}
+
+const KIND_LABELS: Record<ToolResultKind, string> = {
+  test: "Tests",
+  typecheck: "Type-check",
+  lint: "Lint",
+  build: "Build",
+};
+
+/**
+ * One-line summary, e.g. "Tests (vitest): 1 failed, 41 passed - failing: auth > login"
+ */
+export function formatToolResult(result: ToolResult): string {
+  const counts: string[] = [];
+  if (result.failed) counts.push(`${result.failed} failed`);
+  if (result.passed !== undefined) counts.push(`${result.passed} passed`);
+  if (result.skipped) counts.push(`${result.skipped} skipped`);
+  if (result.errors !== undefined) counts.push(`${result.errors} error${result.errors === 1 ? "" : "s"}`);
+  if (result.warnings) counts.push(`${result.warnings} warning${result.warnings === 1 ? "" : "s"}`);
+
+  let summary = `${KIND_LABELS[result.kind]} (${result.parser}): ${counts.join(", ") || (result.success ? "success" : "failed")}`;
+  if (result.failingTests?.length) {
+    const more = result.failingTests.length > 3 ? `, +${result.failingTests.length - 3} more` : "";
+    summary += ` - failing: ${result.failingTests.slice(0, 3).join(", ")}${more}`;
+  } else if (result.firstErrors?.length) {
+    summary += ` - first: ${formatLocation(result.firstErrors[0])}`;
+  }
+  return summary;
+}
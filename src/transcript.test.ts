@@ -0,0 +1,65 @@
+import { TEST_HOME } from "./test-setup.js";
+import { beforeEach, describe, expect, test } from "bun:test";
+import { appendFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { readNewTranscriptEntries, transcriptMessageKey } from "./transcript.js";
+
+const TRANSCRIPT = join(TEST_HOME, "transcript.jsonl");
+
+function entry(uuid: string, content: string, role: "user" | "assistant" = "user"): string {
+  return JSON.stringify({ type: role, uuid, timestamp: "2025-06-01T00:00:00Z", cwd: "/p", sessionId: "s1", message: { role, content } }) + "\n";
+}
+
+function contents(result: ReturnType<typeof readNewTranscriptEntries>): string[] {
+  return result.messages.map((msg) => msg.content);
+}
+
+beforeEach(() => {
+  writeFileSync(TRANSCRIPT, entry("a", "first") + entry("b", "second"));
+});
+
+describe("readNewTranscriptEntries", () => {
+  test("reads everything without a cursor, then only what was appended", () => {
+    const first = readNewTranscriptEntries(TRANSCRIPT, null);
+    expect(contents(first)).toEqual(["first", "second"]);
+    expect(first).toMatchObject({ cwd: "/p", sessionId: "s1", cursor: { uuid: "b" } });
+
+    appendFileSync(TRANSCRIPT, entry("c", "third"));
+    const next = readNewTranscriptEntries(TRANSCRIPT, first.cursor);
+    expect(contents(next)).toEqual(["third"]);
+    expect(next.cursor?.uuid).toBe("c");
+  });
+
+  test("leaves a line still being written for next time", () => {
+    const { cursor } = readNewTranscriptEntries(TRANSCRIPT, null);
+    appendFileSync(TRANSCRIPT, entry("c", "third").slice(0, 20));
+    expect(readNewTranscriptEntries(TRANSCRIPT, cursor)).toMatchObject({ messages: [], cursor: null });
+  });
+
+  test("resumes after the last entry read when the file is rewritten", () => {
+    const { cursor } = readNewTranscriptEntries(TRANSCRIPT, null);
+    // Longer lines before it: the old offset now falls mid-line
+    writeFileSync(TRANSCRIPT, entry("a", "first, rewritten at much greater length") + entry("b", "second") + entry("c", "third"));
+    const resumed = readNewTranscriptEntries(TRANSCRIPT, cursor);
+    expect(contents(resumed)).toEqual(["third"]);
+    expect(resumed.cursor?.uuid).toBe("c");
+  });
+
+  test("re-reads from the start when the last entry read is gone", () => {
+    const { cursor } = readNewTranscriptEntries(TRANSCRIPT, null);
+    writeFileSync(TRANSCRIPT, entry("x", "replacement, long enough to move the line end") + entry("y", "another"));
+    expect(contents(readNewTranscriptEntries(TRANSCRIPT, cursor))).toEqual(["replacement, long enough to move the line end", "another"]);
+  });
+});
+
+describe("transcriptMessageKey", () => {
+  test("keys by UUID, else by timestamp and content", () => {
+    const msg = { uuid: "a", timestamp: "2025-06-01T00:00:00Z", role: "user" as const, content: "hi" };
+    expect(transcriptMessageKey("s1", "alice", msg)).toBe(transcriptMessageKey("s1", "alice", { ...msg, content: "edited" }));
+
+    const { uuid: _uuid, ...withoutUuid } = msg;
+    expect(transcriptMessageKey("s1", "alice", withoutUuid)).not.toBe(
+      transcriptMessageKey("s1", "alice", { ...withoutUuid, timestamp: "2025-06-02T00:00:00Z" })
+    );
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Transcript ingestion - upload each Claude Code transcript entry once
+ *
+ * Claude Code appends every turn to a JSONL transcript. The stop hook (each
+ * turn) and session-end read only what was appended since the last read,
+ * tracked per transcript by a cursor: the byte offset reached and the UUID
+ * of the last entry. Cursors are stored like the ID cache, so they survive
+ * restarts. Compaction only appends to the transcript, so the offset stays
+ * valid. If a transcript is rewritten underneath it, reading resumes after
+ * the remembered UUID.
+ *
+ * Assistant prose is queued for the clawd peer, keyed by entry UUID, so a
+ * re-read never uploads twice. User prompts are uploaded by user-prompt and
+ * tool calls by post-tool-use.
+ */
+
+import { closeSync, existsSync, fstatSync, openSync, readFileSync, readSync } from "fs";
+import { getTranscriptCursor, queueMessage, setTranscriptCursor, type TranscriptCursor } from "./cache.js";
+import { outboxKey } from "./outbox.js";
+import { logFlow } from "./log.js";
+
+type ContentBlock = { type: string; text?: string; name?: string; input?: any };
+
+interface TranscriptEntry {
+  type?: string;
+  uuid?: string;
+  timestamp?: string;
+  cwd?: string; // Where Claude Code was running
+  sessionId?: string; // Claude Code session (the instance ID)
+  isMeta?: boolean; // Injected by Claude Code (command output, caveats), not typed by the user
+  isCompactSummary?: boolean; // The summary a compaction starts from
+  message?: {
+    role?: string;
+    content: string | ContentBlock[];
+  };
+  // Alternative format sometimes seen
+  role?: string;
+  content?: string | ContentBlock[];
+}
+
+export interface TranscriptMessage {
+  uuid?: string;
+  timestamp?: string;
+  role: "user" | "assistant";
+  content: string;
+  isMeaningful?: boolean;
+}
+
+export interface IngestOptions {
+  peerId: string;
+  cwd: string;
+  instanceId?: string | null;
+  sessionName: string;
+  upload: boolean; // False: advance the cursor only (saveMessages off, local-only project)
+}
+
+const NEWLINE = 0x0a;
+
+/**
+ * Check if assistant content is meaningful prose vs just tool acknowledgment
+ * We want to capture explanations, summaries, recommendations - not "I'll run git status"
+ */
+export function isMeaningfulAssistantContent(content: string): boolean {
+  // Skip very short responses
+  if (content.length < 50) return false;
+
+  // Skip responses that are mostly tool invocation announcements
+  const toolAnnouncements = [
+    /^(I'll|Let me|I'm going to|I will|Now I'll|First,? I'll)\s+(run|use|execute|check|read|look at|search|edit|write|create)/i,
+    /^Running\s+/i,
+    /^Checking\s+/i,
+    /^Looking at\s+/i,
+  ];
+  for (const pattern of toolAnnouncements) {
+    if (pattern.test(content.trim()) && content.length < 200) {
+      return false;
+    }
+  }
+
+  // Skip if it's just acknowledging tool results without explanation
+  if (/^(The command|The file|The output|This shows|Here's what)/i.test(content.trim()) && content.length < 150) {
+    return false;
+  }
+
+  // Keep: explanations, summaries, recommendations, analysis
+  const meaningfulPatterns = [
+    /\b(because|since|therefore|however|although|this means|in summary|to summarize|the issue is|the problem is|I recommend|you should|we should|this approach|the solution|key point|important|note that)\b/i,
+    /\b(implemented|fixed|resolved|completed|added|created|updated|changed|modified|refactored)\b/i,
+    /\b(error|bug|issue|problem|solution|fix|improvement|optimization)\b/i,
+  ];
+  for (const pattern of meaningfulPatterns) {
+    if (pattern.test(content)) {
+      return true;
+    }
+  }
+
+  // If it's long enough, probably meaningful
+  return content.length >= 200;
+}
+
+/**
+ * The user or assistant text in one transcript entry, or null if it has none
+ * (tool results, tool calls without prose, compaction summaries)
+ */
+export function toTranscriptMessage(entry: TranscriptEntry): TranscriptMessage | null {
+  // Handle different transcript formats
+  const entryType = entry.type || entry.role;
+  const messageContent = entry.message?.content || entry.content;
+  if (!messageContent) return null;
+
+  if (entryType === "user") {
+    if (entry.isMeta || entry.isCompactSummary) return null;
+    const userContent =
+      typeof messageContent === "string"
+        ? messageContent
+        : messageContent
+            .filter((p) => p.type === "text")
+            .map((p) => p.text || "")
+            .join("\n");
+    return userContent.trim() ? { uuid: entry.uuid, timestamp: entry.timestamp, role: "user", content: userContent } : null;
+  }
+
+  if (entryType !== "assistant") return null;
+  let assistantContent = "";
+  if (typeof messageContent === "string") {
+    assistantContent = messageContent;
+  } else if (Array.isArray(messageContent)) {
+    // Extract text blocks (skip tool_use blocks - those are captured by PostToolUse)
+    const textBlocks = messageContent
+      .filter((p) => p.type === "text" && p.text)
+      .map((p) => p.text!)
+      .join("\n\n");
+    // Tool names only matter alongside some prose
+    const toolUses = messageContent
+      .filter((p) => p.type === "tool_use")
+      .map((p) => p.name)
+      .filter(Boolean);
+
+    assistantContent = textBlocks;
+    if (textBlocks.trim() && toolUses.length > 0 && textBlocks.length < 100) {
+      assistantContent = `${textBlocks}\n[Used tools: ${toolUses.join(", ")}]`;
+    }
+  }
+  if (!assistantContent.trim()) return null;
+
+  const isMeaningful = isMeaningfulAssistantContent(assistantContent);
+  // Truncate but keep more of meaningful content
+  const maxLen = isMeaningful ? 3000 : 1500;
+  return {
+    uuid: entry.uuid,
+    timestamp: entry.timestamp,
+    role: "assistant",
+    content: assistantContent.slice(0, maxLen),
+    isMeaningful,
+  };
+}
+
+function parseLine(line: string): TranscriptEntry | null {
+  if (!line.trim()) return null;
+  try {
+    return JSON.parse(line);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Every message in a transcript (for local summaries; uploads go through ingestTranscript)
+ */
+export function readTranscriptMessages(transcriptPath: string): TranscriptMessage[] {
+  if (!transcriptPath || !existsSync(transcriptPath)) return [];
+  try {
+    return readFileSync(transcriptPath, "utf-8")
+      .split("\n")
+      .map(parseLine)
+      .flatMap((entry) => (entry ? [toTranscriptMessage(entry)] : []))
+      .filter((msg): msg is TranscriptMessage => msg !== null);
+  } catch {
+    return [];
+  }
+}
+
+function readBytes(fd: number, start: number, end: number): Buffer {
+  const buffer = Buffer.alloc(Math.max(end - start, 0));
+  let read = 0;
+  while (read < buffer.length) {
+    const bytes = readSync(fd, buffer, read, buffer.length - read, start + read);
+    if (bytes === 0) break;
+    read += bytes;
+  }
+  return buffer.subarray(0, read);
+}
+
+/**
+ * Where to resume: the cursor's offset if it still sits at the end of a
+ * line, else just after the entry it remembers, else the start
+ */
+function resolveStart(fd: number, size: number, cursor: TranscriptCursor | null): number {
+  if (!cursor || cursor.offset === 0) return 0;
+  if (cursor.offset <= size && readBytes(fd, cursor.offset - 1, cursor.offset)[0] === NEWLINE) {
+    return cursor.offset;
+  }
+
+  // Rewritten underneath us: find the last entry read by its UUID
+  if (cursor.uuid) {
+    const content = readBytes(fd, 0, size);
+    let lineStart = 0;
+    while (lineStart < content.length) {
+      const lineEnd = content.indexOf(NEWLINE, lineStart);
+      if (lineEnd === -1) break;
+      if (parseLine(content.subarray(lineStart, lineEnd).toString("utf-8"))?.uuid === cursor.uuid) {
+        return lineEnd + 1;
+      }
+      lineStart = lineEnd + 1;
+    }
+  }
+  logFlow("transcript", `Transcript was rewritten and entry ${cursor.uuid ?? "?"} is gone, re-reading from the start`);
+  return 0;
+}
+
+/**
+ * Entries appended since the cursor (default: the stored one), the cursor
+ * after them, and the cwd/session recorded in them.
+ * A trailing line without a newline is still being written and is left for next time.
+ */
+export function readNewTranscriptEntries(
+  transcriptPath: string,
+  previous: TranscriptCursor | null = getTranscriptCursor(transcriptPath)
+): { messages: TranscriptMessage[]; cursor: TranscriptCursor | null; cwd?: string; sessionId?: string } {
+  const fd = openSync(transcriptPath, "r");
+  try {
+    const size = fstatSync(fd).size;
+    const start = resolveStart(fd, size, previous);
+    const chunk = readBytes(fd, start, size);
+    const end = chunk.lastIndexOf(NEWLINE);
+    if (end === -1) {
+      // Nothing new and complete; keep a position found by UUID for next time
+      const moved = start !== (previous?.offset ?? 0);
+      return { messages: [], cursor: moved ? { offset: start, uuid: previous?.uuid, updatedAt: new Date().toISOString() } : null };
+    }
+
+    const messages: TranscriptMessage[] = [];
+    let uuid = previous?.uuid;
+    let cwd: string | undefined;
+    let sessionId: string | undefined;
+    for (const line of chunk.subarray(0, end).toString("utf-8").split("\n")) {
+      const entry = parseLine(line);
+      if (!entry) continue;
+      if (entry.uuid) uuid = entry.uuid;
+      cwd ??= entry.cwd;
+      sessionId ??= entry.sessionId;
+      const message = toTranscriptMessage(entry);
+      if (message) messages.push(message);
+    }
+    return { messages, cursor: { offset: start + end + 1, uuid, updatedAt: new Date().toISOString() }, cwd, sessionId };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Idempotency key for a transcript message, shared by the hooks and
+ * `import transcripts` so an entry both of them see is uploaded once
+ */
+export function transcriptMessageKey(instanceId: string | null | undefined, peerId: string, msg: TranscriptMessage): string {
+  return outboxKey(instanceId, peerId, msg.uuid ?? `${msg.timestamp ?? ""}\0${msg.content}`);
+}
+
+/**
+ * Queue assistant prose appended since the last call, then move the cursor.
+ * Returns the new messages (user and assistant) for local use.
+ */
+export function ingestTranscript(transcriptPath: string | undefined, options: IngestOptions): TranscriptMessage[] {
+  if (!transcriptPath || !existsSync(transcriptPath)) return [];
+
+  let result: ReturnType<typeof readNewTranscriptEntries>;
+  try {
+    result = readNewTranscriptEntries(transcriptPath);
+  } catch (error) {
+    logFlow("transcript", `Failed to read ${transcriptPath}: ${error}`);
+    return [];
+  }
+
+  const { messages, cursor } = result;
+  if (options.upload) {
+    for (const msg of messages.filter((m) => m.role === "assistant")) {
+      queueMessage(msg.content, options.peerId, options.cwd, options.instanceId || undefined, {
+        key: transcriptMessageKey(options.instanceId, options.peerId, msg),
+        sessionName: options.sessionName,
+        timestamp: msg.timestamp, // When it was said, even if read (or uploaded) late
+        metadata: {
+          type: msg.isMeaningful ? "assistant_prose" : "assistant_brief",
+          meaningful: msg.isMeaningful || false,
+        },
+      });
+    }
+  }
+  // Queued before the cursor moves: if we die in between, the re-read is deduped by key
+  if (cursor) setTranscriptCursor(transcriptPath, cursor);
+  return messages;
+}